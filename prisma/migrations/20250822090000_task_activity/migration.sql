@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "TaskActivityAction" AS ENUM ('CREATED', 'UPDATED', 'ARCHIVED', 'UNARCHIVED', 'DELETED', 'RESTORED');
+
+-- CreateTable
+CREATE TABLE "TaskActivity" (
+    "id" SERIAL NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "actorId" INTEGER,
+    "action" "TaskActivityAction" NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskActivity_taskId_idx" ON "TaskActivity"("taskId");
+
+-- AddForeignKey
+ALTER TABLE "TaskActivity" ADD CONSTRAINT "TaskActivity_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskActivity" ADD CONSTRAINT "TaskActivity_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
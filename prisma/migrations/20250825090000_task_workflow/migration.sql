@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "resolution" TEXT,
+ADD COLUMN     "startedAt" TIMESTAMP(3);
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "TaskPriority" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'URGENT');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "dueAt" TIMESTAMP(3),
+ADD COLUMN     "estimateMinutes" INTEGER,
+ADD COLUMN     "priority" "TaskPriority" NOT NULL DEFAULT 'MEDIUM';
+
+-- CreateIndex
+CREATE INDEX "Task_dueAt_idx" ON "Task"("dueAt");
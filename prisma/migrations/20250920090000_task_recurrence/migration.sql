@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "recurrenceId" INTEGER,
+ADD COLUMN "occurrenceAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TaskRecurrence" (
+    "id" SERIAL NOT NULL,
+    "rule" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "lastOccurrenceAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskRecurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskRecurrence_endedAt_idx" ON "TaskRecurrence"("endedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_recurrenceId_occurrenceAt_key" ON "Task"("recurrenceId", "occurrenceAt");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_recurrenceId_fkey" FOREIGN KEY ("recurrenceId") REFERENCES "TaskRecurrence"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TASK_ASSIGNED';
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "createdById" INTEGER,
+ADD COLUMN "assigneeId" INTEGER;
+
+-- Until now the owner was also the creator and the person doing the work.
+UPDATE "Task" SET "createdById" = "userId", "assigneeId" = "userId";
+
+-- CreateIndex
+CREATE INDEX "Task_assigneeId_idx" ON "Task"("assigneeId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,25 +1,48 @@
 import dotenv from 'dotenv';
 import express from 'express';
 import helmet from 'helmet';
+import { startJobs, stopJobs } from './jobs';
 import { errorHandler } from './middleware/errorHandler';
+import adminRoutes from './routes/adminRoutes';
 import authRoutes from './routes/authRoutes';
+import labelRoutes from './routes/labelRoutes';
+import mentionRoutes from './routes/mentionRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import personalAccessTokenRoutes from './routes/personalAccessTokenRoutes';
+import projectRoutes from './routes/projectRoutes';
 import taskRoutes from './routes/taskRoutes';
+import webhookRoutes from './routes/webhookRoutes';
 import prisma from './services/prisma';
+import { assertWorkflowConfig } from './services/workflow';
 
 dotenv.config();
 
 const app = express();
 
+// Rate limits are keyed by client IP. Behind a load balancer, set TRUST_PROXY_HOPS to the
+// number of proxies in front of the app so `req.ip` is read from X-Forwarded-For.
+if (process.env.TRUST_PROXY_HOPS) {
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS));
+}
+
 app.use(express.json());
 app.use(helmet());
 
 app.use('/api/auth', authRoutes);
 app.use('/api/tasks', taskRoutes);
+app.use('/api/projects', projectRoutes);
+app.use('/api/labels', labelRoutes);
+app.use('/api/mentions', mentionRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/access-tokens', personalAccessTokenRoutes);
+app.use('/api/admin', adminRoutes);
 
 app.use(errorHandler);
 
 export const startServer = async () => {
   try {
+    assertWorkflowConfig();
     await prisma.$connect();
     console.log('Database connection established');
     
@@ -28,8 +51,11 @@ export const startServer = async () => {
       console.log(`Server running on port ${PORT}`);
     });
 
+    startJobs();
+
     process.on('SIGINT', async () => {
       console.log('Shutting down gracefully...');
+      stopJobs();
       await prisma.$disconnect();
       server.close(() => {
         console.log('Server closed');
@@ -0,0 +1,245 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { Prisma, User } from '@prisma/client';
+import { z } from 'zod';
+import { taskListQuerySchema } from '../models/Task';
+import { adminUserQuerySchema, adminUserUpdateSchema } from '../models/User';
+import { sendPasswordReset } from '../services/accountTokens';
+import { encodeCursor } from '../services/pagination';
+import prisma, { withTransaction } from '../services/prisma';
+import { findTaskPage } from '../services/taskQuery';
+import { revokeCredentials } from '../services/tokens';
+
+type UserLookup =
+  | { user: User; error?: undefined }
+  | { user?: undefined; error: { status: number; message: string } };
+
+const toAdminUserResponse = ({ password, ...user }: User) => user;
+
+const findUser = async (userIdParam: string): Promise<UserLookup> => {
+  const userId = parseInt(userIdParam);
+
+  const user = Number.isNaN(userId) ? null : await prisma.user.findUnique({
+    where: { id: userId }
+  });
+
+  if (!user) {
+    return { error: { status: 404, message: 'User not found' } };
+  }
+
+  return { user };
+};
+
+// Admins cannot disable or demote themselves, so there is always someone left to undo it.
+const isSelf = (req: Request, user: User) => user.id === req.user!.userId;
+
+export const listUsers = async (req: Request, res: Response) => {
+  try {
+    const { q, role, disabled, limit, cursor } = adminUserQuerySchema.parse(req.query);
+
+    const where: Prisma.UserWhereInput = {
+      email: q ? { contains: q, mode: 'insensitive' } : undefined,
+      role,
+      disabledAt: disabled === undefined ? undefined : disabled ? { not: null } : null,
+      id: cursor ? { gt: cursor.id } : undefined
+    };
+
+    const users = await prisma.user.findMany({
+      where,
+      orderBy: { id: 'asc' },
+      take: limit + 1
+    });
+
+    const page = users.slice(0, limit);
+    const nextCursor = users.length > limit
+      ? encodeCursor({ sortBy: 'id', value: null, id: page[page.length - 1].id })
+      : null;
+
+    return res.json({ data: page.map(toAdminUserResponse), nextCursor });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getUser = async (req: Request, res: Response) => {
+  try {
+    const { user, error } = await findUser(req.params.user_id);
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    return res.json(toAdminUserResponse(user));
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const updateUser = async (req: Request, res: Response) => {
+  try {
+    const { user, error } = await findUser(req.params.user_id);
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { role } = adminUserUpdateSchema.parse(req.body);
+
+    if (isSelf(req, user) && role !== user.role) {
+      return res.status(409).json({ message: 'You cannot change your own role' });
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { role }
+    });
+
+    return res.json(toAdminUserResponse(updatedUser));
+  } catch (error) {
+    console.error('Error updating user:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Also revokes the user's sessions and personal access tokens; their access tokens are
+// refused from the next request on.
+export const disableUser = async (req: Request, res: Response) => {
+  try {
+    const { user, error } = await findUser(req.params.user_id);
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (isSelf(req, user)) {
+      return res.status(409).json({ message: 'You cannot disable your own account' });
+    }
+
+    const updatedUser = await withTransaction(async tx => {
+      const updated = await tx.user.update({
+        where: { id: user.id },
+        data: { disabledAt: user.disabledAt ?? new Date() }
+      });
+
+      await revokeCredentials(tx, user.id);
+      return updated;
+    });
+
+    return res.json(toAdminUserResponse(updatedUser));
+  } catch (error) {
+    console.error('Error disabling user:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const enableUser = async (req: Request, res: Response) => {
+  try {
+    const { user, error } = await findUser(req.params.user_id);
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { disabledAt: null }
+    });
+
+    return res.json(toAdminUserResponse(updatedUser));
+  } catch (error) {
+    console.error('Error enabling user:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Replaces the password with a random one nobody knows, signs the user out everywhere,
+// revokes their personal access tokens and emails them a reset link, which is then the
+// only way back in.
+export const forcePasswordReset = async (req: Request, res: Response) => {
+  try {
+    const { user, error } = await findUser(req.params.user_id);
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString('base64url'), 10);
+
+    await withTransaction(async tx => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { password: passwordHash }
+      });
+
+      await revokeCredentials(tx, user.id);
+    });
+    await sendPasswordReset(user);
+
+    return res.status(202).json({ message: 'Password reset link sent' });
+  } catch (error) {
+    console.error('Error forcing password reset:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// The tasks the user would see in `GET /api/tasks` with the same query.
+export const listUserTasks = async (req: Request, res: Response) => {
+  try {
+    const { user, error: userError } = await findUser(req.params.user_id);
+
+    if (userError) {
+      return res.status(userError.status).json({ message: userError.message });
+    }
+
+    const query = taskListQuerySchema.parse(req.query);
+    const { error, ...page } = await findTaskPage(user.id, query);
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    return res.json(page);
+  } catch (error) {
+    console.error('Error fetching user tasks:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
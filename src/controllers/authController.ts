@@ -1,8 +1,46 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
+import { Prisma, User } from '@prisma/client';
 import { z } from 'zod';
-import prisma from '../services/prisma';
+import { parseBasicAuth } from '../middleware/auth';
+import { forgotPasswordSchema, resetPasswordSchema, updateMeSchema, verifyEmailSchema } from '../models/User';
+import {
+  consumeAccountToken,
+  findAccountToken,
+  findPendingEmail,
+  sendEmailVerification,
+  sendPasswordReset
+} from '../services/accountTokens';
+import prisma, { withTransaction } from '../services/prisma';
+import { clearLoginFailures, loginLockRemaining, recordLoginFailure } from '../services/rateLimit';
+import {
+  createSession,
+  revokeAllSessions,
+  revokeCredentials,
+  revokeRefreshToken,
+  rotateRefreshToken
+} from '../services/tokens';
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+const validationFailed = (res: Response, error: z.ZodError) => res.status(422).json({
+  message: 'Validation failed',
+  errors: error.issues.map(issue => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+    code: issue.code
+  }))
+});
+
+const toAccountResponse = async (user: User) => ({
+  id: user.id,
+  email: user.email,
+  role: user.role,
+  emailVerifiedAt: user.emailVerifiedAt,
+  pendingEmail: await findPendingEmail(user.id, user.email),
+  createdAt: user.createdAt
+});
 
 export const register = async (req: Request, res: Response) => {
   try {
@@ -31,6 +69,8 @@ export const register = async (req: Request, res: Response) => {
         password: hashedPassword
       }
     });
+
+    await sendEmailVerification(user, user.email);
     
     return res.status(201).json({ 
       message: 'User registered successfully',
@@ -40,14 +80,7 @@ export const register = async (req: Request, res: Response) => {
     console.error('Registration error:', error);
 
     if (error instanceof z.ZodError) {
-      return res.status(422).json({
-        message: 'Validation failed',
-        errors: error.issues.map(issue => ({
-          field: issue.path.join('.'),
-          message: issue.message,
-          code: issue.code
-        }))
-      });
+      return validationFailed(res, error);
     }
 
     return res.status(500).json({ message: 'Internal server error' });
@@ -56,38 +89,285 @@ export const register = async (req: Request, res: Response) => {
 
 export const getToken = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
+    const credentials = parseBasicAuth(req.headers.authorization);
     
-    if (!authHeader || !authHeader.startsWith('Basic ')) {
+    if (!credentials) {
       return res.status(401).json({ 
         message: 'Authentication required',
         authScheme: 'Basic'
       });
     }
     
-    const base64Credentials = authHeader.split(' ')[1];
-    const credentials = Buffer.from(base64Credentials, 'base64').toString('utf-8');
-    const [email, password] = credentials.split(':');
+    const { email, password } = credentials;
+    const lockedFor = await loginLockRemaining(email);
+
+    // Locked accounts are refused even with the right password.
+    if (lockedFor > 0) {
+      res.setHeader('Retry-After', lockedFor);
+      return res.status(429).json({ message: 'Too many failed login attempts, please try again later' });
+    }
     
     const user = await prisma.user.findUnique({ where: { email } });
     
-    if (!user || !(await bcrypt.compare(password, user.password))) {
+    // A disabled account gets the same answer as a wrong password, whether or not the
+    // password matched, and its failures count towards the lockout.
+    if (!user || !(await bcrypt.compare(password, user.password)) || user.disabledAt) {
+      await recordLoginFailure(email);
       return res.status(401).json({ message: 'Invalid credentials' });
     }
+
+    await clearLoginFailures(email);
     
-    const token = jwt.sign(
-      { userId: user.id }, 
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '24h' }
-    );
+    const tokens = await createSession(user.id);
     
-    return res.json({
-      token,
-      expiresIn: 86422,
-      tokenType: 'Bearer'
-    });
+    return res.json(tokens);
   } catch (error) {
     console.error('Token generation error:', error);
     return res.status(500).json({ message: 'Internal server error' });
   }
 };
+
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(422).json({ message: 'Refresh token is required' });
+    }
+
+    const tokens = await rotateRefreshToken(refreshToken);
+
+    if (!tokens) {
+      return res.status(401).json({ message: 'Invalid or expired refresh token' });
+    }
+
+    return res.json(tokens);
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(422).json({ message: 'Refresh token is required' });
+    }
+
+    await revokeRefreshToken(refreshToken);
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    await revokeAllSessions(req.user!.userId);
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Always answers 202 so the response does not reveal whether the address is registered.
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (user) {
+      await sendPasswordReset(user);
+    }
+
+    return res.status(202).json({ message: 'If the account exists, a password reset link has been sent' });
+  } catch (error) {
+    console.error('Password reset request error:', error);
+
+    if (error instanceof z.ZodError) {
+      return validationFailed(res, error);
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Sets the new password, signs out every session and revokes every personal access token,
+// since any of them may belong to whoever learned the old password.
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+    const accountToken = await findAccountToken(token, 'PASSWORD_RESET');
+
+    if (!accountToken || !(await consumeAccountToken(accountToken))) {
+      return res.status(400).json({ message: 'Invalid or expired token' });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+    const user = await withTransaction(async tx => {
+      const updated = await tx.user.update({
+        where: { id: accountToken.userId },
+        data: { password: passwordHash }
+      });
+
+      await revokeCredentials(tx, updated.id);
+      return updated;
+    });
+
+    await clearLoginFailures(user.email);
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Password reset error:', error);
+
+    if (error instanceof z.ZodError) {
+      return validationFailed(res, error);
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Confirms the address the token was sent to. For an email change, that address becomes
+// the account's email.
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+    const accountToken = await findAccountToken(token, 'EMAIL_VERIFICATION');
+
+    if (!accountToken?.email) {
+      return res.status(400).json({ message: 'Invalid or expired token' });
+    }
+
+    const taken = await prisma.user.findFirst({
+      where: { email: accountToken.email, id: { not: accountToken.userId } },
+      select: { id: true }
+    });
+
+    if (taken) {
+      return res.status(409).json({ message: 'Email is already in use' });
+    }
+
+    if (!(await consumeAccountToken(accountToken))) {
+      return res.status(400).json({ message: 'Invalid or expired token' });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: accountToken.userId },
+      data: { email: accountToken.email, emailVerifiedAt: new Date() }
+    });
+
+    return res.json(await toAccountResponse(user));
+  } catch (error) {
+    console.error('Email verification error:', error);
+
+    if (error instanceof z.ZodError) {
+      return validationFailed(res, error);
+    }
+
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'Email is already in use' });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const resendEmailVerification = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.emailVerifiedAt) {
+      return res.status(409).json({ message: 'Email is already verified' });
+    }
+
+    await sendEmailVerification(user, user.email);
+
+    return res.status(202).json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Email verification request error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getMe = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    return res.json(await toAccountResponse(user));
+  } catch (error) {
+    console.error('Error fetching account:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Both changes need the current password. A new password applies at once, signs out the
+// other sessions and revokes personal access tokens; a new email only applies once the link
+// sent to it is followed.
+export const updateMe = async (req: Request, res: Response) => {
+  try {
+    const { currentPassword, email, password } = updateMeSchema.parse(req.body);
+    let user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      return res.status(403).json({ message: 'Current password is incorrect' });
+    }
+
+    const changesEmail = email !== undefined && email !== user.email;
+
+    if (changesEmail) {
+      const taken = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+
+      if (taken) {
+        return res.status(409).json({ message: 'Email is already in use' });
+      }
+    }
+
+    if (password !== undefined) {
+      const userId = user.id;
+      const passwordHash = await bcrypt.hash(password, 10);
+
+      user = await withTransaction(async tx => {
+        const updated = await tx.user.update({
+          where: { id: userId },
+          data: { password: passwordHash }
+        });
+
+        await revokeCredentials(tx, userId, { keepFamilyId: req.user!.sessionId! });
+        return updated;
+      });
+    }
+
+    if (changesEmail) {
+      await sendEmailVerification(user, email);
+    }
+
+    return res.json(await toAccountResponse(user));
+  } catch (error) {
+    console.error('Error updating account:', error);
+
+    if (error instanceof z.ZodError) {
+      return validationFailed(res, error);
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { collaboratorInviteSchema } from '../models/TaskCollaborator';
+import prisma from '../services/prisma';
+import { findAuthorizedTask } from '../services/taskAccess';
+import { notifyShared } from '../services/taskNotifications';
+
+const collaboratorSelect = {
+  userId: true,
+  role: true,
+  createdAt: true,
+  updatedAt: true,
+  user: { select: { email: true } }
+} satisfies Prisma.TaskCollaboratorSelect;
+
+type CollaboratorRecord = Prisma.TaskCollaboratorGetPayload<{ select: typeof collaboratorSelect }>;
+
+const toCollaboratorResponse = ({ user, ...collaborator }: CollaboratorRecord) => ({
+  ...collaborator,
+  email: user.email
+});
+
+export const listCollaborators = async (req: Request, res: Response) => {
+  try {
+    const { task, error } = await findAuthorizedTask(req.params.task_id, req.user!.userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const collaborators = await prisma.taskCollaborator.findMany({
+      where: { taskId: task.id },
+      select: collaboratorSelect,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return res.json(collaborators.map(toCollaboratorResponse));
+  } catch (error) {
+    console.error('Error fetching collaborators:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const addCollaborator = async (req: Request, res: Response) => {
+  try {
+    const { task, error } = await findAuthorizedTask(req.params.task_id, req.user!.userId, 'manage', 'share');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { email, role } = collaboratorInviteSchema.parse(req.body);
+
+    const invitee = await prisma.user.findUnique({ where: { email } });
+
+    if (!invitee) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (invitee.id === task.userId) {
+      return res.status(422).json({ message: 'The task owner cannot be added as a collaborator' });
+    }
+
+    const existing = await prisma.taskCollaborator.findUnique({
+      where: { taskId_userId: { taskId: task.id, userId: invitee.id } }
+    });
+
+    const collaborator = await prisma.taskCollaborator.upsert({
+      where: { taskId_userId: { taskId: task.id, userId: invitee.id } },
+      create: { taskId: task.id, userId: invitee.id, role },
+      update: { role },
+      select: collaboratorSelect
+    });
+
+    if (!existing) {
+      await notifyShared(task, invitee.id, req.user!.userId);
+    }
+
+    return res.status(existing ? 200 : 201).json(toCollaboratorResponse(collaborator));
+  } catch (error) {
+    console.error('Error adding collaborator:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const removeCollaborator = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const collaboratorId = parseInt(req.params.user_id);
+
+    // Collaborators may remove themselves; anyone else needs to be the owner.
+    const permission = collaboratorId === userId ? 'view' : 'manage';
+    const { task, error } = await findAuthorizedTask(req.params.task_id, userId, permission, 'share');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { count } = await prisma.taskCollaborator.deleteMany({
+      where: { taskId: task.id, userId: Number.isNaN(collaboratorId) ? -1 : collaboratorId }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ message: 'Collaborator not found' });
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error removing collaborator:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
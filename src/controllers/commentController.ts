@@ -0,0 +1,256 @@
+import { Request, Response } from 'express';
+import { Prisma, Task } from '@prisma/client';
+import { z } from 'zod';
+import { commentListQuerySchema } from '../models/Comment';
+import { resolveMentions } from '../services/mentions';
+import { encodeCursor } from '../services/pagination';
+import { notifyMentioned } from '../services/taskNotifications';
+import prisma, { runAfterCommit } from '../services/prisma';
+import { findAuthorizedTask } from '../services/taskAccess';
+import { accessibleTaskWhere } from '../services/taskQuery';
+
+const commentSelect = {
+  id: true,
+  taskId: true,
+  body: true,
+  editedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  author: { select: { id: true, email: true } },
+  mentions: { select: { user: { select: { id: true, email: true } } }, orderBy: { userId: 'asc' } }
+} satisfies Prisma.CommentSelect;
+
+type CommentRecord = Prisma.CommentGetPayload<{ select: typeof commentSelect }>;
+
+const toCommentResponse = ({ mentions, ...comment }: CommentRecord) => ({
+  ...comment,
+  mentions: mentions.map(({ user }) => user)
+});
+
+const findTaskComment = async (task: Task, commentIdParam: string) => {
+  const commentId = parseInt(commentIdParam);
+
+  return Number.isNaN(commentId) ? null : prisma.comment.findFirst({
+    where: { id: commentId, taskId: task.id }
+  });
+};
+
+export const listComments = async (req: Request, res: Response) => {
+  try {
+    const { task, error } = await findAuthorizedTask(req.params.task_id, req.user!.userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { limit, cursor } = commentListQuerySchema.parse(req.query);
+
+    const comments = await prisma.comment.findMany({
+      where: {
+        taskId: task.id,
+        id: cursor ? { gt: cursor.id } : undefined
+      },
+      select: commentSelect,
+      orderBy: { id: 'asc' },
+      take: limit + 1
+    });
+
+    const page = comments.slice(0, limit);
+    const nextCursor = comments.length > limit
+      ? encodeCursor({ sortBy: 'id', value: null, id: page[page.length - 1].id })
+      : null;
+
+    return res.json({ data: page.map(toCommentResponse), nextCursor });
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const createComment = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { task, error } = await findAuthorizedTask(req.params.task_id, userId, 'edit', 'comment on');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { body } = req.body;
+    const mentionedIds = typeof body === 'string' ? await resolveMentions(body, task, userId) : [];
+
+    const comment = await prisma.comment.create({
+      data: {
+        body,
+        taskId: task.id,
+        authorId: userId,
+        mentions: { create: mentionedIds.map(mentionedId => ({ userId: mentionedId })) }
+      },
+      select: commentSelect
+    });
+
+    await runAfterCommit(() => notifyMentioned(task, mentionedIds, userId));
+
+    return res.status(201).json(toCommentResponse(comment));
+  } catch (error) {
+    console.error('Error creating comment:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const updateComment = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { task, error } = await findAuthorizedTask(req.params.task_id, userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const comment = await findTaskComment(task, req.params.comment_id);
+
+    if (!comment) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    if (comment.authorId !== userId) {
+      return res.status(403).json({ message: 'You are not authorized to update this comment' });
+    }
+
+    const { body } = req.body;
+    const mentionedIds = typeof body === 'string' ? await resolveMentions(body, task, userId) : [];
+    const previousMentions = await prisma.commentMention.findMany({
+      where: { commentId: comment.id },
+      select: { userId: true }
+    });
+
+    const updatedComment = await prisma.comment.update({
+      where: { id: comment.id },
+      data: {
+        body,
+        editedAt: new Date(),
+        mentions: {
+          deleteMany: {},
+          create: mentionedIds.map(mentionedId => ({ userId: mentionedId }))
+        }
+      },
+      select: commentSelect
+    });
+
+    // Only people the edit newly mentions are notified.
+    const previousIds = previousMentions.map(mention => mention.userId);
+    await runAfterCommit(() => notifyMentioned(task, mentionedIds.filter(mentionedId => !previousIds.includes(mentionedId)), userId));
+
+    return res.json(toCommentResponse(updatedComment));
+  } catch (error) {
+    console.error('Error updating comment:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Authors can remove their own comments; the task owner can moderate the whole thread.
+export const deleteComment = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { task, role, error } = await findAuthorizedTask(req.params.task_id, userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const comment = await findTaskComment(task, req.params.comment_id);
+
+    if (!comment) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    if (comment.authorId !== userId && role !== 'OWNER') {
+      return res.status(403).json({ message: 'You are not authorized to delete this comment' });
+    }
+
+    await prisma.comment.delete({ where: { id: comment.id } });
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Comments mentioning the caller, newest first. Mentions on tasks the caller can no
+// longer see are left out.
+export const listMentions = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { limit, cursor } = commentListQuerySchema.parse(req.query);
+
+    const mentions = await prisma.commentMention.findMany({
+      where: {
+        userId,
+        commentId: cursor ? { lt: cursor.id } : undefined,
+        comment: { task: { deletedAt: null, ...accessibleTaskWhere(userId) } }
+      },
+      select: { comment: { select: commentSelect } },
+      orderBy: { commentId: 'desc' },
+      take: limit + 1
+    });
+
+    const page = mentions.slice(0, limit).map(({ comment }) => comment);
+    const nextCursor = mentions.length > limit
+      ? encodeCursor({ sortBy: 'id', value: null, id: page[page.length - 1].id })
+      : null;
+
+    return res.json({ data: page.map(toCommentResponse), nextCursor });
+  } catch (error) {
+    console.error('Error fetching mentions:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { labelListQuerySchema } from '../models/Label';
+import prisma from '../services/prisma';
+import { findAuthorizedLabel } from '../services/labels';
+import { findAuthorizedProject } from '../services/projectAccess';
+
+const isDuplicateName = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+export const getAllLabels = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { projectId } = labelListQuerySchema.parse(req.query);
+
+    if (projectId) {
+      const { error } = await findAuthorizedProject(projectId, userId, 'view', 'view');
+
+      if (error) {
+        return res.status(error.status).json({ message: error.message });
+      }
+    }
+
+    const labels = await prisma.label.findMany({
+      where: projectId ? { projectId } : { userId },
+      orderBy: { name: 'asc' }
+    });
+
+    return res.json(labels);
+  } catch (error) {
+    console.error('Error fetching labels:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const createLabel = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { name, color, projectId } = req.body;
+    const isProjectLabel = projectId !== undefined && projectId !== null;
+
+    // Labels are personal unless they are created for a project, which takes the same
+    // rights as managing the project itself.
+    if (isProjectLabel) {
+      const { error } = await findAuthorizedProject(projectId, userId, 'manage', 'add labels to');
+
+      if (error) {
+        return res.status(error.status).json({ message: error.message });
+      }
+    }
+
+    const label = await prisma.label.create({
+      data: isProjectLabel ? { name, color, projectId } : { name, color, userId }
+    });
+
+    return res.status(201).json(label);
+  } catch (error) {
+    console.error('Error creating label:', error);
+
+    if (isDuplicateName(error)) {
+      return res.status(409).json({ message: 'A label with this name already exists' });
+    }
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const updateLabel = async (req: Request, res: Response) => {
+  try {
+    const { label, error } = await findAuthorizedLabel(req.params.label_id, req.user!.userId, 'manage', 'update');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { name, color } = req.body;
+
+    const updatedLabel = await prisma.label.update({
+      where: { id: label.id },
+      data: { name, color }
+    });
+
+    return res.json(updatedLabel);
+  } catch (error) {
+    console.error('Error updating label:', error);
+
+    if (isDuplicateName(error)) {
+      return res.status(409).json({ message: 'A label with this name already exists' });
+    }
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Task assignments cascade with the label, so deleting it detaches it from every task.
+export const deleteLabel = async (req: Request, res: Response) => {
+  try {
+    const { label, error } = await findAuthorizedLabel(req.params.label_id, req.user!.userId, 'manage', 'delete');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    await prisma.label.delete({ where: { id: label.id } });
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting label:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import { NotificationChannel } from '@prisma/client';
+import { z } from 'zod';
+import {
+  notificationChannelsSchema,
+  notificationListQuerySchema,
+  notificationPreferencesSchema
+} from '../models/Notification';
+import { notificationSelect, toNotificationSettings } from '../services/notifications';
+import { encodeCursor } from '../services/pagination';
+import prisma from '../services/prisma';
+
+// The inbox holds the notifications routed to the in-app channel.
+const inboxWhere = (userId: number) => ({ userId, channels: { has: NotificationChannel.IN_APP } });
+
+// Newest first.
+export const listNotifications = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { unread, limit, cursor } = notificationListQuerySchema.parse(req.query);
+
+    const notifications = await prisma.notification.findMany({
+      where: {
+        ...inboxWhere(userId),
+        readAt: unread ? null : undefined,
+        id: cursor ? { lt: cursor.id } : undefined
+      },
+      select: notificationSelect,
+      orderBy: { id: 'desc' },
+      take: limit + 1
+    });
+
+    const page = notifications.slice(0, limit);
+    const nextCursor = notifications.length > limit
+      ? encodeCursor({ sortBy: 'id', value: null, id: page[page.length - 1].id })
+      : null;
+
+    return res.json({ data: page, nextCursor });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getUnreadCount = async (req: Request, res: Response) => {
+  try {
+    const count = await prisma.notification.count({
+      where: { ...inboxWhere(req.user!.userId), readAt: null }
+    });
+
+    return res.json({ count });
+  } catch (error) {
+    console.error('Error counting notifications:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const markNotificationRead = async (req: Request, res: Response) => {
+  try {
+    const notificationId = parseInt(req.params.notification_id);
+    const notification = Number.isNaN(notificationId) ? null : await prisma.notification.findFirst({
+      where: { id: notificationId, ...inboxWhere(req.user!.userId) }
+    });
+
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+
+    // Marking a read notification again keeps the time it was first read.
+    const updated = await prisma.notification.update({
+      where: { id: notification.id },
+      data: { readAt: notification.readAt ?? new Date() },
+      select: notificationSelect
+    });
+
+    return res.json(updated);
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const markAllNotificationsRead = async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { ...inboxWhere(req.user!.userId), readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    return res.json({ count });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getNotificationPreferences = async (req: Request, res: Response) => {
+  try {
+    const settings = await prisma.notificationSettings.findUnique({ where: { userId: req.user!.userId } });
+
+    return res.json(toNotificationSettings(settings));
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Only the types sent are changed; the others keep their current channels.
+export const updateNotificationPreferences = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { channels, emailDigest } = notificationPreferencesSchema.parse(req.body);
+
+    const existing = await prisma.notificationSettings.findUnique({ where: { userId } });
+    const stored = notificationChannelsSchema.safeParse(existing?.channels ?? {});
+    const merged = { ...(stored.success ? stored.data : {}), ...channels };
+
+    const settings = await prisma.notificationSettings.upsert({
+      where: { userId },
+      create: { userId, channels: merged, emailDigest },
+      update: { channels: merged, emailDigest }
+    });
+
+    return res.json(toNotificationSettings(settings));
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
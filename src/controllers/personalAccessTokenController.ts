@@ -0,0 +1,87 @@
+import { Request, Response } from 'express';
+import { PersonalAccessToken } from '@prisma/client';
+import { z } from 'zod';
+import { generatePersonalAccessToken } from '../services/personalAccessTokens';
+import prisma from '../services/prisma';
+
+// The token itself is only returned once, when it is created.
+const toPersonalAccessTokenResponse = ({ tokenHash, userId, revokedAt, ...accessToken }: PersonalAccessToken) =>
+  accessToken;
+
+export const getAllPersonalAccessTokens = async (req: Request, res: Response) => {
+  try {
+    const accessTokens = await prisma.personalAccessToken.findMany({
+      where: { userId: req.user!.userId, revokedAt: null },
+      orderBy: { id: 'asc' }
+    });
+
+    return res.json(accessTokens.map(toPersonalAccessTokenResponse));
+  } catch (error) {
+    console.error('Error fetching access tokens:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const createPersonalAccessToken = async (req: Request, res: Response) => {
+  try {
+    const { name, scopes, expiresAt } = req.body;
+    const { token, tokenHash, tokenPrefix } = generatePersonalAccessToken();
+
+    const accessToken = await prisma.personalAccessToken.create({
+      data: {
+        name,
+        scopes,
+        expiresAt,
+        tokenHash,
+        tokenPrefix,
+        userId: req.user!.userId
+      }
+    });
+
+    return res.status(201).json({ ...toPersonalAccessTokenResponse(accessToken), token });
+  } catch (error) {
+    console.error('Error creating access token:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Revoked tokens are kept so the record of when they were created and last used survives.
+export const revokePersonalAccessToken = async (req: Request, res: Response) => {
+  try {
+    const tokenId = parseInt(req.params.token_id);
+
+    const accessToken = Number.isNaN(tokenId) ? null : await prisma.personalAccessToken.findUnique({
+      where: { id: tokenId }
+    });
+
+    if (!accessToken || accessToken.revokedAt) {
+      return res.status(404).json({ message: 'Access token not found' });
+    }
+
+    if (accessToken.userId !== req.user!.userId) {
+      return res.status(403).json({ message: 'You are not authorized to revoke this access token' });
+    }
+
+    await prisma.personalAccessToken.update({
+      where: { id: accessToken.id },
+      data: { revokedAt: new Date() }
+    });
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error revoking access token:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,282 @@
+import { Request, Response } from 'express';
+import { Prisma, ProjectRole } from '@prisma/client';
+import { z } from 'zod';
+import { projectListQuerySchema, projectMemberSchema, projectMemberUpdateSchema } from '../models/Project';
+import prisma from '../services/prisma';
+import { findAuthorizedProject } from '../services/projectAccess';
+
+const memberSelect = {
+  userId: true,
+  role: true,
+  createdAt: true,
+  updatedAt: true,
+  user: { select: { email: true } }
+} satisfies Prisma.ProjectMemberSelect;
+
+type MemberRecord = Prisma.ProjectMemberGetPayload<{ select: typeof memberSelect }>;
+
+const toMemberResponse = ({ user, ...member }: MemberRecord) => ({
+  ...member,
+  email: user.email
+});
+
+export const getAllProjects = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { isArchived } = projectListQuerySchema.parse(req.query);
+
+    const memberships = await prisma.projectMember.findMany({
+      where: { userId, project: { isArchived } },
+      include: { project: true },
+      orderBy: { project: { createdAt: 'asc' } }
+    });
+
+    return res.json(memberships.map(({ project, role }) => ({ ...project, role })));
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const createProject = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { name } = req.body;
+
+    const project = await prisma.project.create({
+      data: {
+        name,
+        members: { create: { userId, role: ProjectRole.OWNER } }
+      }
+    });
+
+    return res.status(201).json({ ...project, role: ProjectRole.OWNER });
+  } catch (error) {
+    console.error('Error creating project:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getProject = async (req: Request, res: Response) => {
+  try {
+    const { project, role, error } = await findAuthorizedProject(req.params.project_id, req.user!.userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    return res.json({ ...project, role });
+  } catch (error) {
+    console.error('Error fetching project:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const updateProject = async (req: Request, res: Response) => {
+  try {
+    const { project, role, error } = await findAuthorizedProject(req.params.project_id, req.user!.userId, 'manage', 'update');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { name, isArchived } = req.body;
+
+    const updatedProject = await prisma.project.update({
+      where: { id: project.id },
+      data: { name, isArchived }
+    });
+
+    return res.json({ ...updatedProject, role });
+  } catch (error) {
+    console.error('Error updating project:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const listMembers = async (req: Request, res: Response) => {
+  try {
+    const { project, error } = await findAuthorizedProject(req.params.project_id, req.user!.userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const members = await prisma.projectMember.findMany({
+      where: { projectId: project.id },
+      select: memberSelect,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return res.json(members.map(toMemberResponse));
+  } catch (error) {
+    console.error('Error fetching project members:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const addMember = async (req: Request, res: Response) => {
+  try {
+    const { project, error } = await findAuthorizedProject(req.params.project_id, req.user!.userId, 'manage', 'manage members of');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { email, role } = projectMemberSchema.parse(req.body);
+
+    const invitee = await prisma.user.findUnique({ where: { email } });
+
+    if (!invitee) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const existing = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId: project.id, userId: invitee.id } }
+    });
+
+    if (existing) {
+      return res.status(409).json({ message: 'User is already a member of this project' });
+    }
+
+    const member = await prisma.projectMember.create({
+      data: { projectId: project.id, userId: invitee.id, role },
+      select: memberSelect
+    });
+
+    return res.status(201).json(toMemberResponse(member));
+  } catch (error) {
+    console.error('Error adding project member:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const updateMember = async (req: Request, res: Response) => {
+  try {
+    const { project, error } = await findAuthorizedProject(req.params.project_id, req.user!.userId, 'manage', 'manage members of');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { role } = projectMemberUpdateSchema.parse(req.body);
+    const memberId = parseInt(req.params.user_id);
+
+    const existing = Number.isNaN(memberId) ? null : await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId: project.id, userId: memberId } }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    if (existing.role === ProjectRole.OWNER) {
+      return res.status(422).json({ message: "The project owner's role cannot be changed" });
+    }
+
+    const member = await prisma.projectMember.update({
+      where: { id: existing.id },
+      data: { role },
+      select: memberSelect
+    });
+
+    return res.json(toMemberResponse(member));
+  } catch (error) {
+    console.error('Error updating project member:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const removeMember = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const memberId = parseInt(req.params.user_id);
+
+    // Members may leave on their own; removing anyone else needs admin rights.
+    const permission = memberId === userId ? 'view' : 'manage';
+    const { project, error } = await findAuthorizedProject(req.params.project_id, userId, permission, 'manage members of');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const existing = Number.isNaN(memberId) ? null : await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId: project.id, userId: memberId } }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    if (existing.role === ProjectRole.OWNER) {
+      return res.status(422).json({ message: 'The project owner cannot be removed' });
+    }
+
+    await prisma.projectMember.delete({ where: { id: existing.id } });
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error removing project member:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { taskBulkSchema } from '../models/Task';
+import { runBulkTaskOperations } from '../services/taskBulk';
+
+export const bulkTasks = async (req: Request, res: Response) => {
+  try {
+    const request = taskBulkSchema.parse(req.body);
+    const { applied, results, error } = await runBulkTaskOperations(req.user!.userId, request);
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const failed = results.filter(result => result.status >= 400 && result.status !== 424).length;
+    const summary = { succeeded: applied ? results.length - failed : 0, failed, results };
+
+    if (!applied) {
+      return res.status(422).json({ message: 'No changes were made because some operations failed', ...summary });
+    }
+
+    return res.json(summary);
+  } catch (error) {
+    console.error('Error running bulk task operations:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -1,19 +1,200 @@
 import { Request, Response } from 'express';
+import { TaskStatus } from '@prisma/client';
 import { Task } from '../types';
-import prisma from '../services/prisma';
+import { taskLabelsSchema } from '../models/Label';
+import {
+  TaskListQuery,
+  taskListQuerySchema,
+  taskRecurrenceInputSchema,
+  taskSearchQuerySchema,
+  taskTransitionSchema,
+  upcomingQuerySchema
+} from '../models/Task';
+import { taskHistoryQuerySchema } from '../models/TaskActivity';
+import { assertUsableLabels, usableLabelWhere } from '../services/labels';
+import { isStaleWrite, matchesIfNoneMatch, parseIfMatch, versionETag } from '../services/etags';
+import { encodeCursor } from '../services/pagination';
+import prisma, { runAfterCommit, withTransaction } from '../services/prisma';
+import { findAuthorizedProject, getProjectRole } from '../services/projectAccess';
+import { canUpdateTask, findAuthorizedTask, getTaskRole } from '../services/taskAccess';
+import { publishTaskEvent } from '../services/taskEvents';
+import { findTaskPage, taskInclude, toTaskResponse } from '../services/taskQuery';
+import {
+  changeRecurrence,
+  createNextOccurrence,
+  createRecurrence,
+  publishRemovedOccurrences,
+  recurrenceStart
+} from '../services/taskRecurrence';
+import { assertNoOpenBlockers, countSubtasks } from '../services/taskRelations';
+import { notifyTaskChanged } from '../services/taskNotifications';
+import { searchVisibleTasks } from '../services/taskSearch';
+import { enqueueTaskEvents } from '../services/webhooks';
+import { applyInitialStatus, applyTransition, availableTransitions, isTaskStatus } from '../services/workflow';
 import { z } from 'zod';
 
+// A task can only be placed in an active project the caller belongs to. Values that are
+// not integers are left for the task schema to reject.
+const checkProjectAssignment = async (projectId: unknown, userId: number) => {
+  if (typeof projectId !== 'number' || !Number.isInteger(projectId)) {
+    return null;
+  }
+
+  const { project, error } = await findAuthorizedProject(projectId, userId, 'view', 'add tasks to');
+
+  if (error) {
+    return error;
+  }
+
+  if (project.isArchived) {
+    return { status: 422, message: 'Project is archived' };
+  }
+
+  return null;
+};
+
+// An assignee must be an active user who can see the task. `null` unassigns; values that
+// are not integers are left for the task schema to reject.
+const checkAssignee = async (assigneeId: unknown, canView: (assigneeId: number) => Promise<boolean>) => {
+  if (typeof assigneeId !== 'number' || !Number.isInteger(assigneeId)) {
+    return null;
+  }
+
+  const assignee = await prisma.user.findUnique({ where: { id: assigneeId }, select: { disabledAt: true } });
+
+  if (!assignee || assignee.disabledAt) {
+    return { status: 422, message: 'Assignee not found' };
+  }
+
+  if (!(await canView(assigneeId))) {
+    return { status: 422, message: 'Assignee cannot view this task' };
+  }
+
+  return null;
+};
+
 export const getAllTasks = async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
+    const query = taskListQuerySchema.parse(req.query);
+    const { error, ...page } = await findTaskPage(req.user!.userId, query);
 
-    const tasks = await prisma.task.findMany({
-      where: { userId }
-    });
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
 
-    return res.json(tasks);
+    return res.json(page);
   } catch (error) {
     console.error('Error fetching tasks:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getOverdueTasks = async (req: Request, res: Response) => {
+  try {
+    const query = taskListQuerySchema.parse({ sortBy: 'dueAt', ...req.query });
+    const { error, ...page } = await findTaskPage(req.user!.userId, query, {
+      dueAt: { lt: new Date() },
+      status: { not: TaskStatus.DONE }
+    });
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    return res.json(page);
+  } catch (error) {
+    console.error('Error fetching overdue tasks:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getUpcomingTasks = async (req: Request, res: Response) => {
+  try {
+    const { within, ...listParams } = req.query;
+    const query = taskListQuerySchema.parse({ sortBy: 'dueAt', ...listParams });
+    const upcoming = upcomingQuerySchema.parse({ within });
+
+    const now = new Date();
+    const { error, ...page } = await findTaskPage(req.user!.userId, query, {
+      dueAt: { gte: now, lte: new Date(now.getTime() + upcoming.within) },
+      status: { not: TaskStatus.DONE }
+    });
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    return res.json(page);
+  } catch (error) {
+    console.error('Error fetching upcoming tasks:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const searchTasks = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const query = taskSearchQuerySchema.parse(req.query);
+
+    if (query.projectId) {
+      const { error } = await findAuthorizedProject(query.projectId, userId, 'view', 'view');
+
+      if (error) {
+        return res.status(error.status).json({ message: error.message });
+      }
+    }
+
+    return res.json(await searchVisibleTasks(userId, query));
+  } catch (error) {
+    console.error('Error searching tasks:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
     return res.status(500).json({ message: 'Internal server error' });
   }
 };
@@ -21,21 +202,74 @@ export const getAllTasks = async (req: Request, res: Response) => {
 export const createTask = async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
-    const { title, description, status, isArchived } = req.body;
+    const {
+      title, description, status, priority, dueAt, estimateMinutes, isArchived, projectId, resolution, assigneeId
+    } = req.body;
     
-    const taskInput: Task = { title, description, status, isArchived };
+    const taskInput: Task = {
+      title, description, status, priority, dueAt, estimateMinutes, isArchived, projectId, resolution, assigneeId
+    };
+    const { labelIds } = taskLabelsSchema.parse({ labelIds: req.body.labelIds });
+    const { recurrence } = taskRecurrenceInputSchema.parse({ recurrence: req.body.recurrence });
+    const startAt = recurrence ? recurrenceStart(dueAt) : null;
+
+    // Invalid status values are left for the task schema to reject.
+    const initialStatus = applyInitialStatus(
+      isTaskStatus(taskInput.status) ? taskInput.status : TaskStatus.TODO,
+      taskInput
+    );
+
+    const projectError = await checkProjectAssignment(taskInput.projectId, userId);
+
+    if (projectError) {
+      return res.status(projectError.status).json({ message: projectError.message });
+    }
+
+    // A new task is only visible to its owner and, in a project, the project's members.
+    const assigneeError = await checkAssignee(taskInput.assigneeId, async assigneeId => assigneeId === userId
+      || (typeof projectId === 'number' && (await getProjectRole(projectId, assigneeId)) !== null));
+
+    if (assigneeError) {
+      return res.status(assigneeError.status).json({ message: assigneeError.message });
+    }
+
+    if (labelIds) {
+      await assertUsableLabels(labelIds, userId, typeof projectId === 'number' ? projectId : null);
+    }
     
-    const savedTask = await prisma.task.create({
-      data: {
-        title: taskInput.title!,
-        description: taskInput.description,
-        status: taskInput.status,
-        isArchived: taskInput.isArchived,
-        userId
-      }
+    const savedTask = await withTransaction(async tx => {
+      const series = recurrence ? await createRecurrence(tx, recurrence, startAt!) : null;
+
+      const task = await tx.task.create({
+        data: {
+          title: taskInput.title!,
+          description: taskInput.description,
+          status: taskInput.status,
+          priority: taskInput.priority,
+          dueAt: taskInput.dueAt,
+          estimateMinutes: taskInput.estimateMinutes,
+          isArchived: taskInput.isArchived,
+          projectId: taskInput.projectId,
+          resolution: taskInput.resolution,
+          assigneeId: taskInput.assigneeId,
+          ...initialStatus,
+          userId,
+          createdById: userId,
+          recurrenceId: series?.id,
+          occurrenceAt: series?.startAt,
+          labels: labelIds && { create: labelIds.map(labelId => ({ labelId })) }
+        },
+        include: taskInclude
+      });
+
+      await enqueueTaskEvents(tx, null, task);
+      return task;
     });
+
+    await runAfterCommit(() => publishTaskEvent(null, savedTask, toTaskResponse(savedTask)));
     
-    return res.status(201).json(savedTask);
+    res.setHeader('ETag', versionETag(savedTask.version));
+    return res.status(201).json(toTaskResponse(savedTask));
   } catch (error) {
     console.error('Error creating task:', error);
     
@@ -54,35 +288,172 @@ export const createTask = async (req: Request, res: Response) => {
   }
 };
 
+export const getTask = async (req: Request, res: Response) => {
+  try {
+    const { task, error } = await findAuthorizedTask(req.params.task_id, req.user!.userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    res.setHeader('ETag', versionETag(task.version));
+
+    if (matchesIfNoneMatch(req.get('If-None-Match'), task.version)) {
+      return res.status(304).send();
+    }
+
+    const [labels, recurrence, counts] = await Promise.all([
+      prisma.taskLabel.findMany({ where: { taskId: task.id }, ...taskInclude.labels }),
+      task.recurrenceId
+        ? prisma.taskRecurrence.findUnique({ where: { id: task.recurrenceId }, ...taskInclude.recurrence })
+        : null,
+      countSubtasks([task.id])
+    ]);
+
+    return res.json({ ...toTaskResponse({ ...task, labels, recurrence }), subtaskCounts: counts.get(task.id) });
+  } catch (error) {
+    console.error('Error fetching task:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// 412 for an update made against an old version, with the current task so the client can
+// merge its changes and retry with the new ETag.
+const sendStaleTask = async (res: Response, taskId: number) => {
+  const current = await prisma.task.findUnique({ where: { id: taskId }, include: taskInclude });
+
+  if (!current || current.deletedAt) {
+    return res.status(404).json({ message: 'Task not found' });
+  }
+
+  res.setHeader('ETag', versionETag(current.version));
+  return res.status(412).json({ message: 'Task has changed since it was read', task: toTaskResponse(current) });
+};
+
 export const updateTask = async (req: Request, res: Response) => {
   try {
-    const taskId = parseInt(req.params.task_id);
     const userId = req.user!.userId;
-    const { title, description, status, isArchived } = req.body;
+    const {
+      title, description, status, priority, dueAt, estimateMinutes, isArchived, projectId, resolution, assigneeId
+    } = req.body;
     
-    const taskInput: Task = { title, description, status, isArchived };
+    const taskInput: Task = {
+      title, description, status, priority, dueAt, estimateMinutes, isArchived, projectId, resolution, assigneeId
+    };
+    const { labelIds } = taskLabelsSchema.parse({ labelIds: req.body.labelIds });
+    const { recurrence } = taskRecurrenceInputSchema.parse({ recurrence: req.body.recurrence });
     
-    const task = await prisma.task.findUnique({
-      where: { id: taskId }
-    });
+    const { task, role, error } = await findAuthorizedTask(req.params.task_id, userId, 'view', 'update');
     
-    if (!task) {
-      return res.status(404).json({ message: 'Task not found' });
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
     }
 
-    if (task.userId !== userId) {
+    const fields = [
+      ...Object.entries(taskInput).filter(([, value]) => value !== undefined).map(([field]) => field),
+      ...(labelIds !== undefined ? ['labelIds'] : []),
+      ...(recurrence !== undefined ? ['recurrence'] : [])
+    ];
+
+    if (!canUpdateTask(task, role, userId, fields)) {
       return res.status(403).json({ message: 'You are not authorized to update this task' });
     }
 
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: {
-        ...taskInput,
-        userId
+    const startAt = recurrence ? recurrenceStart(taskInput.dueAt !== undefined ? taskInput.dueAt : task.dueAt) : null;
+
+    const expectedVersions = parseIfMatch(req.get('If-Match'));
+
+    if (expectedVersions && !expectedVersions.includes(task.version)) {
+      return sendStaleTask(res, task.id);
+    }
+
+    // Moving a task between projects changes who can see it, so only its owner may do it.
+    if (taskInput.projectId !== undefined && taskInput.projectId !== task.projectId) {
+      if (role !== 'OWNER') {
+        return res.status(403).json({ message: 'You are not authorized to move this task' });
       }
-    });
+
+      const projectError = await checkProjectAssignment(taskInput.projectId, userId);
+
+      if (projectError) {
+        return res.status(projectError.status).json({ message: projectError.message });
+      }
+    }
+
+    const targetProjectId = taskInput.projectId !== undefined ? taskInput.projectId : task.projectId;
+
+    // Checked against the task as it will be after the update, in case it also moves project.
+    if (taskInput.assigneeId !== undefined && taskInput.assigneeId !== task.assigneeId) {
+      const assigneeError = await checkAssignee(taskInput.assigneeId, async assigneeId =>
+        (await getTaskRole({ ...task, projectId: typeof targetProjectId === 'number' ? targetProjectId : null }, assigneeId))
+          !== null);
+
+      if (assigneeError) {
+        return res.status(assigneeError.status).json({ message: assigneeError.message });
+      }
+    }
+
+    // Invalid status values are left for the task schema to reject.
+    const transition = isTaskStatus(taskInput.status) && taskInput.status !== task.status
+      ? applyTransition(task, taskInput.status, taskInput)
+      : {};
+
+    if (taskInput.status === TaskStatus.DONE && task.status !== TaskStatus.DONE) {
+      await assertNoOpenBlockers(task.id);
+    }
+
+    if (labelIds) {
+      await assertUsableLabels(labelIds, userId, targetProjectId);
+    }
+
+    // With If-Match, the version is part of the update's condition, so a write that lands
+    // between the read above and this update makes it fail instead of being overwritten.
+    // A recurrence change is made in the same transaction.
+    let updatedTask, removedOccurrences;
+    try {
+      ({ updatedTask, removedOccurrences } = await withTransaction(async tx => {
+        const series = recurrence !== undefined ? await changeRecurrence(tx, task, recurrence, startAt) : null;
+        // Only the labels the caller could have set are replaced; other users' personal labels stay.
+        if (labelIds) {
+          await tx.taskLabel.deleteMany({
+            where: { taskId: task.id, label: usableLabelWhere(userId, targetProjectId) }
+          });
+        }
+        const updated = await tx.task.update({
+          where: { id: task.id, version: expectedVersions ? task.version : undefined },
+          data: {
+            ...taskInput,
+            ...transition,
+            ...series?.data,
+            labels: labelIds && { create: labelIds.map(labelId => ({ labelId })) }
+          },
+          include: taskInclude
+        });
+
+        await enqueueTaskEvents(tx, task, updated);
+        return { updatedTask: updated, removedOccurrences: series?.removed ?? [] };
+      }));
+    } catch (updateError) {
+      if (expectedVersions && isStaleWrite(updateError)) {
+        return sendStaleTask(res, task.id);
+      }
+
+      throw updateError;
+    }
+
+    await runAfterCommit(
+      () => publishTaskEvent(task, updatedTask, toTaskResponse(updatedTask)),
+      () => publishRemovedOccurrences(removedOccurrences),
+      () => notifyTaskChanged(task, updatedTask, userId),
+      async () => {
+        if (updatedTask.status === TaskStatus.DONE && task.status !== TaskStatus.DONE) {
+          await createNextOccurrence(updatedTask);
+        }
+      }
+    );
     
-    return res.json(updatedTask);
+    res.setHeader('ETag', versionETag(updatedTask.version));
+    return res.json(toTaskResponse(updatedTask));
   } catch (error: any) {
     console.error('Error updating task:', error);
     
@@ -99,4 +470,182 @@ export const updateTask = async (req: Request, res: Response) => {
 
     return res.status(500).json({ message: 'Internal server error' });
   }
-};
\ No newline at end of file
+};
+
+export const deleteTask = async (req: Request, res: Response) => {
+  try {
+    const { task, error } = await findAuthorizedTask(req.params.task_id, req.user!.userId, 'manage', 'delete');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const deletedTask = await withTransaction(async tx => await tx.task.update({
+      where: { id: task.id },
+      data: { deletedAt: new Date() }
+    }));
+
+    await runAfterCommit(
+      () => publishTaskEvent(task, deletedTask, { id: deletedTask.id }),
+      () => notifyTaskChanged(task, deletedTask, req.user!.userId)
+    );
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting task:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const restoreTask = async (req: Request, res: Response) => {
+  try {
+    const { task, error } = await findAuthorizedTask(req.params.task_id, req.user!.userId, 'manage', 'restore', {
+      includeDeleted: true
+    });
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (!task.deletedAt) {
+      return res.status(409).json({ message: 'Task is not deleted' });
+    }
+
+    const restoredTask = await withTransaction(async tx => await tx.task.update({
+      where: { id: task.id },
+      data: { deletedAt: null },
+      include: taskInclude
+    }));
+
+    await runAfterCommit(
+      () => publishTaskEvent(task, restoredTask, toTaskResponse(restoredTask)),
+      () => notifyTaskChanged(task, restoredTask, req.user!.userId)
+    );
+
+    return res.json(toTaskResponse(restoredTask));
+  } catch (error) {
+    console.error('Error restoring task:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getTaskHistory = async (req: Request, res: Response) => {
+  try {
+    const { task, error } = await findAuthorizedTask(req.params.task_id, req.user!.userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { limit, cursor } = taskHistoryQuerySchema.parse(req.query);
+
+    const activities = await prisma.taskActivity.findMany({
+      where: {
+        taskId: task.id,
+        id: cursor ? { gt: cursor.id } : undefined
+      },
+      orderBy: { id: 'asc' },
+      take: limit + 1
+    });
+
+    const page = activities.slice(0, limit);
+    const nextCursor = activities.length > limit
+      ? encodeCursor({ sortBy: 'id', value: null, id: page[page.length - 1].id })
+      : null;
+
+    return res.json({ data: page, nextCursor });
+  } catch (error) {
+    console.error('Error fetching task history:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getTaskTransitions = async (req: Request, res: Response) => {
+  try {
+    const { task, error } = await findAuthorizedTask(req.params.task_id, req.user!.userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    return res.json({
+      status: task.status,
+      transitions: availableTransitions(task.status).map(({ to, requires }) => ({ to, requires }))
+    });
+  } catch (error) {
+    console.error('Error fetching task transitions:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const transitionTask = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { task, role, error } = await findAuthorizedTask(req.params.task_id, userId, 'view', 'update');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (!canUpdateTask(task, role, userId, ['status', 'resolution'])) {
+      return res.status(403).json({ message: 'You are not authorized to update this task' });
+    }
+
+    const { to, resolution } = taskTransitionSchema.parse(req.body);
+    const transition = applyTransition(task, to, { resolution });
+
+    if (to === TaskStatus.DONE) {
+      await assertNoOpenBlockers(task.id);
+    }
+
+    const updatedTask = await withTransaction(async tx => {
+      const updated = await tx.task.update({
+        where: { id: task.id },
+        data: { status: to, resolution, ...transition },
+        include: taskInclude
+      });
+
+      await enqueueTaskEvents(tx, task, updated);
+      return updated;
+    });
+
+    await runAfterCommit(
+      () => publishTaskEvent(task, updatedTask, toTaskResponse(updatedTask)),
+      () => notifyTaskChanged(task, updatedTask, userId),
+      async () => {
+        if (to === TaskStatus.DONE && task.status !== TaskStatus.DONE) {
+          await createNextOccurrence(updatedTask);
+        }
+      }
+    );
+
+    return res.json(toTaskResponse(updatedTask));
+  } catch (error) {
+    console.error('Error transitioning task:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
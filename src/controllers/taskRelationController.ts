@@ -0,0 +1,192 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { dependencyLinkSchema, subtaskLinkSchema } from '../models/Task';
+import prisma, { withTransaction } from '../services/prisma';
+import { canUpdateTask, findAuthorizedTask, getTaskRole } from '../services/taskAccess';
+import { accessibleTaskWhere } from '../services/taskQuery';
+import { loadTaskTree, wouldCreateDependencyCycle, wouldCreateParentCycle } from '../services/taskRelations';
+
+const relatedTaskSelect = { id: true, title: true, status: true } satisfies Prisma.TaskSelect;
+
+export const getTaskTree = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { task, error } = await findAuthorizedTask(req.params.task_id, userId, 'view', 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    // Related tasks the caller cannot see are left out.
+    const [tree, blockedBy, blocking] = await Promise.all([
+      loadTaskTree(task, userId),
+      prisma.task.findMany({
+        where: { blocking: { some: { blockedId: task.id } }, deletedAt: null, ...accessibleTaskWhere(userId) },
+        select: relatedTaskSelect
+      }),
+      prisma.task.findMany({
+        where: { blockedBy: { some: { blockerId: task.id } }, deletedAt: null, ...accessibleTaskWhere(userId) },
+        select: relatedTaskSelect
+      })
+    ]);
+
+    return res.json({ ...tree, blockedBy, blocking });
+  } catch (error) {
+    console.error('Error fetching task tree:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const linkSubtask = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { task: parent, error } = await findAuthorizedTask(req.params.task_id, userId, 'edit', 'update');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { taskId } = subtaskLinkSchema.parse(req.body);
+    const { task: child, error: childError } = await findAuthorizedTask(String(taskId), userId, 'edit', 'update');
+
+    if (childError) {
+      return res.status(childError.status).json({ message: childError.message });
+    }
+
+    if (await wouldCreateParentCycle(child.id, parent.id)) {
+      return res.status(422).json({ message: 'Linking these tasks would create a cycle' });
+    }
+
+    const updatedChild = await withTransaction(async tx => await tx.task.update({
+      where: { id: child.id },
+      data: { parentId: parent.id }
+    }));
+
+    return res.json(updatedChild);
+  } catch (error) {
+    console.error('Error linking subtask:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const unlinkSubtask = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { task: parent, error } = await findAuthorizedTask(req.params.task_id, userId, 'edit', 'update');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const subtaskId = parseInt(req.params.subtask_id);
+    const child = Number.isNaN(subtaskId) ? null : await prisma.task.findUnique({ where: { id: subtaskId } });
+
+    if (!child || child.parentId !== parent.id) {
+      return res.status(404).json({ message: 'Subtask not found' });
+    }
+
+    // Detaching changes the subtask itself, so it takes the same rights as linking it.
+    if (!canUpdateTask(child, await getTaskRole(child, userId), userId, ['parentId'])) {
+      return res.status(403).json({ message: 'You are not authorized to update this task' });
+    }
+
+    await withTransaction(async tx => await tx.task.update({
+      where: { id: child.id },
+      data: { parentId: null }
+    }));
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error unlinking subtask:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const addDependency = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { task, error } = await findAuthorizedTask(req.params.task_id, userId, 'edit', 'update');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { blockerId } = dependencyLinkSchema.parse(req.body);
+    const { task: blocker, error: blockerError } = await findAuthorizedTask(String(blockerId), userId, 'view', 'view');
+
+    if (blockerError) {
+      return res.status(blockerError.status).json({ message: blockerError.message });
+    }
+
+    const existing = await prisma.taskDependency.findUnique({
+      where: { blockerId_blockedId: { blockerId: blocker.id, blockedId: task.id } }
+    });
+
+    if (existing) {
+      return res.status(409).json({ message: 'Dependency already exists' });
+    }
+
+    if (await wouldCreateDependencyCycle(task.id, blocker.id)) {
+      return res.status(422).json({ message: 'Adding this dependency would create a cycle' });
+    }
+
+    const dependency = await prisma.taskDependency.create({
+      data: { blockerId: blocker.id, blockedId: task.id }
+    });
+
+    return res.status(201).json(dependency);
+  } catch (error) {
+    console.error('Error adding dependency:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const removeDependency = async (req: Request, res: Response) => {
+  try {
+    const { task, error } = await findAuthorizedTask(req.params.task_id, req.user!.userId, 'edit', 'update');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const blockerId = parseInt(req.params.blocker_id);
+
+    const { count } = await prisma.taskDependency.deleteMany({
+      where: { blockedId: task.id, blockerId: Number.isNaN(blockerId) ? -1 : blockerId }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ message: 'Dependency not found' });
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error removing dependency:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { isCredentialActive } from '../middleware/auth';
+import { getTaskEventBus, TaskEvent } from '../services/taskEvents';
+
+export const STREAM_HEARTBEAT_MS = parseInt(process.env.STREAM_HEARTBEAT_MS || '25000');
+
+const formatEvent = (event: TaskEvent) =>
+  `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.task)}\n\n`;
+
+// Server-Sent Events stream of changes to the tasks the caller can see. Clients that
+// reconnect with `Last-Event-ID` get the events they missed; when those are no longer
+// available they receive a `reset` event and should reload their tasks.
+export const streamTasks = async (req: Request, res: Response) => {
+  const { userId } = req.user!;
+  const bus = getTaskEventBus();
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  const send = (event: TaskEvent) => {
+    if (event.userIds.includes(userId)) {
+      res.write(formatEvent(event));
+    }
+  };
+
+  // Live events are held back until the replay is written, so nothing is lost or sent twice.
+  let pending: TaskEvent[] | null = [];
+  const unsubscribe = bus.subscribe(event => (pending ? pending.push(event) : send(event)));
+
+  // Sessions revoked by logout, and revoked access tokens, end the stream at the next heartbeat.
+  const heartbeat = setInterval(() => {
+    isCredentialActive(req.user!)
+      .then(active => (active ? res.write(': heartbeat\n\n') : res.end()))
+      .catch(error => console.error('Error checking stream session:', error));
+  }, STREAM_HEARTBEAT_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  try {
+    const lastEventId = req.get('Last-Event-ID');
+    const missed = lastEventId ? await bus.since(lastEventId) : [];
+
+    if (missed === null) {
+      res.write('event: reset\ndata: {}\n\n');
+    }
+
+    const replayed = new Set((missed ?? []).map(event => event.id));
+    (missed ?? []).forEach(send);
+
+    const live: TaskEvent[] = pending;
+    pending = null;
+    live.filter(event => !replayed.has(event.id)).forEach(send);
+  } catch (error) {
+    console.error('Error replaying task events:', error);
+    res.end();
+  }
+};
@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { taskExportQuerySchema, taskImportQuerySchema, taskListQuerySchema } from '../models/Task';
+import { formatCsvRow } from '../services/csv';
+import { findAuthorizedProject } from '../services/projectAccess';
+import { toTaskResponse } from '../services/taskQuery';
+import {
+  createImportedTasks,
+  findTasksInBatches,
+  parseImportRows,
+  TASK_EXPORT_COLUMNS,
+  toCsvValues,
+  validateImportRows
+} from '../services/taskTransfer';
+
+// Resolves once the chunk is handed to the socket, waiting for it to drain when the client
+// reads slower than we write.
+const write = (res: Response, chunk: string) => new Promise<void>(resolve => {
+  if (res.write(chunk)) {
+    return resolve();
+  }
+
+  const done = () => {
+    res.off('drain', done);
+    res.off('close', done);
+    resolve();
+  };
+
+  res.once('drain', done);
+  res.once('close', done);
+});
+
+export const exportTasks = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { format: formatParam, ...listParams } = req.query;
+    const { format } = taskExportQuerySchema.parse({ format: formatParam });
+    const query = taskListQuerySchema.parse(listParams);
+
+    if (query.projectId) {
+      const { error } = await findAuthorizedProject(query.projectId, userId, 'view', 'view');
+
+      if (error) {
+        return res.status(error.status).json({ message: error.message });
+      }
+    }
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="tasks.${format}"`);
+
+    await write(res, format === 'csv' ? formatCsvRow([...TASK_EXPORT_COLUMNS]) : '[');
+
+    let count = 0;
+    const batches = findTasksInBatches(userId, query, { includeArchived: listParams.isArchived === undefined });
+
+    for await (const batch of batches) {
+      if (res.destroyed) {
+        break;
+      }
+
+      const chunk = batch.map(toTaskResponse).map(task => (format === 'csv'
+        ? formatCsvRow(toCsvValues(task))
+        : `${count++ > 0 ? ',' : ''}${JSON.stringify(task)}`));
+
+      await write(res, chunk.join(''));
+    }
+
+    return res.end(format === 'csv' ? undefined : ']');
+  } catch (error) {
+    console.error('Error exporting tasks:', error);
+
+    // Part of the file has already been sent; cut the response so the client sees a
+    // truncated download rather than a file that looks complete.
+    if (res.headersSent) {
+      return res.destroy();
+    }
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const importTasks = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const format = req.is('text/csv') ? 'csv' : req.is('application/json') ? 'json' : null;
+
+    if (!format) {
+      return res.status(415).json({ message: 'Send tasks as text/csv or application/json' });
+    }
+
+    const { dryRun } = taskImportQuerySchema.parse(req.query);
+    const rows = parseImportRows(req.body, format);
+    const { valid, errors } = await validateImportRows(userId, rows);
+
+    const report = { dryRun, total: rows.length, valid: valid.length, failed: errors.length, errors };
+
+    if (dryRun) {
+      return res.json({ ...report, preview: valid.map(({ row, data, labelIds }) => ({ row, task: { ...data, labelIds } })) });
+    }
+
+    if (errors.length > 0) {
+      return res.status(422).json({ message: 'No tasks were imported because some rows are invalid', ...report });
+    }
+
+    const tasks = await createImportedTasks(valid);
+
+    return res.status(201).json({ ...report, imported: tasks.length, tasks });
+  } catch (error) {
+    console.error('Error importing tasks:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,205 @@
+import { Request, Response } from 'express';
+import { Prisma, Webhook } from '@prisma/client';
+import { z } from 'zod';
+import { webhookDeliveryQuerySchema } from '../models/Webhook';
+import { encodeCursor } from '../services/pagination';
+import prisma from '../services/prisma';
+import { generateWebhookSecret } from '../services/webhooks';
+
+type WebhookLookup =
+  | { webhook: Webhook; error?: undefined }
+  | { webhook?: undefined; error: { status: number; message: string } };
+
+// The signing secret is only returned once, when the webhook is created.
+const toWebhookResponse = ({ secret, ...webhook }: Webhook) => webhook;
+
+const deliverySelect = {
+  id: true,
+  event: true,
+  payload: true,
+  status: true,
+  attemptCount: true,
+  nextAttemptAt: true,
+  deliveredAt: true,
+  createdAt: true,
+  attempts: {
+    select: { id: true, responseCode: true, error: true, durationMs: true, createdAt: true },
+    orderBy: { id: 'asc' }
+  }
+} satisfies Prisma.WebhookDeliverySelect;
+
+const findOwnWebhook = async (webhookIdParam: string, userId: number, action: string): Promise<WebhookLookup> => {
+  const webhookId = parseInt(webhookIdParam);
+
+  const webhook = Number.isNaN(webhookId) ? null : await prisma.webhook.findUnique({
+    where: { id: webhookId }
+  });
+
+  if (!webhook) {
+    return { error: { status: 404, message: 'Webhook not found' } };
+  }
+
+  if (webhook.userId !== userId) {
+    return { error: { status: 403, message: `You are not authorized to ${action} this webhook` } };
+  }
+
+  return { webhook };
+};
+
+export const getAllWebhooks = async (req: Request, res: Response) => {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { userId: req.user!.userId },
+      orderBy: { id: 'asc' }
+    });
+
+    return res.json(webhooks.map(toWebhookResponse));
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const createWebhook = async (req: Request, res: Response) => {
+  try {
+    const { url, events, isActive } = req.body;
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        url,
+        events,
+        isActive,
+        secret: generateWebhookSecret(),
+        userId: req.user!.userId
+      }
+    });
+
+    return res.status(201).json(webhook);
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const getWebhook = async (req: Request, res: Response) => {
+  try {
+    const { webhook, error } = await findOwnWebhook(req.params.webhook_id, req.user!.userId, 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    return res.json(toWebhookResponse(webhook));
+  } catch (error) {
+    console.error('Error fetching webhook:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const updateWebhook = async (req: Request, res: Response) => {
+  try {
+    const { webhook, error } = await findOwnWebhook(req.params.webhook_id, req.user!.userId, 'update');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { url, events, isActive } = req.body;
+
+    const updatedWebhook = await prisma.webhook.update({
+      where: { id: webhook.id },
+      data: { url, events, isActive }
+    });
+
+    return res.json(toWebhookResponse(updatedWebhook));
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const deleteWebhook = async (req: Request, res: Response) => {
+  try {
+    const { webhook, error } = await findOwnWebhook(req.params.webhook_id, req.user!.userId, 'delete');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    await prisma.webhook.delete({ where: { id: webhook.id } });
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Deliveries newest first, each with its attempt log.
+export const getWebhookDeliveries = async (req: Request, res: Response) => {
+  try {
+    const { webhook, error } = await findOwnWebhook(req.params.webhook_id, req.user!.userId, 'view');
+
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { limit, cursor } = webhookDeliveryQuerySchema.parse(req.query);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        webhookId: webhook.id,
+        id: cursor ? { lt: cursor.id } : undefined
+      },
+      select: deliverySelect,
+      orderBy: { id: 'desc' },
+      take: limit + 1
+    });
+
+    const page = deliveries.slice(0, limit);
+    const nextCursor = deliveries.length > limit
+      ? encodeCursor({ sortBy: 'id', value: null, id: page[page.length - 1].id })
+      : null;
+
+    return res.json({ data: page, nextCursor });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(422).json({
+        message: 'Validation failed',
+        errors: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        }))
+      });
+    }
+
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,14 @@
+import prisma from '../services/prisma';
+
+// Deletes stored responses whose idempotency keys have expired.
+export const purgeExpiredIdempotencyKeys = async (now: Date = new Date()) => {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lte: now } }
+  });
+
+  if (count > 0) {
+    console.log(`Purged ${count} expired idempotency key(s)`);
+  }
+
+  return count;
+};
@@ -0,0 +1,45 @@
+import { purgeExpiredIdempotencyKeys } from './idempotencyKeyPurge';
+import { remindTasksDueSoon, sendDigests } from './notifications';
+import { purgeDeletedTasks } from './taskPurge';
+import { createUpcomingOccurrences } from './taskRecurrence';
+import { processWebhookDeliveries } from './webhookDelivery';
+
+const timers: NodeJS.Timeout[] = [];
+
+const schedule = (name: string, intervalMs: number, run: () => Promise<unknown>) => {
+  const timer = setInterval(() => {
+    run().catch(error => console.error(`Job ${name} failed:`, error));
+  }, intervalMs);
+
+  timer.unref();
+  timers.push(timer);
+};
+
+export const startJobs = () => {
+  schedule('task-purge', parseInt(process.env.TASK_PURGE_INTERVAL_MS || String(60 * 60 * 1000)), () => purgeDeletedTasks());
+  schedule(
+    'idempotency-key-purge',
+    parseInt(process.env.IDEMPOTENCY_PURGE_INTERVAL_MS || String(60 * 60 * 1000)),
+    () => purgeExpiredIdempotencyKeys()
+  );
+  schedule(
+    'task-recurrence',
+    parseInt(process.env.TASK_RECURRENCE_INTERVAL_MS || String(15 * 60 * 1000)),
+    () => createUpcomingOccurrences()
+  );
+  schedule(
+    'due-soon-reminders',
+    parseInt(process.env.DUE_REMINDER_INTERVAL_MS || String(15 * 60 * 1000)),
+    () => remindTasksDueSoon()
+  );
+  schedule(
+    'notification-digest',
+    parseInt(process.env.NOTIFICATION_DIGEST_INTERVAL_MS || String(60 * 60 * 1000)),
+    () => sendDigests()
+  );
+  schedule('webhook-delivery', parseInt(process.env.WEBHOOK_DELIVERY_INTERVAL_MS || '5000'), () => processWebhookDeliveries());
+};
+
+export const stopJobs = () => {
+  timers.splice(0).forEach(timer => clearInterval(timer));
+};
@@ -0,0 +1,23 @@
+import { sendNotificationDigests } from '../services/notifications';
+import { notifyTasksDueSoon } from '../services/taskNotifications';
+
+export const remindTasksDueSoon = async (now: Date = new Date()) => {
+  const count = await notifyTasksDueSoon(now);
+
+  if (count > 0) {
+    console.log(`Sent ${count} due date reminder(s)`);
+  }
+
+  return count;
+};
+
+// Runs more often than once a day so digests go out close to a day after the previous one.
+export const sendDigests = async (now: Date = new Date()) => {
+  const count = await sendNotificationDigests(now);
+
+  if (count > 0) {
+    console.log(`Sent ${count} notification digest(s)`);
+  }
+
+  return count;
+};
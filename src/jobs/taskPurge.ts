@@ -0,0 +1,18 @@
+import prisma from '../services/prisma';
+
+export const TASK_RETENTION_DAYS = parseInt(process.env.TASK_RETENTION_DAYS || '30');
+
+// Hard-deletes tasks that have been soft-deleted for longer than the retention window.
+export const purgeDeletedTasks = async (now: Date = new Date()) => {
+  const cutoff = new Date(now.getTime() - TASK_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const { count } = await prisma.task.deleteMany({
+    where: { deletedAt: { lt: cutoff } }
+  });
+
+  if (count > 0) {
+    console.log(`Purged ${count} deleted task(s)`);
+  }
+
+  return count;
+};
@@ -0,0 +1,12 @@
+import { materializeRecurrences } from '../services/taskRecurrence';
+
+// Creates the occurrences of repeating tasks that fall within the look-ahead horizon.
+export const createUpcomingOccurrences = async (now: Date = new Date()) => {
+  const count = await materializeRecurrences(now);
+
+  if (count > 0) {
+    console.log(`Created ${count} upcoming occurrence(s) of repeating tasks`);
+  }
+
+  return count;
+};
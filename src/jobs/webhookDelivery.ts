@@ -0,0 +1,134 @@
+import http from 'http';
+import https from 'https';
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus } from '@prisma/client';
+import prisma from '../services/prisma';
+import { webhookLookup, webhookTargetError } from '../services/webhookTargets';
+import { signWebhookPayload } from '../services/webhooks';
+
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+export const WEBHOOK_RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || String(30 * 1000));
+export const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+
+const BATCH_SIZE = 50;
+
+// Exponential backoff: 30s, 1m, 2m, 4m, ... after the first, second, third failure.
+export const retryDelayMs = (attemptCount: number) => WEBHOOK_RETRY_BASE_MS * 2 ** (attemptCount - 1);
+
+// Posts with Node's http client rather than fetch so the connection goes through
+// `webhookLookup`. Redirects are not followed.
+const post = (url: URL, headers: Record<string, string>, body: string) => new Promise<number>((resolve, reject) => {
+  const request = (url.protocol === 'https:' ? https : http).request(url, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+    lookup: webhookLookup,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  }, response => {
+    response.resume();
+    resolve(response.statusCode!);
+  });
+
+  request.on('error', reject);
+  request.end(body);
+});
+
+const send = async (delivery: WebhookDelivery, webhook: Webhook) => {
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  // The URL was checked when it was saved; this catches addresses blocked since.
+  const targetError = webhookTargetError(webhook.url);
+  if (targetError) {
+    return { ok: false, responseCode: null, error: targetError };
+  }
+
+  try {
+    const responseCode = await post(new URL(webhook.url), {
+      'Content-Type': 'application/json',
+      'User-Agent': 'task-api-webhooks',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': String(delivery.id),
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': signWebhookPayload(webhook.secret, timestamp, body)
+    }, body);
+    const ok = responseCode >= 200 && responseCode < 300;
+
+    return {
+      ok,
+      responseCode,
+      error: ok ? null : `Receiver responded with ${responseCode}`
+    };
+  } catch (error) {
+    return { ok: false, responseCode: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Sends one delivery and records the attempt. Failures are retried with backoff until
+// WEBHOOK_MAX_ATTEMPTS is reached, after which the delivery is marked FAILED.
+export const attemptDelivery = async (delivery: WebhookDelivery & { webhook: Webhook }, now: Date = new Date()) => {
+  const startedAt = Date.now();
+  const result = await send(delivery, delivery.webhook);
+  const attemptCount = delivery.attemptCount + 1;
+
+  const status = result.ok
+    ? WebhookDeliveryStatus.SUCCEEDED
+    : attemptCount >= WEBHOOK_MAX_ATTEMPTS ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING;
+
+  await prisma.$transaction([
+    prisma.webhookDeliveryAttempt.create({
+      data: {
+        deliveryId: delivery.id,
+        responseCode: result.responseCode,
+        error: result.error,
+        durationMs: Date.now() - startedAt
+      }
+    }),
+    prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        attemptCount,
+        deliveredAt: result.ok ? new Date() : null,
+        nextAttemptAt: status === WebhookDeliveryStatus.PENDING
+          ? new Date(now.getTime() + retryDelayMs(attemptCount))
+          : undefined
+      }
+    })
+  ]);
+
+  return status;
+};
+
+// Sends deliveries that are due. Deliveries of disabled webhooks wait until they are
+// enabled again.
+export const processWebhookDeliveries = async (now: Date = new Date()) => {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: { lte: now },
+      webhook: { isActive: true }
+    },
+    include: { webhook: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let sent = 0;
+
+  for (const delivery of due) {
+    // Claim the delivery by pushing its next attempt past the send timeout, so an
+    // overlapping run does not send it a second time.
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: WebhookDeliveryStatus.PENDING, nextAttemptAt: delivery.nextAttemptAt },
+      data: { nextAttemptAt: new Date(now.getTime() + 2 * WEBHOOK_TIMEOUT_MS) }
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    await attemptDelivery(delivery, now);
+    sent++;
+  }
+
+  return sent;
+};
@@ -1,17 +1,73 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { UserRole } from '@prisma/client';
+import { grantsScope, TokenScope } from '../models/PersonalAccessToken';
+import {
+  findActivePersonalAccessToken,
+  isPersonalAccessToken,
+  isPersonalAccessTokenActive,
+  recordPersonalAccessTokenUse
+} from '../services/personalAccessTokens';
+import { runWithActor } from '../services/requestContext';
+import { AccessTokenPayload, JWT_SECRET, findActiveUserRole, isSessionActive } from '../services/tokens';
 
 declare global {
   namespace Express {
     interface Request {
+      // Requests made with a JWT carry `sessionId`; requests made with a personal access
+      // token carry `accessTokenId` and the token's scopes instead.
       user?: {
         userId: number;
+        role: UserRole;
+        sessionId?: string;
+        accessTokenId?: number;
+        scopes?: string[];
       };
     }
   }
 }
 
-export const authenticateJWT = (req: Request, res: Response, next: NextFunction) => {
+// Declares the scope a personal access token needs for the route. Mount it in front of
+// `authenticateJWT`; routes that declare no scope only accept JWTs.
+export const requireScope = (scope: TokenScope) => (req: Request, res: Response, next: NextFunction) => {
+  res.locals.requiredScope = scope;
+  next();
+};
+
+const authenticateAccessToken = async (token: string, req: Request, res: Response, next: NextFunction) => {
+  const requiredScope: TokenScope | undefined = res.locals.requiredScope;
+
+  try {
+    const accessToken = await findActivePersonalAccessToken(token);
+
+    if (!accessToken) {
+      return res.status(403).json({ message: 'Invalid or expired token' });
+    }
+
+    if (!requiredScope) {
+      return res.status(403).json({ message: 'Personal access tokens cannot be used for this endpoint' });
+    }
+
+    if (!grantsScope(accessToken.scopes, requiredScope)) {
+      return res.status(403).json({ message: `This token does not have the ${requiredScope} scope` });
+    }
+
+    const role = await findActiveUserRole(accessToken.userId);
+
+    if (!role) {
+      return res.status(403).json({ message: 'Account is disabled' });
+    }
+
+    await recordPersonalAccessTokenUse(accessToken);
+    req.user = { userId: accessToken.userId, role, accessTokenId: accessToken.id, scopes: accessToken.scopes };
+  } catch (error) {
+    return next(error);
+  }
+
+  runWithActor(req.user.userId, () => next());
+};
+
+export const authenticateJWT = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
   
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -22,13 +78,82 @@ export const authenticateJWT = (req: Request, res: Response, next: NextFunction)
   }
   
   const token = authHeader.split(' ')[1];
+
+  if (isPersonalAccessToken(token)) {
+    return authenticateAccessToken(token, req, res, next);
+  }
   
+  let decoded: AccessTokenPayload;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as { userId: number };
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
   } catch (error) {
     console.error('Error verifying token:', error);
     return res.status(403).json({ message: 'Invalid or expired token' });
   }
+
+  let role: UserRole | null;
+  try {
+    if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId))) {
+      return res.status(403).json({ message: 'Invalid or expired token' });
+    }
+
+    role = await findActiveUserRole(decoded.userId);
+
+    if (!role) {
+      return res.status(403).json({ message: 'Account is disabled' });
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  req.user = { userId: decoded.userId, role, sessionId: decoded.sessionId };
+  runWithActor(decoded.userId, () => next());
+};
+
+// Mount after `authenticateJWT` on routes reserved for a role.
+export const requireRole = (role: UserRole) => (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.role !== role) {
+    return res.status(403).json({ message: 'You are not authorized to access this resource' });
+  }
+
+  next();
+};
+
+// Whether the session or personal access token behind the request, and its account, are
+// still valid, for long-lived responses that outlast the check made when they started.
+export const isCredentialActive = async (user: NonNullable<Request['user']>) => {
+  const active = user.accessTokenId !== undefined
+    ? await isPersonalAccessTokenActive(user.accessTokenId)
+    : await isSessionActive(user.sessionId!);
+
+  return active && (await findActiveUserRole(user.userId)) !== null;
+};
+
+// `EventSource` cannot send an Authorization header, so streaming routes also accept the
+// access token as `?access_token=`. Only mount this in front of `authenticateJWT` on routes
+// that need it; query strings end up in logs.
+export const allowQueryToken = (req: Request, res: Response, next: NextFunction) => {
+  const { access_token: accessToken } = req.query;
+
+  if (!req.headers.authorization && typeof accessToken === 'string') {
+    req.headers.authorization = `Bearer ${accessToken}`;
+  }
+
+  next();
+};
+
+// Reads `Authorization: Basic base64(email:password)`. Passwords may contain colons.
+export const parseBasicAuth = (header: string | undefined) => {
+  if (!header || !header.startsWith('Basic ')) {
+    return null;
+  }
+
+  const credentials = Buffer.from(header.split(' ')[1] ?? '', 'base64').toString('utf-8');
+  const separator = credentials.indexOf(':');
+
+  if (separator === -1) {
+    return null;
+  }
+
+  return { email: credentials.slice(0, separator), password: credentials.slice(separator + 1) };
 };
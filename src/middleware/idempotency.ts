@@ -0,0 +1,91 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  claimIdempotencyKey,
+  releaseIdempotencyKey,
+  requestFingerprint,
+  saveIdempotentResponse
+} from '../services/idempotency';
+import { CommitTracker, trackCommits } from '../services/requestContext';
+
+const MAX_KEY_LENGTH = 255;
+
+// Headers replayed along with the stored body.
+const STORED_HEADERS = ['content-type', 'etag', 'location'];
+
+const storedHeaders = (res: Response) => Object.fromEntries(
+  STORED_HEADERS
+    .map(name => [name, res.getHeader(name)])
+    .filter((entry): entry is [string, string | number] => typeof entry[1] === 'string' || typeof entry[1] === 'number')
+    .map(([name, value]) => [name, String(value)])
+);
+
+// Makes a mutating route safe to retry. A request sent with an `Idempotency-Key` header runs
+// once; retries with the same key get the first response back, with `Idempotent-Replayed:
+// true`. Mount after `authenticateJWT` (keys are per user) and after any body parser, as the
+// last middleware before the handler. Requests without the header are not affected.
+export const idempotent = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get('Idempotency-Key');
+
+  if (key === undefined) {
+    return next();
+  }
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    return res.status(422).json({ message: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters` });
+  }
+
+  let claim;
+  try {
+    claim = await claimIdempotencyKey(req.user!.userId, key, requestFingerprint(req.method, req.originalUrl, req.body));
+  } catch (error) {
+    return next(error);
+  }
+
+  switch (claim.status) {
+    case 'mismatch':
+      return res.status(422).json({ message: 'Idempotency-Key was already used for a different request' });
+    case 'inProgress':
+      return res.status(409).json({ message: 'A request with this Idempotency-Key is still in progress' });
+    case 'replay': {
+      const { record } = claim;
+      Object.entries((record.responseHeaders ?? {}) as Record<string, string>)
+        .forEach(([name, value]) => res.setHeader(name, value));
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(record.responseStatus!).send(record.responseBody ?? undefined);
+    }
+  }
+
+  // The response is stored before it is sent, so a retry arriving after the client got it
+  // is replayed rather than told the request is still in progress. Server errors release
+  // the key instead, so the request can be tried again, unless the handler had already
+  // committed a write: running it again would make the change twice, so that error is
+  // stored and replayed like any other response.
+  const send = res.send.bind(res);
+  const claimedId = claim.id;
+  const commits: CommitTracker = { committed: false };
+
+  res.send = (body?: unknown) => {
+    // `res.send(object)` serializes through `res.json`, which calls back in with a string.
+    if (typeof body === 'object' && body !== null && !Buffer.isBuffer(body)) {
+      return send(body);
+    }
+
+    res.send = send;
+
+    const stored = res.statusCode >= 500 && !commits.committed
+      ? releaseIdempotencyKey(claimedId)
+      : saveIdempotentResponse(claimedId, {
+        status: res.statusCode,
+        headers: storedHeaders(res),
+        body: body === undefined ? null : String(body)
+      });
+
+    stored
+      .catch(error => console.error('Error storing idempotent response:', error))
+      .finally(() => send(body));
+
+    return res;
+  };
+
+  trackCommits(commits, () => next());
+};
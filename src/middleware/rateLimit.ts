@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { consumeRateLimit, parseRateLimit, RateLimit } from '../services/rateLimit';
+import { parseBasicAuth } from './auth';
+
+// Per-route limits as `<requests>/<window>`; see `parseRateLimit`.
+export const AUTH_RATE_LIMITS = {
+  tokenPerIp: parseRateLimit(process.env.RATE_LIMIT_TOKEN_PER_IP || '30/15m'),
+  tokenPerAccount: parseRateLimit(process.env.RATE_LIMIT_TOKEN_PER_ACCOUNT || '10/15m'),
+  registerPerIp: parseRateLimit(process.env.RATE_LIMIT_REGISTER_PER_IP || '10/1h'),
+  refreshPerIp: parseRateLimit(process.env.RATE_LIMIT_REFRESH_PER_IP || '60/1m'),
+  passwordForgotPerIp: parseRateLimit(process.env.RATE_LIMIT_PASSWORD_FORGOT_PER_IP || '10/1h'),
+  passwordForgotPerAccount: parseRateLimit(process.env.RATE_LIMIT_PASSWORD_FORGOT_PER_ACCOUNT || '3/1h'),
+  passwordResetPerIp: parseRateLimit(process.env.RATE_LIMIT_PASSWORD_RESET_PER_IP || '30/15m')
+};
+
+type KeyExtractor = (req: Request) => string | null | undefined;
+
+// Behind a proxy, `req.ip` is only the client's address when `trust proxy` is configured.
+export const byIp: KeyExtractor = req => req.ip;
+
+// Requests without an email pass through; the handler rejects them anyway.
+export const byBasicAuthEmail: KeyExtractor = req => parseBasicAuth(req.headers.authorization)?.email.toLowerCase();
+
+export const byBodyEmail: KeyExtractor = req =>
+  (typeof req.body?.email === 'string' ? req.body.email.toLowerCase() : undefined);
+
+const secondsUntil = (time: number) => Math.max(Math.ceil((time - Date.now()) / 1000), 0);
+
+// Counts each request against `limit` under `name` and the extracted key, answering 429 with
+// `Retry-After` once the limit is reached. When several limiters run on a route, the
+// `RateLimit-*` headers describe the one closest to its limit.
+export const rateLimit = (name: string, limit: RateLimit, keyFor: KeyExtractor = byIp) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const key = keyFor(req);
+
+    if (!key) {
+      return next();
+    }
+
+    try {
+      const result = await consumeRateLimit(`${name}:${key}`, limit);
+      const remaining = res.getHeader('RateLimit-Remaining');
+
+      if (remaining === undefined || result.remaining < Number(remaining)) {
+        res.setHeader('RateLimit-Limit', result.limit);
+        res.setHeader('RateLimit-Remaining', result.remaining);
+        res.setHeader('RateLimit-Reset', secondsUntil(result.resetAt));
+      }
+
+      if (!result.allowed) {
+        res.setHeader('Retry-After', secondsUntil(result.resetAt));
+        return res.status(429).json({ message: 'Too many requests, please try again later' });
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    next();
+  };
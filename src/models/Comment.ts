@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { cursorSchema, limitSchema } from '../services/pagination';
+
+const commentSchema = z.object({
+  body: z.string()
+    .trim()
+    .min(1, 'Body is required')
+    .max(5000, 'Body must be 5000 characters or less'),
+  taskId: z.number().int(),
+  authorId: z.number().int()
+});
+
+const commentUpdateSchema = commentSchema.pick({ body: true }).extend({
+  editedAt: z.date().optional()
+});
+
+export const commentListQuerySchema = z.object({
+  limit: limitSchema,
+  cursor: cursorSchema.optional()
+});
+
+export const CommentValidation = Prisma.defineExtension({
+  query: {
+    comment: {
+      create({ args, query }) {
+        const { mentions, ...data } = args.data;
+        args.data = { ...commentSchema.parse(data), mentions };
+        return query(args);
+      },
+      update({ args, query }) {
+        const { mentions, ...data } = args.data;
+        args.data = { ...commentUpdateSchema.parse(data), mentions };
+        return query(args);
+      }
+    }
+  }
+});
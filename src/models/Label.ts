@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+const colorSchema = z.string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value such as #1f6feb')
+  .transform(val => val.toLowerCase());
+
+const labelSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be 50 characters or less'),
+  color: colorSchema.optional().default('#808080'),
+  userId: z.number().int().nullable().optional(),
+  projectId: z.number().int().nullable().optional()
+});
+
+const labelUpdateSchema = labelSchema.pick({ name: true }).extend({
+  color: colorSchema
+}).partial();
+
+export const taskLabelsSchema = z.object({
+  labelIds: z.array(z.number().int().positive())
+    .max(50, 'A task can have at most 50 labels')
+    .transform(ids => [...new Set(ids)])
+    .optional()
+});
+
+export const labelListQuerySchema = z.object({
+  projectId: z.coerce.number().int().positive().optional()
+});
+
+export const LabelValidation = Prisma.defineExtension({
+  query: {
+    label: {
+      create({ args, query }) {
+        args.data = labelSchema.parse(args.data);
+        return query(args);
+      },
+      update({ args, query }) {
+        args.data = labelUpdateSchema.parse(args.data);
+        return query(args);
+      }
+    }
+  }
+});
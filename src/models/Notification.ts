@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { NotificationChannel, NotificationType } from '@prisma/client';
+import { cursorSchema, limitSchema } from '../services/pagination';
+
+export const NOTIFICATION_TYPES = Object.values(NotificationType);
+export const NOTIFICATION_CHANNELS = Object.values(NotificationChannel);
+
+export type NotificationChannels = Record<NotificationType, NotificationChannel[]>;
+
+// Used for every type a user has not configured. Updates by others are frequent, so they
+// stay in the inbox unless asked for.
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannels = {
+  TASK_SHARED: [NotificationChannel.IN_APP, NotificationChannel.EMAIL],
+  TASK_MENTIONED: [NotificationChannel.IN_APP, NotificationChannel.EMAIL],
+  TASK_DUE_SOON: [NotificationChannel.IN_APP, NotificationChannel.EMAIL],
+  TASK_UPDATED: [NotificationChannel.IN_APP],
+  TASK_ASSIGNED: [NotificationChannel.IN_APP, NotificationChannel.EMAIL]
+};
+
+const channelListSchema = z.array(z.enum(NotificationChannel)).transform(channels => [...new Set(channels)]);
+
+// Stored per user; an empty list turns a type off.
+export const notificationChannelsSchema = z.partialRecord(z.enum(NotificationType), channelListSchema);
+
+export const notificationPreferencesSchema = z.object({
+  channels: notificationChannelsSchema.optional(),
+  emailDigest: z.boolean().optional()
+});
+
+export const notificationListQuerySchema = z.object({
+  unread: z.stringbool().optional().default(false),
+  limit: limitSchema,
+  cursor: cursorSchema.optional()
+});
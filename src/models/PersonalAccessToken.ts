@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+export const TOKEN_SCOPES = ['tasks:read', 'tasks:write'] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+// A write scope also grants the matching read scope.
+const IMPLIED_SCOPES: Partial<Record<TokenScope, TokenScope[]>> = {
+  'tasks:write': ['tasks:read']
+};
+
+export const grantsScope = (scopes: readonly string[], scope: TokenScope) =>
+  scopes.some(granted => granted === scope || IMPLIED_SCOPES[granted as TokenScope]?.includes(scope));
+
+const personalAccessTokenSchema = z.object({
+  name: z.string({ error: 'Name is required' })
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be 100 characters or less'),
+  scopes: z.array(z.enum(TOKEN_SCOPES), { error: 'Scopes are required' })
+    .min(1, 'Grant at least one scope')
+    .transform(scopes => [...new Set(scopes)]),
+  expiresAt: z.union([z.date(), z.iso.datetime({ offset: true })])
+    .transform(val => new Date(val))
+    .refine(date => date > new Date(), 'Expiry must be in the future')
+    .nullable()
+    .optional(),
+  tokenHash: z.string().min(1),
+  tokenPrefix: z.string().min(1),
+  userId: z.number().int()
+});
+
+export const PersonalAccessTokenValidation = Prisma.defineExtension({
+  query: {
+    personalAccessToken: {
+      create({ args, query }) {
+        args.data = personalAccessTokenSchema.parse(args.data);
+        return query(args);
+      }
+    }
+  }
+});
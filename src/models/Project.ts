@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { Prisma, ProjectRole } from '@prisma/client';
+
+const projectSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(255, 'Name must be 255 characters or less'),
+  isArchived: z.boolean().optional().default(false)
+});
+
+const projectUpdateSchema = projectSchema.extend({
+  isArchived: z.boolean()
+}).partial();
+
+// The single OWNER membership is created with the project and cannot be granted.
+const grantableRole = z.enum([ProjectRole.ADMIN, ProjectRole.MEMBER]);
+
+export const projectMemberSchema = z.object({
+  email: z.email(),
+  role: grantableRole.optional().default(ProjectRole.MEMBER)
+});
+
+export const projectMemberUpdateSchema = z.object({
+  role: grantableRole
+});
+
+export const ProjectValidation = Prisma.defineExtension({
+  query: {
+    project: {
+      create({ args, query }) {
+        const { members, ...data } = args.data;
+        args.data = { ...projectSchema.parse(data), members };
+        return query(args);
+      },
+      update({ args, query }) {
+        args.data = projectUpdateSchema.parse(args.data);
+        return query(args);
+      }
+    }
+  }
+});
+
+export const projectListQuerySchema = z.object({
+  isArchived: z.stringbool().optional().default(false)
+});
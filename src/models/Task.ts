@@ -1,9 +1,29 @@
 import { z } from 'zod';
-import { Prisma, TaskStatus as PrismaTaskStatus } from '@prisma/client';
+import { Prisma, TaskPriority as PrismaTaskPriority, TaskStatus as PrismaTaskStatus } from '@prisma/client';
+import { cursorSchema, limitSchema } from '../services/pagination';
+import { formatRecurrenceRule, isValidTimeZone, parseRecurrenceRule } from '../services/recurrence';
 
 export const TaskStatus = PrismaTaskStatus;
+export const TaskPriority = PrismaTaskPriority;
 
-const taskSchema = z.object({
+export const TASK_SORT_FIELDS = ['createdAt', 'updatedAt', 'title', 'priority', 'dueAt'] as const;
+export const TASK_LIST_SCOPES = ['owned', 'shared', 'all'] as const;
+
+// What `taskCursor` stores for each sort field. Cursors come back from clients, so the
+// value is checked before it reaches a query.
+const CURSOR_VALUE_SCHEMAS: Record<(typeof TASK_SORT_FIELDS)[number], z.ZodType> = {
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+  title: z.string(),
+  priority: z.enum(PrismaTaskPriority),
+  dueAt: z.iso.datetime().nullable()
+};
+
+// Accepts Date objects from internal callers and ISO 8601 strings from JSON bodies.
+const dateInput = z.union([z.date(), z.iso.datetime({ offset: true }), z.iso.date()])
+  .transform(val => new Date(val));
+
+export const taskSchema = z.object({
   title: z.string()
     .min(1, 'Title is required')
     .max(255, 'Title must be 255 characters or less')
@@ -14,20 +34,258 @@ const taskSchema = z.object({
     .optional(),
   status: z.enum(TaskStatus).optional().default(TaskStatus.TODO),
   isArchived: z.boolean().optional().default(false),
-  userId: z.number().int()
+  priority: z.enum(TaskPriority).optional().default(TaskPriority.MEDIUM),
+  dueAt: dateInput.nullable().optional(),
+  estimateMinutes: z.number()
+    .int('Estimate must be a whole number of minutes')
+    .positive('Estimate must be positive')
+    .max(1000000, 'Estimate must be 1000000 minutes or less')
+    .nullable()
+    .optional(),
+  resolution: z.string()
+    .max(10000, 'Resolution must be 10000 characters or less')
+    .transform(val => val.trim())
+    .nullable()
+    .optional(),
+  startedAt: z.date().nullable().optional(),
+  completedAt: z.date().nullable().optional(),
+  userId: z.number().int(),
+  createdById: z.number().int().positive().nullable().optional(),
+  assigneeId: z.number().int().positive().nullable().optional(),
+  projectId: z.number().int().positive().nullable().optional(),
+  parentId: z.number().int().positive().nullable().optional(),
+  recurrenceId: z.number().int().positive().nullable().optional(),
+  occurrenceAt: z.date().nullable().optional(),
+  deletedAt: z.date().nullable().optional()
+});
+
+// Defaults only apply on create; a partial update must leave omitted fields untouched.
+export const taskUpdateSchema = taskSchema.extend({
+  status: z.enum(TaskStatus),
+  isArchived: z.boolean(),
+  priority: z.enum(TaskPriority)
+}).partial();
+
+// Query parameters arrive as a string or an array of strings; accept both
+// `status=TODO&status=DONE` and `status=TODO,DONE`.
+const listParam = <T extends z.ZodType>(item: T) => z.preprocess(
+  val => (Array.isArray(val) ? val : [val]).flatMap(v => String(v).split(',')).filter(Boolean),
+  z.array(item).min(1)
+);
+
+// `assignee=me` lists the caller's work across every task they can see, unless a scope
+// narrows it.
+export const taskListQuerySchema = z.object({
+  scope: z.enum(TASK_LIST_SCOPES).optional(),
+  projectId: z.coerce.number().int().positive().optional(),
+  assignee: z.union([z.literal('me'), z.coerce.number().int().positive()]).optional(),
+  status: listParam(z.enum(TaskStatus)).optional(),
+  priority: listParam(z.enum(TaskPriority)).optional(),
+  label: listParam(z.coerce.number().int().positive()).optional(),
+  labelMatch: z.enum(['any', 'all']).optional().default('any'),
+  isArchived: z.stringbool().optional().default(false),
+  q: z.string().trim().min(1).max(255).optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  updatedAfter: z.coerce.date().optional(),
+  updatedBefore: z.coerce.date().optional(),
+  dueAfter: z.coerce.date().optional(),
+  dueBefore: z.coerce.date().optional(),
+  sortBy: z.enum(TASK_SORT_FIELDS).optional().default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
+  limit: limitSchema,
+  cursor: cursorSchema.optional()
+}).superRefine((query, ctx) => {
+  if (query.cursor && query.cursor.sortBy !== query.sortBy) {
+    ctx.addIssue({ code: 'custom', path: ['cursor'], message: 'Cursor does not match sortBy' });
+  } else if (query.cursor && !CURSOR_VALUE_SCHEMAS[query.sortBy].safeParse(query.cursor.value).success) {
+    ctx.addIssue({ code: 'custom', path: ['cursor'], message: 'Invalid cursor' });
+  }
+}).transform(query => ({ ...query, scope: query.scope ?? (query.assignee ? 'all' : 'owned') }));
+
+export type TaskListQuery = z.infer<typeof taskListQuerySchema>;
+
+// Search results are ordered by relevance, so the list sort parameters do not apply.
+export const taskSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search text is required').max(255, 'Search text must be 255 characters or less'),
+  scope: z.enum(TASK_LIST_SCOPES).optional().default('owned'),
+  projectId: z.coerce.number().int().positive().optional(),
+  isArchived: z.stringbool().optional().default(false),
+  limit: limitSchema,
+  cursor: cursorSchema.optional()
+}).superRefine((query, ctx) => {
+  if (query.cursor && query.cursor.sortBy !== 'rank') {
+    ctx.addIssue({ code: 'custom', path: ['cursor'], message: 'Cursor is not from a search' });
+  } else if (query.cursor && !(typeof query.cursor.value === 'number' && Number.isFinite(query.cursor.value))) {
+    ctx.addIssue({ code: 'custom', path: ['cursor'], message: 'Invalid cursor' });
+  }
+});
+
+export type TaskSearchQuery = z.infer<typeof taskSearchQuerySchema>;
+
+const DURATION_UNITS_MS = { h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+export const upcomingQuerySchema = z.object({
+  within: z.string()
+    .regex(/^\d+[hdw]$/, 'Must be a duration such as 12h, 7d or 2w')
+    .transform(val => parseInt(val) * DURATION_UNITS_MS[val.slice(-1) as keyof typeof DURATION_UNITS_MS])
+    .optional()
+    .default(DURATION_UNITS_MS.d * 7)
+});
+
+export const TASK_EXPORT_FORMATS = ['json', 'csv'] as const;
+
+export const taskExportQuerySchema = z.object({
+  format: z.enum(TASK_EXPORT_FORMATS).optional().default('json')
+});
+
+export const TASK_IMPORT_LIMIT = 5000;
+
+export const taskImportQuerySchema = z.object({
+  dryRun: z.stringbool().optional().default(false)
+});
+
+// Rows are checked one by one against `taskSchema` so the report can point at each bad row.
+export const taskImportRowsSchema = z.array(z.unknown(), { error: 'Expected an array of tasks' })
+  .min(1, 'At least one task is required')
+  .max(TASK_IMPORT_LIMIT, `At most ${TASK_IMPORT_LIMIT} tasks can be imported at once`);
+
+export const subtaskLinkSchema = z.object({
+  taskId: z.number().int().positive()
+});
+
+export const dependencyLinkSchema = z.object({
+  blockerId: z.number().int().positive()
+});
+
+// Rules are stored in canonical form; see services/recurrence.ts for the supported subset.
+export const taskRecurrenceSchema = z.object({
+  rule: z.string().max(500, 'Rule must be 500 characters or less').transform((val, ctx) => {
+    try {
+      return formatRecurrenceRule(parseRecurrenceRule(val));
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', message: (error as Error).message });
+      return z.NEVER;
+    }
+  }),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional().default('UTC')
+});
+
+export type TaskRecurrenceInput = z.infer<typeof taskRecurrenceSchema>;
+
+// `null` stops a task from repeating.
+export const taskRecurrenceInputSchema = z.object({
+  recurrence: taskRecurrenceSchema.nullable().optional()
+});
+
+export const taskTransitionSchema = z.object({
+  to: z.enum(TaskStatus),
+  resolution: z.string().optional()
+});
+
+export const TASK_BULK_LIMIT = 500;
+
+const bulkTaskId = z.number().int().positive();
+// Labels, assignees and recurrence take checks of their own, so they are only changed through
+// the single-task endpoints. Sending them here is an error rather than being ignored.
+const BULK_UNSUPPORTED_FIELDS = ['labelIds', 'assigneeId', 'recurrence'];
+
+const bulkTaskData = z.record(z.string(), z.unknown()).superRefine((data, ctx) => {
+  BULK_UNSUPPORTED_FIELDS.filter(field => field in data).forEach(field => ctx.addIssue({
+    code: 'custom',
+    path: [field],
+    message: `${field} cannot be set in a bulk request`
+  }));
+});
+
+// Item data is validated per item against `taskSchema`, so one bad item does not reject
+// the whole request in best-effort mode.
+export const taskBulkOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('create'), data: bulkTaskData }),
+  z.object({ op: z.literal('update'), id: bulkTaskId, data: bulkTaskData }),
+  z.object({ op: z.literal('archive'), id: bulkTaskId }),
+  z.object({ op: z.literal('delete'), id: bulkTaskId })
+]);
+
+export type TaskBulkOperation = z.infer<typeof taskBulkOperationSchema>;
+
+// Same fields as the `GET /api/tasks` query string. JSON booleans and numbers are turned
+// into the strings the query schema expects.
+const bulkFilterSchema = z.preprocess(
+  val => (val && typeof val === 'object' && !Array.isArray(val)
+    ? Object.fromEntries(Object.entries(val).map(([key, value]) =>
+      [key, typeof value === 'boolean' || typeof value === 'number' ? String(value) : value]))
+    : val),
+  taskListQuerySchema
+);
+
+export const taskBulkSchema = z.object({
+  mode: z.enum(['atomic', 'bestEffort']).optional().default('atomic'),
+  operations: z.array(taskBulkOperationSchema)
+    .min(1, 'At least one operation is required')
+    .max(TASK_BULK_LIMIT, `At most ${TASK_BULK_LIMIT} operations are allowed`)
+    .optional(),
+  filter: bulkFilterSchema.optional(),
+  patch: bulkTaskData.optional()
+}).superRefine((body, ctx) => {
+  const byFilter = body.filter !== undefined || body.patch !== undefined;
+
+  if (body.operations && byFilter) {
+    ctx.addIssue({ code: 'custom', path: [], message: 'Send either operations or a filter with a patch, not both' });
+  } else if (!body.operations && !(body.filter && body.patch)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: [body.filter ? 'patch' : body.patch ? 'filter' : 'operations'],
+      message: 'Send either operations or a filter with a patch'
+    });
+  }
+});
+
+export type TaskBulkRequest = z.infer<typeof taskBulkSchema>;
+
+// New tasks are created by and assigned to their owner unless told otherwise; an explicit
+// `assigneeId: null` leaves the task unassigned.
+const withOwnerDefaults = (task: z.output<typeof taskSchema>) => ({
+  ...task,
+  createdById: task.createdById ?? task.userId,
+  assigneeId: task.assigneeId === undefined ? task.userId : task.assigneeId
 });
 
 export const TaskValidation = Prisma.defineExtension({
   query: {
     task: {
       create({ args, query }) {
-        args.data = taskSchema.parse(args.data);
+        const { labels, ...data } = args.data;
+        args.data = { ...withOwnerDefaults(taskSchema.parse(data)), labels };
+        return query(args);
+      },
+      update({ args, query }) {
+        const { labels, ...data } = args.data;
+        args.data = { ...taskUpdateSchema.parse(data), labels };
         return query(args);
       },
+      createManyAndReturn({ args, query }) {
+        args.data = (Array.isArray(args.data) ? args.data : [args.data])
+          .map(data => withOwnerDefaults(taskSchema.parse(data)));
+        return query(args);
+      }
+    }
+  }
+});
+
+// Bumps `version` on every update, whichever code path makes it. Chained after
+// TaskValidation, whose schemas would otherwise strip the increment.
+export const TaskVersioning = Prisma.defineExtension({
+  query: {
+    task: {
       update({ args, query }) {
-        args.data = taskSchema.partial().parse(args.data);
+        args.data = { ...args.data, version: { increment: 1 } };
+        return query(args);
+      },
+      updateMany({ args, query }) {
+        args.data = { ...args.data, version: { increment: 1 } };
         return query(args);
       }
     }
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import { Prisma, Task, TaskActivityAction } from '@prisma/client';
+import { currentActorId, currentTransaction } from '../services/requestContext';
+import { cursorSchema, limitSchema } from '../services/pagination';
+
+export type TaskChanges = Record<string, { from: unknown; to: unknown }>;
+
+const TRACKED_FIELDS = Object.values(Prisma.TaskScalarFieldEnum)
+  .filter(field => !['id', 'version', 'createdAt', 'updatedAt'].includes(field));
+
+const serialize = (value: unknown) => (value instanceof Date ? value.toISOString() : value ?? null);
+
+export const diffTasks = (before: Partial<Task>, after: Task): TaskChanges => {
+  const changes: TaskChanges = {};
+
+  for (const field of TRACKED_FIELDS) {
+    const from = serialize(before[field]);
+    const to = serialize(after[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+};
+
+const actionFor = (changes: TaskChanges): TaskActivityAction => {
+  if (changes.deletedAt) {
+    return changes.deletedAt.to ? TaskActivityAction.DELETED : TaskActivityAction.RESTORED;
+  }
+
+  if (changes.isArchived) {
+    return changes.isArchived.to ? TaskActivityAction.ARCHIVED : TaskActivityAction.UNARCHIVED;
+  }
+
+  return TaskActivityAction.UPDATED;
+};
+
+// The queries the activity log makes, which the root client and an interactive
+// transaction both provide.
+interface ActivityDb {
+  task: {
+    findUnique(args: { where: Prisma.TaskWhereUniqueInput }): Promise<Task | null>;
+    findMany(args: { where?: Prisma.TaskWhereInput }): Promise<Task[]>;
+    count(args: { where?: Prisma.TaskWhereInput }): Promise<number>;
+  };
+  taskActivity: {
+    create(args: { data: Prisma.TaskActivityUncheckedCreateInput }): Promise<unknown>;
+    createMany(args: { data: Prisma.TaskActivityCreateManyInput[] }): Promise<unknown>;
+  };
+}
+
+const immutable = () => {
+  throw new Error('Task activity records are immutable');
+};
+
+const unrecorded = (operation: string, instead: string) => () => {
+  throw new Error(`task.${operation} is not recorded in task history; use ${instead}`);
+};
+
+export const taskHistoryQuerySchema = z.object({
+  limit: limitSchema,
+  cursor: cursorSchema.optional()
+});
+
+// Writes an activity record for every task create and update, including archive,
+// soft-delete and restore, so that no code path can change a task without leaving a trace.
+// Operations it cannot record are refused, and hard deletes, which take a task's history
+// with them, only remove tasks whose soft delete was recorded first (see `purgeDeletedTasks`).
+// The actor comes from the request context set by `authenticateJWT`; background jobs log
+// with a null actor.
+export const TaskActivityLog = Prisma.defineExtension(client => {
+  // Joins the caller's interactive transaction when there is one (see `runInTransaction`).
+  const root: ActivityDb = client;
+  const db = (): ActivityDb => currentTransaction() ?? root;
+
+  const activityFor = (before: Partial<Task>, after: Task, action?: TaskActivityAction) => {
+    const changes = diffTasks(before, after);
+
+    if (Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    return {
+      taskId: after.id,
+      actorId: currentActorId(),
+      action: action ?? actionFor(changes),
+      changes: changes as Prisma.InputJsonObject
+    };
+  };
+
+  const assertSoftDeleted = async (where?: Prisma.TaskWhereInput) => {
+    if (await db().task.count({ where: { AND: [where ?? {}, { deletedAt: null }] } }) > 0) {
+      throw new Error('Only soft-deleted tasks can be hard-deleted');
+    }
+  };
+
+  const record = async (before: Partial<Task>, after: Task, action?: TaskActivityAction) => {
+    const activity = activityFor(before, after, action);
+
+    if (activity) {
+      await db().taskActivity.create({ data: activity });
+    }
+  };
+
+  return client.$extends({
+    query: {
+      task: {
+        async create({ args, query }) {
+          const result = await query(args);
+          const task = await db().task.findUnique({ where: { id: result.id } });
+
+          if (task) {
+            await record({}, task, TaskActivityAction.CREATED);
+          }
+
+          return result;
+        },
+        async update({ args, query }) {
+          const before = await db().task.findUnique({ where: args.where });
+          const result = await query(args);
+
+          if (before) {
+            const after = await db().task.findUnique({ where: { id: before.id } });
+            if (after) {
+              await record(before, after);
+            }
+          }
+
+          return result;
+        },
+        async updateMany({ args, query }) {
+          const before = await db().task.findMany({ where: args.where });
+          const result = await query(args);
+
+          const after = await db().task.findMany({
+            where: { id: { in: before.map(task => task.id) } }
+          });
+          const beforeById = new Map(before.map(task => [task.id, task]));
+          const activities = after
+            .map(task => activityFor(beforeById.get(task.id)!, task))
+            .filter((activity): activity is NonNullable<typeof activity> => activity !== null);
+
+          if (activities.length > 0) {
+            await db().taskActivity.createMany({ data: activities });
+          }
+
+          return result;
+        },
+        async createManyAndReturn({ args, query }) {
+          const result = await query(args);
+          const created = await db().task.findMany({
+            where: { id: { in: result.map(task => task.id as number) } }
+          });
+          const activities = created
+            .map(task => activityFor({}, task, TaskActivityAction.CREATED))
+            .filter((activity): activity is NonNullable<typeof activity> => activity !== null);
+
+          if (activities.length > 0) {
+            await db().taskActivity.createMany({ data: activities });
+          }
+
+          return result;
+        },
+        async delete({ args, query }) {
+          await assertSoftDeleted(args.where);
+          return query(args);
+        },
+        async deleteMany({ args, query }) {
+          await assertSoftDeleted(args.where);
+          return query(args);
+        },
+        createMany: unrecorded('createMany', 'createManyAndReturn'),
+        upsert: unrecorded('upsert', 'create or update')
+      },
+      taskActivity: {
+        update: immutable,
+        updateMany: immutable,
+        upsert: immutable,
+        delete: immutable,
+        deleteMany: immutable
+      }
+    }
+  });
+});
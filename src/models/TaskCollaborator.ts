@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { CollaboratorRole } from '@prisma/client';
+
+export const collaboratorInviteSchema = z.object({
+  email: z.email(),
+  role: z.enum(CollaboratorRole).optional().default(CollaboratorRole.VIEWER)
+});
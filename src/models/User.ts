@@ -1,9 +1,50 @@
 import { z } from 'zod';
-import { Prisma } from '@prisma/client';
+import { Prisma, UserRole } from '@prisma/client';
+import { cursorSchema, limitSchema } from '../services/pagination';
 
 const userSchema = z.object({
   email: z.email(),
   password: z.string().min(1), // password validation is actually done in the controller because this is a hashed password
+  role: z.enum(UserRole).optional()
+});
+
+const newPasswordSchema = z.string({ error: 'Password is required' })
+  .min(8, 'Password must be at least 8 characters long');
+
+const accountTokenSchema = z.string({ error: 'Token is required' }).min(1, 'Token is required');
+
+export const forgotPasswordSchema = z.object({
+  email: z.email()
+});
+
+export const resetPasswordSchema = z.object({
+  token: accountTokenSchema,
+  password: newPasswordSchema
+});
+
+export const verifyEmailSchema = z.object({
+  token: accountTokenSchema
+});
+
+export const updateMeSchema = z.object({
+  currentPassword: z.string({ error: 'Current password is required' }).min(1, 'Current password is required'),
+  email: z.email().optional(),
+  password: newPasswordSchema.optional()
+}).refine(data => data.email !== undefined || data.password !== undefined, {
+  message: 'Provide a new email or password',
+  path: []
+});
+
+export const adminUserQuerySchema = z.object({
+  q: z.string().trim().min(1).optional(),
+  role: z.enum(UserRole).optional(),
+  disabled: z.stringbool().optional(),
+  limit: limitSchema,
+  cursor: cursorSchema.optional()
+});
+
+export const adminUserUpdateSchema = z.object({
+  role: z.enum(UserRole, { error: 'Role must be USER or ADMIN' })
 });
 
 export const UserValidation = Prisma.defineExtension({
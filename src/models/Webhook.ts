@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { cursorSchema, limitSchema } from '../services/pagination';
+import { webhookTargetError } from '../services/webhookTargets';
+
+export const WEBHOOK_EVENTS = [
+  'task.created',
+  'task.updated',
+  'task.status_changed',
+  'task.archived',
+  'notification.created'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+const webhookSchema = z.object({
+  url: z.url({ protocol: /^https?$/, error: 'URL must be an http or https address' })
+    .max(2048, 'URL must be 2048 characters or less')
+    .superRefine((url, ctx) => {
+      const error = webhookTargetError(url);
+      if (error) {
+        ctx.addIssue({ code: 'custom', message: error });
+      }
+    }),
+  events: z.array(z.enum(WEBHOOK_EVENTS))
+    .min(1, 'Subscribe to at least one event')
+    .transform(events => [...new Set(events)]),
+  isActive: z.boolean().optional().default(true),
+  secret: z.string().min(1),
+  userId: z.number().int()
+});
+
+const webhookUpdateSchema = webhookSchema.pick({ url: true, events: true }).extend({
+  isActive: z.boolean()
+}).partial();
+
+export const webhookDeliveryQuerySchema = z.object({
+  limit: limitSchema,
+  cursor: cursorSchema.optional()
+});
+
+export const WebhookValidation = Prisma.defineExtension({
+  query: {
+    webhook: {
+      create({ args, query }) {
+        args.data = webhookSchema.parse(args.data);
+        return query(args);
+      },
+      update({ args, query }) {
+        args.data = webhookUpdateSchema.parse(args.data);
+        return query(args);
+      }
+    }
+  }
+});
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { authenticateJWT, requireRole } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import {
+  listUsers,
+  getUser,
+  updateUser,
+  disableUser,
+  enableUser,
+  forcePasswordReset,
+  listUserTasks
+} from '../controllers/adminController';
+
+const router = Router();
+
+const adminOnly = requireRole('ADMIN');
+
+router.get('/users', authenticateJWT, adminOnly, listUsers);
+router.get('/users/:user_id', authenticateJWT, adminOnly, getUser);
+router.patch('/users/:user_id', authenticateJWT, adminOnly, idempotent, updateUser);
+router.post('/users/:user_id/disable', authenticateJWT, adminOnly, idempotent, disableUser);
+router.post('/users/:user_id/enable', authenticateJWT, adminOnly, idempotent, enableUser);
+router.post('/users/:user_id/password-reset', authenticateJWT, adminOnly, idempotent, forcePasswordReset);
+router.get('/users/:user_id/tasks', authenticateJWT, adminOnly, listUserTasks);
+
+export default router;
@@ -1,9 +1,42 @@
 import { Router } from 'express';
-import { register, getToken } from '../controllers/authController';
+import { authenticateJWT } from '../middleware/auth';
+import { AUTH_RATE_LIMITS, byBasicAuthEmail, byBodyEmail, rateLimit } from '../middleware/rateLimit';
+import {
+  register,
+  getToken,
+  refresh,
+  logout,
+  logoutAll,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendEmailVerification,
+  getMe,
+  updateMe
+} from '../controllers/authController';
 
 const router = Router();
 
-router.post('/register', register);
-router.post('/token', getToken);
+router.post('/register', rateLimit('register-ip', AUTH_RATE_LIMITS.registerPerIp), register);
+router.post(
+  '/token',
+  rateLimit('token-ip', AUTH_RATE_LIMITS.tokenPerIp),
+  rateLimit('token-account', AUTH_RATE_LIMITS.tokenPerAccount, byBasicAuthEmail),
+  getToken
+);
+router.post('/refresh', rateLimit('refresh-ip', AUTH_RATE_LIMITS.refreshPerIp), refresh);
+router.post('/logout', logout);
+router.post('/logout-all', authenticateJWT, logoutAll);
+router.post(
+  '/password/forgot',
+  rateLimit('password-forgot-ip', AUTH_RATE_LIMITS.passwordForgotPerIp),
+  rateLimit('password-forgot-account', AUTH_RATE_LIMITS.passwordForgotPerAccount, byBodyEmail),
+  forgotPassword
+);
+router.post('/password/reset', rateLimit('password-reset-ip', AUTH_RATE_LIMITS.passwordResetPerIp), resetPassword);
+router.post('/email/verify', verifyEmail);
+router.post('/email/verification', authenticateJWT, resendEmailVerification);
+router.get('/me', authenticateJWT, getMe);
+router.patch('/me', authenticateJWT, updateMe);
 
 export default router;
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import {
+  getAllLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel
+} from '../controllers/labelController';
+
+const router = Router();
+
+router.get('/', authenticateJWT, getAllLabels);
+router.post('/', authenticateJWT, idempotent, createLabel);
+router.patch('/:label_id', authenticateJWT, idempotent, updateLabel);
+router.delete('/:label_id', authenticateJWT, idempotent, deleteLabel);
+
+export default router;
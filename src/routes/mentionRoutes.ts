@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middleware/auth';
+import { listMentions } from '../controllers/commentController';
+
+const router = Router();
+
+router.get('/', authenticateJWT, listMentions);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import {
+  listNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences
+} from '../controllers/notificationController';
+
+const router = Router();
+
+router.get('/', authenticateJWT, listNotifications);
+router.get('/unread-count', authenticateJWT, getUnreadCount);
+router.post('/read-all', authenticateJWT, idempotent, markAllNotificationsRead);
+router.get('/preferences', authenticateJWT, getNotificationPreferences);
+router.patch('/preferences', authenticateJWT, idempotent, updateNotificationPreferences);
+router.post('/:notification_id/read', authenticateJWT, idempotent, markNotificationRead);
+
+export default router;
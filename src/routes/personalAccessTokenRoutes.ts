@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middleware/auth';
+import {
+  getAllPersonalAccessTokens,
+  createPersonalAccessToken,
+  revokePersonalAccessToken
+} from '../controllers/personalAccessTokenController';
+
+const router = Router();
+
+router.get('/', authenticateJWT, getAllPersonalAccessTokens);
+router.post('/', authenticateJWT, createPersonalAccessToken);
+router.delete('/:token_id', authenticateJWT, revokePersonalAccessToken);
+
+export default router;
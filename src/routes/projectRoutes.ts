@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import {
+  getAllProjects,
+  createProject,
+  getProject,
+  updateProject,
+  listMembers,
+  addMember,
+  updateMember,
+  removeMember
+} from '../controllers/projectController';
+
+const router = Router();
+
+router.get('/', authenticateJWT, getAllProjects);
+router.post('/', authenticateJWT, idempotent, createProject);
+router.get('/:project_id', authenticateJWT, getProject);
+router.patch('/:project_id', authenticateJWT, idempotent, updateProject);
+router.get('/:project_id/members', authenticateJWT, listMembers);
+router.post('/:project_id/members', authenticateJWT, idempotent, addMember);
+router.patch('/:project_id/members/:user_id', authenticateJWT, idempotent, updateMember);
+router.delete('/:project_id/members/:user_id', authenticateJWT, idempotent, removeMember);
+
+export default router;
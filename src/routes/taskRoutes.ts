@@ -1,11 +1,74 @@
-import { Router } from 'express';
-import { authenticateJWT } from '../middleware/auth';
-import { getAllTasks, createTask, updateTask } from '../controllers/taskController';
+import express, { Router } from 'express';
+import { allowQueryToken, authenticateJWT, requireScope } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import {
+  getAllTasks,
+  getOverdueTasks,
+  getUpcomingTasks,
+  searchTasks,
+  getTask,
+  createTask,
+  updateTask,
+  deleteTask,
+  restoreTask,
+  getTaskHistory,
+  getTaskTransitions,
+  transitionTask
+} from '../controllers/taskController';
+import {
+  getTaskTree,
+  linkSubtask,
+  unlinkSubtask,
+  addDependency,
+  removeDependency
+} from '../controllers/taskRelationController';
+import { listCollaborators, addCollaborator, removeCollaborator } from '../controllers/collaboratorController';
+import { listComments, createComment, updateComment, deleteComment } from '../controllers/commentController';
+import { streamTasks } from '../controllers/taskStreamController';
+import { bulkTasks } from '../controllers/taskBulkController';
+import { exportTasks, importTasks } from '../controllers/taskTransferController';
 
 const router = Router();
 
-router.get('/', authenticateJWT, getAllTasks);
-router.post('/', authenticateJWT, createTask);
-router.patch('/:task_id', authenticateJWT, updateTask);
+const IMPORT_BODY_LIMIT = '5mb';
+
+const read = requireScope('tasks:read');
+const write = requireScope('tasks:write');
+
+router.get('/', read, authenticateJWT, getAllTasks);
+router.post('/', write, authenticateJWT, idempotent, createTask);
+router.post('/bulk', write, authenticateJWT, idempotent, bulkTasks);
+router.get('/export', read, authenticateJWT, exportTasks);
+router.post(
+  '/import',
+  write,
+  authenticateJWT,
+  express.text({ type: 'text/csv', limit: IMPORT_BODY_LIMIT }),
+  idempotent,
+  importTasks
+);
+router.get('/overdue', read, authenticateJWT, getOverdueTasks);
+router.get('/upcoming', read, authenticateJWT, getUpcomingTasks);
+router.get('/search', read, authenticateJWT, searchTasks);
+router.get('/stream', read, allowQueryToken, authenticateJWT, streamTasks);
+router.get('/:task_id', read, authenticateJWT, getTask);
+router.patch('/:task_id', write, authenticateJWT, idempotent, updateTask);
+router.delete('/:task_id', write, authenticateJWT, idempotent, deleteTask);
+router.post('/:task_id/restore', write, authenticateJWT, idempotent, restoreTask);
+router.get('/:task_id/history', read, authenticateJWT, getTaskHistory);
+router.get('/:task_id/transitions', read, authenticateJWT, getTaskTransitions);
+router.post('/:task_id/transitions', write, authenticateJWT, idempotent, transitionTask);
+router.get('/:task_id/tree', read, authenticateJWT, getTaskTree);
+router.post('/:task_id/subtasks', write, authenticateJWT, idempotent, linkSubtask);
+router.delete('/:task_id/subtasks/:subtask_id', write, authenticateJWT, idempotent, unlinkSubtask);
+router.post('/:task_id/dependencies', write, authenticateJWT, idempotent, addDependency);
+router.delete('/:task_id/dependencies/:blocker_id', write, authenticateJWT, idempotent, removeDependency);
+router.get('/:task_id/collaborators', read, authenticateJWT, listCollaborators);
+router.post('/:task_id/collaborators', write, authenticateJWT, idempotent, addCollaborator);
+router.delete('/:task_id/collaborators/:user_id', write, authenticateJWT, idempotent, removeCollaborator);
+router.get('/:task_id/comments', read, authenticateJWT, listComments);
+router.post('/:task_id/comments', write, authenticateJWT, idempotent, createComment);
+router.patch('/:task_id/comments/:comment_id', write, authenticateJWT, idempotent, updateComment);
+router.delete('/:task_id/comments/:comment_id', write, authenticateJWT, idempotent, deleteComment);
 
 export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { authenticateJWT } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import {
+  getAllWebhooks,
+  createWebhook,
+  getWebhook,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries
+} from '../controllers/webhookController';
+
+const router = Router();
+
+router.get('/', authenticateJWT, getAllWebhooks);
+router.post('/', authenticateJWT, idempotent, createWebhook);
+router.get('/:webhook_id', authenticateJWT, getWebhook);
+router.patch('/:webhook_id', authenticateJWT, idempotent, updateWebhook);
+router.delete('/:webhook_id', authenticateJWT, idempotent, deleteWebhook);
+router.get('/:webhook_id/deliveries', authenticateJWT, getWebhookDeliveries);
+
+export default router;
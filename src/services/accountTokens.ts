@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { AccountToken, AccountTokenPurpose } from '@prisma/client';
+import { deliverMail } from './mailer';
+import prisma from './prisma';
+import { hashToken } from './tokens';
+
+export const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+export const PASSWORD_RESET_TTL_SECONDS = parseInt(process.env.PASSWORD_RESET_TTL_SECONDS || '3600');
+export const EMAIL_VERIFICATION_TTL_SECONDS = parseInt(process.env.EMAIL_VERIFICATION_TTL_SECONDS || String(24 * 60 * 60));
+
+const TTL_SECONDS: Record<AccountTokenPurpose, number> = {
+  PASSWORD_RESET: PASSWORD_RESET_TTL_SECONDS,
+  EMAIL_VERIFICATION: EMAIL_VERIFICATION_TTL_SECONDS
+};
+
+// Issues a token for the purpose and retires the user's earlier unused ones, so only the
+// most recent link works. Returns the raw token; only its hash is stored.
+export const issueAccountToken = async (userId: number, purpose: AccountTokenPurpose, email?: string) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.accountToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: now }
+    }),
+    prisma.accountToken.create({
+      data: {
+        tokenHash: hashToken(token),
+        purpose,
+        userId,
+        email,
+        expiresAt: new Date(now.getTime() + TTL_SECONDS[purpose] * 1000)
+      }
+    })
+  ]);
+
+  return token;
+};
+
+// Returns the token's record while it is unused and unexpired, or null.
+export const findAccountToken = async (token: string, purpose: AccountTokenPurpose) => {
+  const existing = await prisma.accountToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!existing || existing.purpose !== purpose || existing.usedAt || existing.expiresAt <= new Date()) {
+    return null;
+  }
+
+  return existing;
+};
+
+// Marks the token used. Returns false when a concurrent request got there first.
+export const consumeAccountToken = async (accountToken: AccountToken) => {
+  const { count } = await prisma.accountToken.updateMany({
+    where: { id: accountToken.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  return count > 0;
+};
+
+// The address a user asked to change to and has not confirmed yet, if any.
+export const findPendingEmail = async (userId: number, currentEmail: string) => {
+  const pending = await prisma.accountToken.findFirst({
+    where: {
+      userId,
+      purpose: 'EMAIL_VERIFICATION',
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+      email: { not: currentEmail }
+    },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return pending?.email ?? null;
+};
+
+const hours = (seconds: number) => {
+  const value = Math.max(Math.round(seconds / 3600), 1);
+  return `${value} hour${value === 1 ? '' : 's'}`;
+};
+
+export const sendPasswordReset = async (user: { id: number; email: string }) => {
+  const token = await issueAccountToken(user.id, 'PASSWORD_RESET');
+
+  deliverMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      'Someone asked to reset the password for your account.',
+      '',
+      `Use this link within ${hours(PASSWORD_RESET_TTL_SECONDS)} to choose a new one:`,
+      `${APP_URL}/reset-password?token=${token}`,
+      '',
+      'If you did not ask for this, you can ignore this email; your password has not changed.'
+    ].join('\n')
+  });
+};
+
+// Sends a verification link to `email`, which is the user's current address or the one they
+// are changing to.
+export const sendEmailVerification = async (user: { id: number }, email: string) => {
+  const token = await issueAccountToken(user.id, 'EMAIL_VERIFICATION', email);
+
+  deliverMail({
+    to: email,
+    subject: 'Verify your email address',
+    text: [
+      'Please confirm this email address for your account.',
+      '',
+      `Use this link within ${hours(EMAIL_VERIFICATION_TTL_SECONDS)}:`,
+      `${APP_URL}/verify-email?token=${token}`,
+      '',
+      'If you did not ask for this, you can ignore this email.'
+    ].join('\n')
+  });
+};
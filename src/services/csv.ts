@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+// Minimal RFC 4180 support: comma separated, fields optionally wrapped in double quotes,
+// quotes escaped by doubling them, CRLF or LF line endings.
+
+// Spreadsheets run cells starting with `=`, `+`, `-`, `@`, tab or CR as formulas. A leading
+// `'` makes them read the cell as text instead, and is itself hidden.
+const ESCAPED_PREFIX = /^['=+\-@\t\r]/;
+
+// Text a spreadsheet would take for a formula, or that already starts with `'`, is prefixed
+// with `'`. `unescapeCsvFormula` strips the prefix again on import.
+const formatCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const raw = value instanceof Date ? value.toISOString() : String(value);
+  const text = ESCAPED_PREFIX.test(raw) ? `'${raw}` : raw;
+
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatCsvRow = (values: unknown[]) => `${values.map(formatCsvValue).join(',')}\r\n`;
+
+// Undoes the formula escaping of `formatCsvValue`.
+export const unescapeCsvFormula = (value: string | undefined) =>
+  (value !== undefined && value.startsWith("'") && ESCAPED_PREFIX.test(value.slice(1)) ? value.slice(1) : value);
+
+// Returns the records as arrays of raw strings, skipping blank lines. A quoted field that is
+// never closed is reported as a validation error.
+export const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new z.ZodError([{ code: 'custom', path: [], message: 'Unterminated quoted field', input: field }]);
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
@@ -0,0 +1,36 @@
+import { Prisma } from '@prisma/client';
+
+// Tasks are versioned, so the version alone identifies a representation of one task.
+export const versionETag = (version: number) => `"${version}"`;
+
+const splitTags = (header: string) => header.split(',').map(tag => tag.trim()).filter(Boolean);
+
+const versionOf = (tag: string) => {
+  const match = /^"(\d+)"$/.exec(tag);
+  return match ? parseInt(match[1]) : null;
+};
+
+// Versions an `If-Match` header accepts, or null when it accepts any (no header, or `*`).
+// If-Match uses strong comparison, so weak and malformed tags never match.
+export const parseIfMatch = (header: string | undefined): number[] | null => {
+  if (header === undefined || header.trim() === '*') {
+    return null;
+  }
+
+  return splitTags(header)
+    .map(versionOf)
+    .filter((version): version is number => version !== null);
+};
+
+// If-None-Match uses weak comparison: `W/"3"` matches version 3.
+export const matchesIfNoneMatch = (header: string | undefined, version: number) => {
+  if (header === undefined) {
+    return false;
+  }
+
+  return header.trim() === '*' || splitTags(header).some(tag => versionOf(tag.replace(/^W\//, '')) === version);
+};
+
+// A conditional update whose `where` no longer matches fails with "record not found".
+export const isStaleWrite = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { IdempotencyKey, Prisma } from '@prisma/client';
+import prisma from './prisma';
+
+export const IDEMPOTENCY_KEY_TTL_SECONDS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_SECONDS || String(24 * 60 * 60));
+
+// A key still marked in progress after this long belongs to a request that never finished
+// (the process stopped mid-request), and the next retry takes it over.
+export const IDEMPOTENCY_LOCK_TIMEOUT_SECONDS = parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS || '60');
+
+export type IdempotencyClaim =
+  | { status: 'claimed'; id: number }
+  | { status: 'replay'; record: IdempotencyKey }
+  | { status: 'mismatch' }
+  | { status: 'inProgress' };
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+export const requestFingerprint = (method: string, url: string, body: unknown) =>
+  crypto.createHash('sha256').update(JSON.stringify([method, url, body ?? null])).digest('hex');
+
+// Claims the key for a request, or reports why the request must not run: the key already
+// has a response to replay, belongs to a different request, or is held by a request still
+// in progress. Inserting is what claims the key, so of two concurrent requests only one
+// can win it.
+export const claimIdempotencyKey = async (
+  userId: number,
+  key: string,
+  fingerprint: string,
+  now: Date = new Date()
+): Promise<IdempotencyClaim> => {
+  // A second pass is only needed when an expired record was removed in between.
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const record = await prisma.idempotencyKey.create({
+        data: {
+          key,
+          userId,
+          fingerprint,
+          lockedAt: now,
+          expiresAt: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_SECONDS * 1000)
+        }
+      });
+
+      return { status: 'claimed', id: record.id };
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } }
+    });
+
+    if (!existing) {
+      continue;
+    }
+
+    if (existing.expiresAt <= now) {
+      await prisma.idempotencyKey.deleteMany({ where: { id: existing.id, expiresAt: { lte: now } } });
+      continue;
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      return { status: 'mismatch' };
+    }
+
+    if (existing.responseStatus !== null) {
+      return { status: 'replay', record: existing };
+    }
+
+    const { count } = await prisma.idempotencyKey.updateMany({
+      where: {
+        id: existing.id,
+        responseStatus: null,
+        lockedAt: { lt: new Date(now.getTime() - IDEMPOTENCY_LOCK_TIMEOUT_SECONDS * 1000) }
+      },
+      data: { lockedAt: now }
+    });
+
+    return count > 0 ? { status: 'claimed', id: existing.id } : { status: 'inProgress' };
+  }
+
+  return { status: 'inProgress' };
+};
+
+export const saveIdempotentResponse = async (
+  id: number,
+  response: { status: number; headers: Record<string, string>; body: string | null }
+) => {
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: { responseStatus: response.status, responseHeaders: response.headers, responseBody: response.body }
+  });
+};
+
+// Frees the key so the request can be retried, after a failure that says nothing about
+// whether a retry would succeed.
+export const releaseIdempotencyKey = async (id: number) => {
+  await prisma.idempotencyKey.deleteMany({ where: { id } });
+};
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { Label, Prisma, ProjectRole } from '@prisma/client';
+import prisma from './prisma';
+import { getProjectRole } from './projectAccess';
+
+export type LabelPermission = 'view' | 'manage';
+
+export type LabelLookup =
+  | { label: Label; error?: undefined }
+  | { label?: undefined; error: { status: number; message: string } };
+
+const PROJECT_LABEL_MANAGERS: ProjectRole[] = [ProjectRole.OWNER, ProjectRole.ADMIN];
+
+// Personal labels belong to one user. Project labels are visible to every member and
+// managed by the project's owner and admins.
+export const findAuthorizedLabel = async (
+  labelIdParam: string,
+  userId: number,
+  permission: LabelPermission,
+  action: string
+): Promise<LabelLookup> => {
+  const labelId = parseInt(labelIdParam);
+
+  const label = Number.isNaN(labelId) ? null : await prisma.label.findUnique({
+    where: { id: labelId }
+  });
+
+  if (!label) {
+    return { error: { status: 404, message: 'Label not found' } };
+  }
+
+  const authorized = label.projectId
+    ? await getProjectRole(label.projectId, userId).then(role =>
+      !!role && (permission === 'view' || PROJECT_LABEL_MANAGERS.includes(role)))
+    : label.userId === userId;
+
+  if (!authorized) {
+    return { error: { status: 403, message: `You are not authorized to ${action} this label` } };
+  }
+
+  return { label };
+};
+
+// The labels a user may put on, or take off, a task: their personal labels and the labels
+// of the task's project.
+export const usableLabelWhere = (userId: number, projectId: number | null): Prisma.LabelWhereInput => ({
+  OR: [{ userId }, ...(projectId ? [{ projectId }] : [])]
+});
+
+// A task can only carry labels from `usableLabelWhere`. Anything else is raised as a ZodError so it surfaces as a 422 `Validation failed`.
+export const assertUsableLabels = async (labelIds: number[], userId: number, projectId: number | null) => {
+  if (labelIds.length === 0) {
+    return;
+  }
+
+  const usable = await prisma.label.findMany({
+    where: {
+      id: { in: labelIds },
+      ...usableLabelWhere(userId, projectId)
+    },
+    select: { id: true }
+  });
+  const usableIds = new Set(usable.map(label => label.id));
+  const unusable = labelIds.filter(id => !usableIds.has(id));
+
+  if (unusable.length > 0) {
+    throw new z.ZodError([{
+      code: 'custom',
+      path: ['labelIds'],
+      message: `Unknown labels: ${unusable.join(', ')}`,
+      input: labelIds
+    }]);
+  }
+};
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import { sendSmtpMail, SmtpOptions } from './smtp';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || 'no-reply@localhost';
+
+export const createSmtpMailer = (options: SmtpOptions, from = MAIL_FROM): Mailer => ({
+  send: message => sendSmtpMail(options, { from, ...message })
+});
+
+// Development transport: prints messages instead of sending them.
+export const createConsoleMailer = (): Mailer => ({
+  async send(message) {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+});
+
+// Appends each message to a file as one JSON line, written before `send` returns so tests
+// can read it straight after the request that sent it.
+export const createFileMailer = (file: string): Mailer => ({
+  async send(message) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`);
+  }
+});
+
+// MAIL_TRANSPORT selects `smtp` (configured with the SMTP_* variables), `file` (MAIL_FILE)
+// or `console`, the default.
+const createMailerFromEnv = (): Mailer => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      return createSmtpMailer({
+        host: process.env.SMTP_HOST || 'localhost',
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD
+      });
+    case 'file':
+      return createFileMailer(process.env.MAIL_FILE || 'tmp/mail.jsonl');
+    default:
+      return createConsoleMailer();
+  }
+};
+
+let mailer: Mailer = createMailerFromEnv();
+
+export const getMailer = () => mailer;
+
+export const setMailer = (next: Mailer) => {
+  mailer = next;
+};
+
+// Account mail is sent in the background: a slow or failing mail server must not hold up
+// the request, and response times must not reveal whether an address is registered.
+export const deliverMail = (message: MailMessage) => {
+  mailer.send(message).catch(error => console.error(`Error sending mail to ${message.to}:`, error));
+};
@@ -0,0 +1,31 @@
+import { Task } from '@prisma/client';
+import prisma from './prisma';
+import { getTaskRole } from './taskAccess';
+
+// `@alice@example.com`. The leading `@` must not follow a word character, so plain
+// email addresses in the text are not treated as mentions.
+const MENTION_PATTERN = /(?<![\w.@])@([\w.%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,})/gi;
+
+export const extractMentionEmails = (body: string): string[] => {
+  const emails = Array.from(body.matchAll(MENTION_PATTERN), match => match[1].toLowerCase());
+  return [...new Set(emails)];
+};
+
+// Mentions are only kept for users who can see the task, so a comment cannot be used to
+// probe which emails are registered or to notify people outside the task.
+export const resolveMentions = async (body: string, task: Task, authorId: number): Promise<number[]> => {
+  const emails = extractMentionEmails(body);
+
+  if (emails.length === 0) {
+    return [];
+  }
+
+  const users = await prisma.user.findMany({
+    where: { email: { in: emails, mode: 'insensitive' }, id: { not: authorId } },
+    select: { id: true }
+  });
+
+  const roles = await Promise.all(users.map(user => getTaskRole(task, user.id)));
+
+  return users.filter((_, index) => roles[index] !== null).map(user => user.id);
+};
@@ -0,0 +1,219 @@
+import { Notification, NotificationChannel, NotificationSettings, NotificationType, Prisma } from '@prisma/client';
+import { DEFAULT_NOTIFICATION_CHANNELS, NotificationChannels, notificationChannelsSchema } from '../models/Notification';
+import { APP_URL } from './accountTokens';
+import { deliverMail } from './mailer';
+import prisma from './prisma';
+
+// Users with the daily digest get at most one notification email per this period.
+const DIGEST_PERIOD_MS = 24 * 60 * 60 * 1000;
+const DIGEST_MAX_ITEMS = 100;
+
+export interface NotificationInput {
+  userId: number;
+  type: NotificationType;
+  message: string;
+  taskId?: number | null;
+  actorId?: number | null;
+  dedupeKey?: string;
+}
+
+// Delivers stored notifications outside the app. The in-app channel is the stored
+// notification itself, so only email and webhooks have handlers; they can be replaced
+// with `setNotificationChannel`, e.g. to send email through a queue.
+export interface NotificationChannelHandler {
+  deliver(notifications: Notification[]): Promise<void>;
+}
+
+type OutboundChannel = Exclude<NotificationChannel, 'IN_APP'>;
+
+export const notificationSelect = {
+  id: true,
+  type: true,
+  message: true,
+  taskId: true,
+  readAt: true,
+  createdAt: true,
+  actor: { select: { id: true, email: true } }
+} satisfies Prisma.NotificationSelect;
+
+// Stored channels are merged over the defaults; a row that no longer parses (say, after
+// a channel was removed) falls back to the defaults instead of failing delivery.
+export const toNotificationSettings = (row?: NotificationSettings | null) => {
+  const stored = notificationChannelsSchema.safeParse(row?.channels ?? {});
+
+  return {
+    channels: { ...DEFAULT_NOTIFICATION_CHANNELS, ...(stored.success ? stored.data : {}) } as NotificationChannels,
+    emailDigest: row?.emailDigest ?? false
+  };
+};
+
+const loadNotificationSettings = async (userIds: number[]) => {
+  const rows = await prisma.notificationSettings.findMany({ where: { userId: { in: userIds } } });
+  const byUser = new Map(rows.map(row => [row.userId, row]));
+
+  return new Map(userIds.map(userId => [userId, toNotificationSettings(byUser.get(userId))]));
+};
+
+const notificationText = (notification: Notification) => [
+  notification.message,
+  ...(notification.taskId ? ['', `${APP_URL}/tasks/${notification.taskId}`] : []),
+  '',
+  `Choose which notifications you receive at ${APP_URL}/settings/notifications.`
+].join('\n');
+
+const emailChannel: NotificationChannelHandler = {
+  async deliver(notifications) {
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...new Set(notifications.map(notification => notification.userId))] } },
+      select: { id: true, email: true, notificationSettings: { select: { emailDigest: true } } }
+    });
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    // Digest users get these from `sendNotificationDigests` instead.
+    const immediate = notifications.filter(notification => {
+      const user = usersById.get(notification.userId);
+      return user && !user.notificationSettings?.emailDigest;
+    });
+
+    immediate.forEach(notification => deliverMail({
+      to: usersById.get(notification.userId)!.email,
+      subject: notification.message,
+      text: notificationText(notification)
+    }));
+
+    if (immediate.length > 0) {
+      await prisma.notification.updateMany({
+        where: { id: { in: immediate.map(notification => notification.id) } },
+        data: { emailedAt: new Date() }
+      });
+    }
+  }
+};
+
+// Queued as `notification.created` deliveries for the recipient's own webhooks and sent by
+// the webhook delivery job.
+const webhookChannel: NotificationChannelHandler = {
+  async deliver(notifications) {
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        isActive: true,
+        events: { has: 'notification.created' },
+        userId: { in: [...new Set(notifications.map(notification => notification.userId))] }
+      },
+      select: { id: true, userId: true }
+    });
+
+    const occurredAt = new Date().toISOString();
+    const data = notifications.flatMap(({ id, userId, type, message, taskId, actorId, createdAt }) => webhooks
+      .filter(webhook => webhook.userId === userId)
+      .map(webhook => ({
+        webhookId: webhook.id,
+        event: 'notification.created',
+        payload: JSON.parse(JSON.stringify({
+          event: 'notification.created',
+          occurredAt,
+          notification: { id, type, message, taskId, actorId, createdAt }
+        }))
+      })));
+
+    if (data.length > 0) {
+      await prisma.webhookDelivery.createMany({ data });
+    }
+  }
+};
+
+const handlers: Record<OutboundChannel, NotificationChannelHandler> = {
+  EMAIL: emailChannel,
+  WEBHOOK: webhookChannel
+};
+
+export const getNotificationChannel = (channel: OutboundChannel) => handlers[channel];
+
+export const setNotificationChannel = (channel: OutboundChannel, handler: NotificationChannelHandler) => {
+  handlers[channel] = handler;
+};
+
+// Stores each notification with the channels its recipient chose for the type and hands
+// it to those channels. Nobody is notified of their own actions, and a notification whose
+// `dedupeKey` the recipient already has is skipped. A failing channel is logged without
+// affecting the other channels or the caller.
+export const notify = async (inputs: NotificationInput[]) => {
+  const wanted = inputs.filter(input => input.userId !== input.actorId);
+
+  if (wanted.length === 0) {
+    return [];
+  }
+
+  const settings = await loadNotificationSettings([...new Set(wanted.map(input => input.userId))]);
+  const data = wanted
+    .map(input => ({ ...input, channels: settings.get(input.userId)!.channels[input.type] }))
+    .filter(input => input.channels.length > 0);
+
+  if (data.length === 0) {
+    return [];
+  }
+
+  const created = await prisma.notification.createManyAndReturn({ data, skipDuplicates: true });
+
+  await Promise.all((Object.keys(handlers) as OutboundChannel[]).map(async channel => {
+    const batch = created.filter(notification => notification.channels.includes(channel));
+
+    if (batch.length === 0) {
+      return;
+    }
+
+    try {
+      await handlers[channel].deliver(batch);
+    } catch (error) {
+      console.error(`Error delivering ${channel} notifications:`, error);
+    }
+  }));
+
+  return created;
+};
+
+// Sends each digest user one email with the notifications collected since their last
+// digest, at most once per day. Returns the number of digests sent.
+export const sendNotificationDigests = async (now: Date = new Date()) => {
+  const due = await prisma.notificationSettings.findMany({
+    where: {
+      emailDigest: true,
+      OR: [{ lastDigestAt: null }, { lastDigestAt: { lte: new Date(now.getTime() - DIGEST_PERIOD_MS) } }]
+    },
+    include: { user: { select: { email: true } } }
+  });
+  let sent = 0;
+
+  for (const { userId, user } of due) {
+    const pending = await prisma.notification.findMany({
+      where: { userId, emailedAt: null, channels: { has: NotificationChannel.EMAIL } },
+      orderBy: { id: 'asc' },
+      take: DIGEST_MAX_ITEMS
+    });
+
+    if (pending.length === 0) {
+      continue;
+    }
+
+    deliverMail({
+      to: user.email,
+      subject: `Your task digest: ${pending.length} notification${pending.length === 1 ? '' : 's'}`,
+      text: [
+        ...pending.map(notification => `- ${notification.message}`),
+        '',
+        `See them all at ${APP_URL}/notifications.`
+      ].join('\n')
+    });
+
+    await prisma.$transaction([
+      prisma.notification.updateMany({
+        where: { id: { in: pending.map(notification => notification.id) } },
+        data: { emailedAt: now }
+      }),
+      prisma.notificationSettings.update({ where: { userId }, data: { lastDigestAt: now } })
+    ]);
+    sent++;
+  }
+
+  return sent;
+};
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+export interface Cursor {
+  sortBy: string;
+  value: string | number | null;
+  id: number;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+
+export const decodeCursor = (raw: string): Cursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+
+    if (typeof parsed?.sortBy !== 'string' || !Number.isInteger(parsed?.id)) {
+      return null;
+    }
+
+    return parsed as Cursor;
+  } catch {
+    return null;
+  }
+};
+
+export const cursorSchema = z.string().transform((val, ctx) => {
+  const cursor = decodeCursor(val);
+  if (!cursor) {
+    ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+    return z.NEVER;
+  }
+  return cursor;
+});
+
+export const limitSchema = z.coerce.number().int().min(1).max(100).optional().default(50);
+
+// Keyset condition for "rows after the cursor" given the sort column and direction.
+// The id is used as a tie-breaker so rows sharing a sort value are never skipped.
+// Nullable columns are expected to sort nulls last in both directions, and `beyond` can
+// replace the strict comparison for types Prisma cannot compare with gt/lt (enums).
+export const keysetWhere = (
+  field: string,
+  order: SortOrder,
+  value: unknown,
+  id: number,
+  { nullable = false, beyond }: { nullable?: boolean; beyond?: object } = {}
+) => {
+  const op = order === 'asc' ? 'gt' : 'lt';
+
+  if (value === null) {
+    return { [field]: null, id: { [op]: id } };
+  }
+
+  return {
+    OR: [
+      { [field]: beyond ?? { [op]: value } },
+      { [field]: value, id: { [op]: id } },
+      ...(nullable ? [{ [field]: null }] : [])
+    ]
+  };
+};
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { PersonalAccessToken } from '@prisma/client';
+import prisma from './prisma';
+import { hashToken } from './tokens';
+
+// The prefix tells personal access tokens apart from JWTs in the Authorization header and
+// makes leaked tokens easy to spot in logs and secret scanners.
+const TOKEN_PREFIX = 'pat_';
+const DISPLAYED_PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+
+// `lastUsedAt` is only written when it is older than this, so busy scripts do not cause a
+// write on every request.
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+export const isPersonalAccessToken = (token: string) => token.startsWith(TOKEN_PREFIX);
+
+export const generatePersonalAccessToken = () => {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  return { token, tokenHash: hashToken(token), tokenPrefix: token.slice(0, DISPLAYED_PREFIX_LENGTH) };
+};
+
+const isActive = (accessToken: PersonalAccessToken) =>
+  !accessToken.revokedAt && (!accessToken.expiresAt || accessToken.expiresAt > new Date());
+
+// Returns the token's record unless it is unknown, revoked or expired.
+export const findActivePersonalAccessToken = async (token: string) => {
+  const accessToken = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  return accessToken && isActive(accessToken) ? accessToken : null;
+};
+
+export const isPersonalAccessTokenActive = async (id: number) => {
+  const accessToken = await prisma.personalAccessToken.findUnique({ where: { id } });
+  return accessToken !== null && isActive(accessToken);
+};
+
+export const recordPersonalAccessTokenUse = async (accessToken: PersonalAccessToken) => {
+  const now = new Date();
+
+  if (accessToken.lastUsedAt && now.getTime() - accessToken.lastUsedAt.getTime() < LAST_USED_PRECISION_MS) {
+    return;
+  }
+
+  await prisma.personalAccessToken.update({
+    where: { id: accessToken.id },
+    data: { lastUsedAt: now }
+  });
+};
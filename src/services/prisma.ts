@@ -1,9 +1,75 @@
-import { PrismaClient } from '@prisma/client';
-import { TaskValidation } from '../models/Task';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TaskValidation, TaskVersioning } from '../models/Task';
+import { TaskActivityLog } from '../models/TaskActivity';
 import { UserValidation } from '../models/User';
+import { ProjectValidation } from '../models/Project';
+import { LabelValidation } from '../models/Label';
+import { CommentValidation } from '../models/Comment';
+import { WebhookValidation } from '../models/Webhook';
+import { PersonalAccessTokenValidation } from '../models/PersonalAccessToken';
+import { currentTransaction, recordCommit, runInTransaction } from './requestContext';
+
+const WRITE_OPERATIONS = new Set([
+  'create', 'createMany', 'createManyAndReturn', 'update', 'updateMany', 'upsert', 'delete', 'deleteMany',
+  '$executeRaw', '$executeRawUnsafe'
+]);
+
+// Writes made outside an interactive transaction commit as soon as they return; those made
+// inside one are recorded by `withTransaction` once it commits.
+const CommitTracking = Prisma.defineExtension({
+  query: {
+    async $allOperations({ operation, args, query }) {
+      const result = await query(args);
+
+      if (WRITE_OPERATIONS.has(operation) && !currentTransaction()) {
+        recordCommit();
+      }
+
+      return result;
+    }
+  }
+});
 
 const prisma = new PrismaClient()
                     .$extends(TaskValidation)
-                    .$extends(UserValidation);
+                    .$extends(TaskVersioning)
+                    .$extends(TaskActivityLog)
+                    .$extends(UserValidation)
+                    .$extends(ProjectValidation)
+                    .$extends(LabelValidation)
+                    .$extends(CommentValidation)
+                    .$extends(WebhookValidation)
+                    .$extends(PersonalAccessTokenValidation)
+                    .$extends(CommitTracking);
+
+// Interactive transaction that the client extensions join as well, so that their own
+// queries (such as activity records) commit or roll back with the caller's writes.
+// `fn` is awaited inside the transaction scope: Prisma queries are lazy, so a query that
+// `fn` returns unawaited would otherwise run after the scope has exited.
+export const withTransaction = async <T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options?: { timeout?: number }
+) => {
+  const result = await prisma.$transaction(tx => {
+    const client = tx as unknown as Prisma.TransactionClient;
+    return runInTransaction(client, async () => await fn(client));
+  }, options);
+
+  recordCommit();
+  return result;
+};
+
+// Side effects of writes that have already committed, such as stream events, notifications
+// and the next occurrence of a series. Each runs in turn and a failure is only logged: the
+// writes stand, so failing the request would invite a retry that makes them twice.
+export const runAfterCommit = async (...effects: (() => Promise<unknown>)[]) => {
+  for (const effect of effects) {
+    try {
+      await effect();
+    } catch (error) {
+      console.error('Error after commit:', error);
+    }
+  }
+};
 
 export default prisma;
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { Prisma, Project, ProjectRole } from '@prisma/client';
+import prisma from './prisma';
+
+export type ProjectPermission = 'view' | 'manage';
+
+const ROLE_PERMISSIONS: Record<ProjectRole, ProjectPermission[]> = {
+  OWNER: ['view', 'manage'],
+  ADMIN: ['view', 'manage'],
+  MEMBER: ['view']
+};
+
+export type ProjectLookup =
+  | { project: Project; role: ProjectRole; error?: undefined }
+  | { project?: undefined; role?: undefined; error: { status: number; message: string } };
+
+export const getProjectRole = async (projectId: number, userId: number): Promise<ProjectRole | null> => {
+  const membership = await prisma.projectMember.findUnique({
+    where: { projectId_userId: { projectId, userId } }
+  });
+
+  return membership?.role ?? null;
+};
+
+export const findAuthorizedProject = async (
+  projectIdParam: string | number,
+  userId: number,
+  permission: ProjectPermission,
+  action: string
+): Promise<ProjectLookup> => {
+  const projectId = typeof projectIdParam === 'number' ? projectIdParam : parseInt(projectIdParam);
+
+  const project = Number.isNaN(projectId) ? null : await prisma.project.findUnique({
+    where: { id: projectId }
+  });
+
+  if (!project) {
+    return { error: { status: 404, message: 'Project not found' } };
+  }
+
+  const role = await getProjectRole(project.id, userId);
+
+  if (!role || !ROLE_PERMISSIONS[role].includes(permission)) {
+    return { error: { status: 403, message: `You are not authorized to ${action} this project` } };
+  }
+
+  return { project, role };
+};
+
+// Batched form of the task controller's project assignment check for endpoints that place
+// many tasks at once: one query up front, then a synchronous check per task. Values that
+// are not integers are left for the task schema to reject.
+export const loadProjectAssignmentCheck = async (userId: number, tx?: Prisma.TransactionClient) => {
+  const memberships = await (tx ?? prisma).projectMember.findMany({
+    where: { userId },
+    select: { projectId: true, project: { select: { isArchived: true } } }
+  });
+  const projects = new Map(memberships.map(({ projectId, project }) => [projectId, project]));
+
+  return (projectId: unknown): { status: number; message: string } | null => {
+    if (typeof projectId !== 'number' || !Number.isInteger(projectId)) {
+      return null;
+    }
+
+    const project = projects.get(projectId);
+
+    if (!project) {
+      return { status: 403, message: 'You are not authorized to add tasks to this project' };
+    }
+
+    return project.isArchived ? { status: 422, message: 'Project is archived' } : null;
+  };
+};
@@ -0,0 +1,149 @@
+// Counters for rate limits and login lockouts. The in-memory store only sees requests
+// handled by this process; multi-instance deployments swap in a store backed by a shared
+// service (Redis INCR/PEXPIRE, GET, SET PX and DEL map onto it) with `setRateLimitStore`.
+export interface RateLimitStore {
+  // Adds one to the key and returns the new count. The key expires `windowMs` after the
+  // increment that created it.
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+  get(key: string): Promise<number | null>;
+  set(key: string, value: number, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Expired entries are dropped when read and swept every so many writes, so keys from
+// one-off clients do not pile up.
+const SWEEP_EVERY_WRITES = 1000;
+
+export const createInMemoryRateLimitStore = (): RateLimitStore => {
+  const entries = new Map<string, { value: number; expiresAt: number }>();
+  let writes = 0;
+
+  const live = (key: string, now = Date.now()) => {
+    const entry = entries.get(key);
+
+    if (entry && entry.expiresAt <= now) {
+      entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  };
+
+  const write = (key: string, value: number, expiresAt: number) => {
+    entries.set(key, { value, expiresAt });
+
+    if (++writes % SWEEP_EVERY_WRITES === 0) {
+      const now = Date.now();
+      entries.forEach((entry, entryKey) => {
+        if (entry.expiresAt <= now) {
+          entries.delete(entryKey);
+        }
+      });
+    }
+  };
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      const entry = live(key, now);
+      const count = (entry?.value ?? 0) + 1;
+      const resetAt = entry?.expiresAt ?? now + windowMs;
+
+      write(key, count, resetAt);
+      return { count, resetAt };
+    },
+    async get(key) {
+      return live(key)?.value ?? null;
+    },
+    async set(key, value, ttlMs) {
+      write(key, value, Date.now() + ttlMs);
+    },
+    async delete(key) {
+      entries.delete(key);
+    }
+  };
+};
+
+let store: RateLimitStore = createInMemoryRateLimitStore();
+
+export const getRateLimitStore = () => store;
+
+export const setRateLimitStore = (next: RateLimitStore) => {
+  store = next;
+};
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+const WINDOW_UNITS_MS = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+// Limits are written as `<requests>/<window>`, e.g. `10/15m`, `100/1h` or `5/30s`.
+export const parseRateLimit = (value: string): RateLimit => {
+  const match = /^(\d+)\/(\d+)([smh])$/.exec(value.trim());
+
+  if (!match) {
+    throw new Error(`Invalid rate limit "${value}"; expected a value such as 10/15m`);
+  }
+
+  return {
+    limit: parseInt(match[1]),
+    windowMs: parseInt(match[2]) * WINDOW_UNITS_MS[match[3] as keyof typeof WINDOW_UNITS_MS]
+  };
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+export const consumeRateLimit = async (key: string, { limit, windowMs }: RateLimit): Promise<RateLimitResult> => {
+  const { count, resetAt } = await store.increment(`rate:${key}`, windowMs);
+
+  return { allowed: count <= limit, limit, remaining: Math.max(limit - count, 0), resetAt };
+};
+
+export const LOGIN_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5');
+export const LOGIN_LOCKOUT_BASE_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_BASE_SECONDS || '30');
+export const LOGIN_LOCKOUT_MAX_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_MAX_SECONDS || '3600');
+
+// Failures are forgotten a day after the first one, or on a successful login.
+const LOGIN_FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const failuresKey = (email: string) => `login-failures:${email.toLowerCase()}`;
+const lockKey = (email: string) => `login-lock:${email.toLowerCase()}`;
+
+// Each failure past the threshold doubles the lock, up to the maximum.
+export const lockoutSeconds = (failures: number) => {
+  if (failures < LOGIN_LOCKOUT_THRESHOLD) {
+    return 0;
+  }
+
+  return Math.min(LOGIN_LOCKOUT_BASE_SECONDS * 2 ** (failures - LOGIN_LOCKOUT_THRESHOLD), LOGIN_LOCKOUT_MAX_SECONDS);
+};
+
+// Seconds until the account can try again, or 0 when it is not locked. Accounts are keyed
+// by the submitted email whether or not it exists, so lockouts do not reveal which do.
+export const loginLockRemaining = async (email: string) => {
+  const lockedUntil = await store.get(lockKey(email));
+  return lockedUntil ? Math.max(Math.ceil((lockedUntil - Date.now()) / 1000), 0) : 0;
+};
+
+// Returns the length of the lock the failure triggered, in seconds.
+export const recordLoginFailure = async (email: string) => {
+  const { count } = await store.increment(failuresKey(email), LOGIN_FAILURE_WINDOW_MS);
+  const seconds = lockoutSeconds(count);
+
+  if (seconds > 0) {
+    await store.set(lockKey(email), Date.now() + seconds * 1000, seconds * 1000);
+  }
+
+  return seconds;
+};
+
+export const clearLoginFailures = async (email: string) => {
+  await Promise.all([store.delete(failuresKey(email)), store.delete(lockKey(email))]);
+};
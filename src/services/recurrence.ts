@@ -0,0 +1,385 @@
+// Recurrence rules for repeating tasks: the daily, weekly and monthly subset of the
+// iCalendar RRULE (RFC 5545 section 3.3.10) with INTERVAL, BYDAY, BYMONTHDAY, UNTIL and
+// COUNT. Occurrences are worked out on the wall clock of the rule's time zone, so a task
+// due Mondays at 09:00 in Europe/Berlin stays at 09:00 across daylight saving changes.
+// Nothing here reads the clock; callers pass the times they compare against.
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface LocalDateTime extends LocalDate {
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+export interface ByDay {
+  weekday: Weekday;
+  // The nth weekday of the month, counted from the end when negative. Monthly rules only.
+  ordinal: number | null;
+}
+
+// UNTIL is either a UTC time or a date, which includes that whole day in the rule's zone.
+export type RecurrenceUntil = { at: Date; date?: undefined } | { date: LocalDate; at?: undefined };
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: ByDay[];
+  byMonthDay: number[];
+  until: RecurrenceUntil | null;
+  count: number | null;
+}
+
+export interface RecurrenceSchedule {
+  rule: RecurrenceRule;
+  // DTSTART: the first occurrence, which also gives the time of day of every other one.
+  startAt: Date;
+  timeZone: string;
+}
+
+const MAX_INTERVAL = 1000;
+const MAX_COUNT = 1000;
+
+// Ends the search for a rule that can never match again, such as the 30th of February.
+const MAX_EMPTY_PERIODS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL', 'COUNT'];
+
+const integer = (value: string, name: string, min: number, max: number) => {
+  const number = /^[+-]?\d+$/.test(value) ? parseInt(value) : NaN;
+
+  if (!(number >= min && number <= max)) {
+    throw new Error(`${name} must be a whole number from ${min} to ${max}`);
+  }
+
+  return number;
+};
+
+const parseByDay = (value: string, freq: RecurrenceFrequency): ByDay[] => value.split(',').map(item => {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(item);
+
+  if (!match) {
+    throw new Error(`BYDAY has an invalid day "${item}"`);
+  }
+
+  if (match[1] && freq !== 'MONTHLY') {
+    throw new Error('BYDAY positions such as 1MO or -1FR are only allowed in monthly rules');
+  }
+
+  const ordinal = match[1] ? parseInt(match[1]) : null;
+
+  if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+    throw new Error('BYDAY positions must be from 1 to 5 or from -5 to -1');
+  }
+
+  return { weekday: match[2] as Weekday, ordinal };
+});
+
+const parseByMonthDay = (value: string): number[] => value.split(',').map(item => {
+  const day = integer(item, 'BYMONTHDAY', -31, 31);
+
+  if (day === 0) {
+    throw new Error('BYMONTHDAY must not be 0');
+  }
+
+  return day;
+});
+
+const parseUntil = (value: string): RecurrenceUntil => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  const [year, month, day, hour, minute, second] = (match ?? []).slice(1).map(part => (part ? parseInt(part) : 0));
+  const at = match ? new Date(Date.UTC(year, month - 1, day, hour, minute, second)) : null;
+
+  // Date.UTC rolls 20250231 over into March, so a date that changes on the way is invalid.
+  if (!at || at.getUTCMonth() !== month - 1 || at.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+    throw new Error('UNTIL must be a date (YYYYMMDD) or a UTC time (YYYYMMDDTHHMMSSZ)');
+  }
+
+  return match![4] ? { at } : { date: { year, month, day } };
+};
+
+// Parses rule text such as `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE` (an `RRULE:` prefix is
+// allowed). Throws with a message fit for the client when the rule is invalid or uses a
+// part outside the supported subset.
+export const parseRecurrenceRule = (text: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+
+  for (const part of text.trim().toUpperCase().replace(/^RRULE:/, '').split(';')) {
+    const [name, value, ...rest] = part.split('=');
+
+    if (!name || !value || rest.length > 0) {
+      throw new Error(`Invalid rule part "${part}"; expected NAME=VALUE`);
+    }
+
+    if (!SUPPORTED_PARTS.includes(name)) {
+      throw new Error(`${name} is not supported; use ${SUPPORTED_PARTS.join(', ')}`);
+    }
+
+    if (parts.has(name)) {
+      throw new Error(`${name} is given more than once`);
+    }
+
+    parts.set(name, value);
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+
+  if (!freq || !RECURRENCE_FREQUENCIES.includes(freq)) {
+    throw new Error(`FREQ must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`);
+  }
+
+  if (parts.has('BYMONTHDAY') && freq !== 'MONTHLY') {
+    throw new Error('BYMONTHDAY is only allowed in monthly rules');
+  }
+
+  if (parts.has('UNTIL') && parts.has('COUNT')) {
+    throw new Error('UNTIL and COUNT cannot be combined');
+  }
+
+  return {
+    freq,
+    interval: parts.has('INTERVAL') ? integer(parts.get('INTERVAL')!, 'INTERVAL', 1, MAX_INTERVAL) : 1,
+    byDay: parts.has('BYDAY') ? parseByDay(parts.get('BYDAY')!, freq) : [],
+    byMonthDay: parts.has('BYMONTHDAY') ? parseByMonthDay(parts.get('BYMONTHDAY')!) : [],
+    until: parts.has('UNTIL') ? parseUntil(parts.get('UNTIL')!) : null,
+    count: parts.has('COUNT') ? integer(parts.get('COUNT')!, 'COUNT', 1, MAX_COUNT) : null
+  };
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatUntil = (until: RecurrenceUntil) => {
+  if (until.date) {
+    return `${pad(until.date.year, 4)}${pad(until.date.month)}${pad(until.date.day)}`;
+  }
+
+  return until.at!.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// The canonical text of a rule, which is what gets stored.
+export const formatRecurrenceRule = (rule: RecurrenceRule) => [
+  `FREQ=${rule.freq}`,
+  ...(rule.interval !== 1 ? [`INTERVAL=${rule.interval}`] : []),
+  ...(rule.byDay.length > 0 ? [`BYDAY=${rule.byDay.map(({ weekday, ordinal }) => `${ordinal ?? ''}${weekday}`).join(',')}`] : []),
+  ...(rule.byMonthDay.length > 0 ? [`BYMONTHDAY=${rule.byMonthDay.join(',')}`] : []),
+  ...(rule.until ? [`UNTIL=${formatUntil(rule.until)}`] : []),
+  ...(rule.count !== null ? [`COUNT=${rule.count}`] : [])
+].join(';');
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The wall clock reading in the time zone at the given instant.
+export const toZonedTime = (date: Date, timeZone: string): LocalDateTime => {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(date)
+    .filter(part => part.type !== 'literal')
+    .map(part => [part.type, parseInt(part.value)]));
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds()
+  };
+};
+
+const wallClockMs = (local: LocalDateTime) =>
+  Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second, local.millisecond);
+
+// Offset from UTC in milliseconds at the given instant.
+const offsetAt = (ms: number, timeZone: string) => wallClockMs(toZonedTime(new Date(ms), timeZone)) - ms;
+
+// The instant a wall clock time happens in the time zone. A time repeated when the clocks
+// go back resolves to its first occurrence; a time skipped when they go forward is read
+// with the offset from before the change, so 02:30 on the night clocks jump from 02:00 to
+// 03:00 becomes 03:30. This is how RFC 5545 resolves both cases.
+export const fromZonedTime = (local: LocalDateTime, timeZone: string): Date => {
+  const wall = wallClockMs(local);
+  const before = offsetAt(wall - DAY_MS, timeZone);
+  const after = offsetAt(wall + DAY_MS, timeZone);
+  const valid = [wall - before, wall - after].filter(ms => offsetAt(ms, timeZone) === wall - ms);
+
+  return new Date(valid.length > 0 ? Math.min(...valid) : wall - before);
+};
+
+// Calendar arithmetic on local dates goes through UTC midnights, which have no DST.
+const dateMs = (date: LocalDate) => Date.UTC(date.year, date.month - 1, date.day);
+
+const toLocalDate = (ms: number): LocalDate => {
+  const date = new Date(ms);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const addDays = (date: LocalDate, days: number) => toLocalDate(dateMs(date) + days * DAY_MS);
+
+// Monday is 0, as in WEEKDAYS; weeks start on Monday (the RRULE default WKST).
+const weekdayOf = (date: LocalDate) => (new Date(dateMs(date)).getUTCDay() + 6) % 7;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const dailyDates = (rule: RecurrenceRule, start: LocalDate, period: number) => {
+  const date = addDays(start, period * rule.interval);
+  const weekdays = rule.byDay.map(({ weekday }) => WEEKDAYS.indexOf(weekday));
+
+  return weekdays.length === 0 || weekdays.includes(weekdayOf(date)) ? [date] : [];
+};
+
+const weeklyDates = (rule: RecurrenceRule, start: LocalDate, period: number) => {
+  const monday = addDays(start, period * rule.interval * 7 - weekdayOf(start));
+  const weekdays = rule.byDay.length > 0
+    ? rule.byDay.map(({ weekday }) => WEEKDAYS.indexOf(weekday))
+    : [weekdayOf(start)];
+
+  return weekdays.map(weekday => addDays(monday, weekday));
+};
+
+const monthlyDates = (rule: RecurrenceRule, start: LocalDate, period: number) => {
+  const months = start.year * 12 + start.month - 1 + period * rule.interval;
+  const year = Math.floor(months / 12);
+  const month = months % 12 + 1;
+  const length = daysInMonth(year, month);
+  const days = Array.from({ length }, (_, index) => index + 1);
+
+  const byMonthDay = rule.byMonthDay.map(day => (day > 0 ? day : length + day + 1));
+  const byDay = days.filter(day => rule.byDay.some(({ weekday, ordinal }) => {
+    const date = { year, month, day };
+
+    if (weekdayOf(date) !== WEEKDAYS.indexOf(weekday)) {
+      return false;
+    }
+
+    if (ordinal === null) {
+      return true;
+    }
+
+    // Counted in whole weeks from the start or the end of the month.
+    return ordinal > 0 ? Math.ceil(day / 7) === ordinal : Math.ceil((length - day + 1) / 7) === -ordinal;
+  }));
+
+  // BYDAY narrows BYMONTHDAY when both are given, e.g. every Friday the 13th.
+  const matches = days.filter(day => {
+    if (rule.byMonthDay.length > 0 && !byMonthDay.includes(day)) {
+      return false;
+    }
+
+    if (rule.byDay.length > 0 && !byDay.includes(day)) {
+      return false;
+    }
+
+    return rule.byMonthDay.length > 0 || rule.byDay.length > 0 || day === start.day;
+  });
+
+  return matches.map(day => ({ year, month, day }));
+};
+
+const DATES_BY_FREQUENCY = { DAILY: dailyDates, WEEKLY: weeklyDates, MONTHLY: monthlyDates };
+
+const isPastUntil = (until: RecurrenceUntil, at: Date, date: LocalDate) =>
+  (until.at ? at > until.at : dateMs(date) > dateMs(until.date!));
+
+// Every occurrence of the schedule in order, starting with DTSTART, which counts as the
+// first occurrence whether or not it matches the rule (as in RFC 5545). Infinite for rules
+// without UNTIL or COUNT, so callers stop iterating themselves.
+export function* recurrenceOccurrences({ rule, startAt, timeZone }: RecurrenceSchedule): Generator<Date> {
+  const start = toZonedTime(startAt, timeZone);
+  const datesFor = DATES_BY_FREQUENCY[rule.freq];
+  let emitted = 1;
+  let emptyPeriods = 0;
+
+  yield startAt;
+
+  for (let period = 0; emptyPeriods < MAX_EMPTY_PERIODS; period++) {
+    const dates = datesFor(rule, start, period)
+      .filter(date => dateMs(date) > dateMs(start))
+      .sort((a, b) => dateMs(a) - dateMs(b));
+
+    emptyPeriods = dates.length > 0 ? 0 : emptyPeriods + 1;
+
+    for (const date of dates) {
+      if (rule.count !== null && emitted >= rule.count) {
+        return;
+      }
+
+      const at = fromZonedTime({ ...start, ...date }, timeZone);
+
+      if (rule.until && isPastUntil(rule.until, at, date)) {
+        return;
+      }
+
+      emitted++;
+      yield at;
+    }
+  }
+}
+
+// The first occurrence after `after`, or null once the rule has ended.
+export const nextOccurrence = (schedule: RecurrenceSchedule, after: Date): Date | null => {
+  for (const at of recurrenceOccurrences(schedule)) {
+    if (at > after) {
+      return at;
+    }
+  }
+
+  return null;
+};
+
+// Occurrences after `after` up to and including `until`, at most `limit` of them.
+export const occurrencesBetween = (schedule: RecurrenceSchedule, after: Date, until: Date, limit: number): Date[] => {
+  const occurrences: Date[] = [];
+
+  for (const at of recurrenceOccurrences(schedule)) {
+    if (at > until || occurrences.length >= limit) {
+      break;
+    }
+
+    if (at > after) {
+      occurrences.push(at);
+    }
+  }
+
+  return occurrences;
+};
@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma } from '@prisma/client';
+
+interface RequestContext {
+  userId: number;
+}
+
+export interface CommitTracker {
+  committed: boolean;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+const transactions = new AsyncLocalStorage<Prisma.TransactionClient>();
+const commitTrackers = new AsyncLocalStorage<CommitTracker>();
+
+// Makes the authenticated user visible to code that has no access to the request,
+// such as Prisma client extensions.
+export const runWithActor = <T>(userId: number, fn: () => T): T => storage.run({ userId }, fn);
+
+export const currentActorId = (): number | null => storage.getStore()?.userId ?? null;
+
+// Client extensions run their own queries on the root client, outside any interactive
+// transaction. Code that opens one registers it here so extensions can join it and
+// commit or roll back together with the caller's writes.
+export const runInTransaction = <T>(tx: Prisma.TransactionClient, fn: () => T): T => transactions.run(tx, fn);
+
+export const currentTransaction = (): Prisma.TransactionClient | undefined => transactions.getStore();
+
+// Records in `tracker` whether `fn` commits any write, so that code wrapping a handler can
+// tell a request that failed before writing anything from one that failed after.
+export const trackCommits = <T>(tracker: CommitTracker, fn: () => T): T => commitTrackers.run(tracker, fn);
+
+export const recordCommit = () => {
+  const tracker = commitTrackers.getStore();
+
+  if (tracker) {
+    tracker.committed = true;
+  }
+};
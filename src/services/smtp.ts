@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465). Otherwise STARTTLS is used when
+  // the server offers it, and is required when `user` is set.
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+
+// Header values must not carry line breaks, which would let them add headers of their own.
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+const encodeHeader = (value: string) => (/^[\x20-\x7e]*$/.test(value)
+  ? value
+  : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`);
+
+const address = (value: string) => headerValue(value).replace(/[<>]/g, '');
+
+// RFC 5322 message with a base64 body, so any text is safe regardless of 8BITMIME support.
+export const formatMessage = (message: SmtpMessage, now = new Date()) => {
+  const domain = address(message.from).split('@')[1] ?? os.hostname();
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${address(message.from)}`,
+    `To: ${address(message.to)}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+};
+
+// Reads SMTP replies off the socket one at a time; multi-line replies (`250-...`) are
+// collected until the final line (`250 ...`).
+const createReplyReader = (socket: net.Socket) => {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  const waiting: { resolve: (reply: Reply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf-8');
+    let newline;
+
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      lines.push(line.slice(4));
+
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), lines };
+        lines = [];
+        const waiter = waiting.shift();
+        waiter ? waiter.resolve(reply) : replies.push(reply);
+      }
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach(waiter => waiter.reject(error));
+  };
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', () => onError(failure ?? new Error('SMTP connection closed')));
+
+  return {
+    next: () => new Promise<Reply>((resolve, reject) => {
+      const reply = replies.shift();
+
+      if (reply) {
+        resolve(reply);
+      } else if (failure) {
+        reject(failure);
+      } else {
+        waiting.push({ resolve, reject });
+      }
+    }),
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.removeAllListeners('close');
+    }
+  };
+};
+
+// An idle connection, including one stuck in its TCP or TLS handshake, is closed with an error.
+const closeWhenIdle = (socket: net.Socket, options: SmtpOptions) => {
+  socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+};
+
+const connect = (options: SmtpOptions) => new Promise<net.Socket>((resolve, reject) => {
+  const socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+    : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+
+  closeWhenIdle(socket, options);
+  socket.once('error', reject);
+});
+
+const upgrade = (socket: net.Socket, options: SmtpOptions) => new Promise<net.Socket>((resolve, reject) => {
+  const secure = tls.connect({ socket, servername: options.host }, () => resolve(secure));
+  closeWhenIdle(secure, options);
+  secure.once('error', reject);
+});
+
+// Sends one message over a fresh connection. Throws with the server's reply when a
+// command is refused. Credentials are only sent over TLS: when they are configured and the
+// server does not offer STARTTLS, nothing is sent.
+export const sendSmtpMail = async (options: SmtpOptions, message: SmtpMessage) => {
+  let socket = await connect(options);
+  let encrypted = options.secure;
+  let reader = createReplyReader(socket);
+
+  const expect = async (codes: number[], command?: string) => {
+    if (command !== undefined) {
+      socket.write(`${command}\r\n`);
+    }
+
+    const reply = await reader.next();
+
+    if (!codes.includes(reply.code)) {
+      const sent = command?.startsWith('AUTH') ? 'AUTH' : command;
+      throw new Error(`SMTP ${sent ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+
+    return reply;
+  };
+
+  try {
+    await expect([220]);
+    const hello = await expect([250], `EHLO ${os.hostname()}`);
+
+    if (!options.secure && hello.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await expect([220], 'STARTTLS');
+      reader.detach();
+      socket = await upgrade(socket, options);
+      encrypted = true;
+      reader = createReplyReader(socket);
+      await expect([250], `EHLO ${os.hostname()}`);
+    }
+
+    if (options.user && !encrypted) {
+      throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials in plain text');
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ''}`, 'utf-8').toString('base64');
+      await expect([235], `AUTH PLAIN ${credentials}`);
+    }
+
+    await expect([250], `MAIL FROM:<${address(message.from)}>`);
+    await expect([250, 251], `RCPT TO:<${address(message.to)}>`);
+    await expect([354], 'DATA');
+
+    // Lines starting with a dot are escaped by doubling it (RFC 5321 section 4.5.2).
+    const data = formatMessage(message).replace(/^\./gm, '..');
+    await expect([250], `${data}\r\n.`);
+    await expect([221], 'QUIT');
+  } finally {
+    socket.destroy();
+  }
+};
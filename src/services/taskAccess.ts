@@ -0,0 +1,134 @@
+import { CollaboratorRole, Prisma, ProjectRole, Task } from '@prisma/client';
+import prisma from './prisma';
+import { getProjectRole } from './projectAccess';
+
+export type TaskRole = 'OWNER' | CollaboratorRole;
+export type TaskPermission = 'view' | 'edit' | 'manage';
+
+const ROLE_PERMISSIONS: Record<TaskRole, TaskPermission[]> = {
+  OWNER: ['view', 'edit', 'manage'],
+  EDITOR: ['view', 'edit'],
+  VIEWER: ['view']
+};
+
+// Lowest to highest; a user holding several roles gets the strongest one.
+const ROLE_RANK: TaskRole[] = ['VIEWER', 'EDITOR', 'OWNER'];
+
+// Project admins manage every task in the project; plain members can edit them.
+const PROJECT_TASK_ROLES: Record<ProjectRole, TaskRole> = {
+  OWNER: 'OWNER',
+  ADMIN: 'OWNER',
+  MEMBER: 'EDITOR'
+};
+
+export type TaskLookup =
+  | { task: Task; role: TaskRole; error?: undefined }
+  | { task?: undefined; role?: undefined; error: { status: number; message: string } };
+
+const strongestRole = (
+  task: Task,
+  userId: number,
+  collaboratorRole: CollaboratorRole | undefined,
+  projectRole: ProjectRole | null | undefined
+): TaskRole | null => {
+  if (task.userId === userId) {
+    return 'OWNER';
+  }
+
+  const roles = [collaboratorRole, projectRole && PROJECT_TASK_ROLES[projectRole]]
+    .filter((role): role is TaskRole => !!role);
+
+  if (roles.length === 0) {
+    return null;
+  }
+
+  return roles.reduce((best, role) => (ROLE_RANK.indexOf(role) > ROLE_RANK.indexOf(best) ? role : best));
+};
+
+export const hasTaskPermission = (role: TaskRole | null | undefined, permission: TaskPermission): role is TaskRole =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// What a task's assignee may change without edit permission: moving it through the workflow.
+const ASSIGNEE_FIELDS = ['status', 'resolution'];
+
+// Whether `userId` may make an update touching `fields`. Editors may change anything; an
+// assignee who can only view the task may still change its status.
+export const canUpdateTask = (task: Task, role: TaskRole | null | undefined, userId: number, fields: string[]) =>
+  hasTaskPermission(role, 'edit')
+  || (hasTaskPermission(role, 'view') && task.assigneeId === userId
+    && fields.every(field => ASSIGNEE_FIELDS.includes(field)));
+
+export const getTaskRole = async (task: Task, userId: number): Promise<TaskRole | null> => {
+  if (task.userId === userId) {
+    return 'OWNER';
+  }
+
+  const [collaborator, projectRole] = await Promise.all([
+    prisma.taskCollaborator.findUnique({
+      where: { taskId_userId: { taskId: task.id, userId } }
+    }),
+    task.projectId ? getProjectRole(task.projectId, userId) : null
+  ]);
+
+  return strongestRole(task, userId, collaborator?.role, projectRole);
+};
+
+// Roles for many tasks at once, with a fixed number of queries. Pass `tx` to read inside a
+// transaction.
+export const getTaskRoles = async (
+  tasks: Task[],
+  userId: number,
+  tx?: Prisma.TransactionClient
+): Promise<Map<number, TaskRole | null>> => {
+  const db = tx ?? prisma;
+  const projectIds = [...new Set(tasks.map(task => task.projectId).filter((id): id is number => id !== null))];
+
+  const [collaborations, memberships] = await Promise.all([
+    db.taskCollaborator.findMany({
+      where: { userId, taskId: { in: tasks.map(task => task.id) } },
+      select: { taskId: true, role: true }
+    }),
+    projectIds.length > 0
+      ? db.projectMember.findMany({
+        where: { userId, projectId: { in: projectIds } },
+        select: { projectId: true, role: true }
+      })
+      : []
+  ]);
+
+  const collaboratorRoles = new Map(collaborations.map(({ taskId, role }) => [taskId, role]));
+  const projectRoles = new Map(memberships.map(({ projectId, role }) => [projectId, role]));
+
+  return new Map(tasks.map(task => [
+    task.id,
+    strongestRole(task, userId, collaboratorRoles.get(task.id), task.projectId ? projectRoles.get(task.projectId) : null)
+  ]));
+};
+
+// Shared 404/403 checks for routes addressing a single task. Soft-deleted tasks are
+// treated as missing unless the caller explicitly asks for them (e.g. restore).
+export const findAuthorizedTask = async (
+  taskIdParam: string,
+  userId: number,
+  permission: TaskPermission,
+  action: string,
+  { includeDeleted = false } = {}
+): Promise<TaskLookup> => {
+  const taskId = parseInt(taskIdParam);
+
+  const task = Number.isNaN(taskId) ? null : await prisma.task.findUnique({
+    where: { id: taskId }
+  });
+
+  if (!task || (task.deletedAt && !includeDeleted)) {
+    return { error: { status: 404, message: 'Task not found' } };
+  }
+
+  const role = await getTaskRole(task, userId);
+
+  if (!hasTaskPermission(role, permission)) {
+    return { error: { status: 403, message: `You are not authorized to ${action} this task` } };
+  }
+
+  return { task, role };
+};
@@ -0,0 +1,376 @@
+import { z } from 'zod';
+import { Prisma, Task, TaskStatus } from '@prisma/client';
+import { TASK_BULK_LIMIT, TaskBulkOperation, TaskBulkRequest, taskSchema, taskUpdateSchema } from '../models/Task';
+import { runAfterCommit, withTransaction } from './prisma';
+import { findAuthorizedProject, loadProjectAssignmentCheck } from './projectAccess';
+import { canUpdateTask, getTaskRoles, hasTaskPermission, TaskPermission } from './taskAccess';
+import { publishTaskChanges, TaskChange } from './taskEvents';
+import { notifyTaskChanged } from './taskNotifications';
+import { buildTaskWhere, taskInclude, TaskWithLabels, toTaskResponse } from './taskQuery';
+import { createNextOccurrence } from './taskRecurrence';
+import { findOpenBlockersByTask, openBlockersError } from './taskRelations';
+import { enqueueTaskChanges } from './webhooks';
+import { applyInitialStatus, applyTransition, isTaskStatus } from './workflow';
+
+const TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+// The fields `createTask` and `updateTask` accept from clients, except labels, the assignee
+// and recurrence, which the request schema rejects: they go through the single-task endpoints.
+const TASK_INPUT_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueAt',
+  'estimateMinutes',
+  'isArchived',
+  'projectId',
+  'resolution'
+] as const;
+
+type BulkOp = TaskBulkOperation['op'];
+
+interface ItemFailure {
+  status: number;
+  message: string;
+  errors?: { field: string; message: string; code: string }[];
+}
+
+export interface BulkItemResult {
+  index: number;
+  op: BulkOp;
+  id?: number;
+  status: number;
+  task?: ReturnType<typeof toTaskResponse>;
+  error?: Omit<ItemFailure, 'status'>;
+}
+
+interface CreatePlan {
+  index: number;
+  data: z.output<typeof taskSchema>;
+}
+
+interface UpdatePlan {
+  index: number;
+  op: Exclude<BulkOp, 'create'>;
+  task: Task;
+  data: z.output<typeof taskUpdateSchema>;
+}
+
+export type BulkOutcome =
+  | { applied: boolean; results: BulkItemResult[]; error?: undefined }
+  | { applied?: undefined; results?: undefined; error: { status: number; message: string } };
+
+const OP_PERMISSIONS: Record<Exclude<BulkOp, 'create'>, [TaskPermission, string]> = {
+  update: ['edit', 'update'],
+  archive: ['edit', 'update'],
+  delete: ['manage', 'delete']
+};
+
+const pickTaskInput = (data: Record<string, unknown>) =>
+  Object.fromEntries(TASK_INPUT_FIELDS.filter(field => field in data).map(field => [field, data[field]]));
+
+const failure = (status: number, message: string): ItemFailure => ({ status, message });
+
+const validationFailure = (error: z.ZodError): ItemFailure => ({
+  status: 422,
+  message: 'Validation failed',
+  errors: error.issues.map(issue => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+    code: issue.code
+  }))
+});
+
+// Resolves a filter to update operations, the same tasks `GET /api/tasks` would list.
+const expandFilter = async (tx: Prisma.TransactionClient, userId: number, request: TaskBulkRequest) => {
+  const { filter, patch } = request;
+
+  if (filter!.projectId) {
+    const { error } = await findAuthorizedProject(filter!.projectId, userId, 'view', 'view');
+
+    if (error) {
+      return { error };
+    }
+  }
+
+  const tasks = await tx.task.findMany({
+    where: buildTaskWhere(userId, filter!),
+    orderBy: { id: 'asc' },
+    take: TASK_BULK_LIMIT + 1
+  });
+
+  if (tasks.length > TASK_BULK_LIMIT) {
+    return { error: { status: 422, message: `Filter matches more than ${TASK_BULK_LIMIT} tasks` } };
+  }
+
+  const operations: TaskBulkOperation[] = tasks.map(task => ({ op: 'update', id: task.id, data: patch! }));
+
+  return { operations };
+};
+
+interface BulkApplication {
+  outcome: BulkOutcome;
+  changes: TaskChange[];
+  // Updated tasks that were just completed, for their next occurrence.
+  completed: TaskWithLabels[];
+}
+
+// Locks the tasks in id order, so concurrent batches touching the same tasks wait for each
+// other instead of deadlocking.
+const lockTasks = async (tx: Prisma.TransactionClient, ids: number[]) => {
+  if (ids.length > 0) {
+    await tx.$queryRaw`SELECT id FROM "Task" WHERE id IN (${Prisma.join(ids)}) ORDER BY id FOR UPDATE`;
+  }
+};
+
+const applyBulkOperations = async (
+  tx: Prisma.TransactionClient,
+  userId: number,
+  request: TaskBulkRequest,
+  now: Date
+): Promise<BulkApplication> => {
+  let operations = request.operations ?? [];
+
+  if (request.filter) {
+    const expanded = await expandFilter(tx, userId, request);
+
+    if (expanded.error) {
+      return { outcome: { error: expanded.error }, changes: [], completed: [] };
+    }
+
+    ({ operations } = expanded);
+  }
+
+  const ids = operations.flatMap(operation => (operation.op === 'create' ? [] : [operation.id]));
+  await lockTasks(tx, ids);
+
+  const tasks = await tx.task.findMany({ where: { id: { in: ids }, deletedAt: null } });
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+
+  const inputs = operations.map(operation => ('data' in operation ? pickTaskInput(operation.data) : {}));
+  const referencesProject = inputs.some(input => input.projectId !== undefined && input.projectId !== null);
+
+  const [roles, checkProject] = await Promise.all([
+    getTaskRoles(tasks, userId, tx),
+    referencesProject ? loadProjectAssignmentCheck(userId, tx) : () => null
+  ]);
+
+  const failures = new Map<number, ItemFailure>();
+  const creates: CreatePlan[] = [];
+  const updates: UpdatePlan[] = [];
+  const seen = new Set<number>();
+
+  operations.forEach((operation, index) => {
+    const input = inputs[index];
+
+    try {
+      if (operation.op === 'create') {
+        const projectFailure = checkProject(input.projectId);
+
+        if (projectFailure) {
+          failures.set(index, projectFailure);
+          return;
+        }
+
+        const status = isTaskStatus(input.status) ? input.status : TaskStatus.TODO;
+        creates.push({
+          index,
+          data: taskSchema.parse({ ...input, ...applyInitialStatus(status, input, { now }), userId })
+        });
+        return;
+      }
+
+      const task = tasksById.get(operation.id);
+
+      if (!task) {
+        failures.set(index, failure(404, 'Task not found'));
+        return;
+      }
+
+      if (seen.has(task.id)) {
+        failures.set(index, failure(409, 'Task appears more than once in this request'));
+        return;
+      }
+      seen.add(task.id);
+
+      const role = roles.get(task.id);
+      const [permission, action] = OP_PERMISSIONS[operation.op];
+
+      const permitted = operation.op === 'update'
+        ? canUpdateTask(task, role, userId, Object.keys(input))
+        : hasTaskPermission(role, permission);
+
+      if (!permitted) {
+        failures.set(index, failure(403, `You are not authorized to ${action} this task`));
+        return;
+      }
+
+      if (operation.op === 'archive') {
+        updates.push({ index, op: operation.op, task, data: { isArchived: true } });
+        return;
+      }
+
+      if (operation.op === 'delete') {
+        updates.push({ index, op: operation.op, task, data: { deletedAt: now } });
+        return;
+      }
+
+      if (input.projectId !== undefined && input.projectId !== task.projectId) {
+        const projectFailure = role !== 'OWNER'
+          ? failure(403, 'You are not authorized to move this task')
+          : checkProject(input.projectId);
+
+        if (projectFailure) {
+          failures.set(index, projectFailure);
+          return;
+        }
+      }
+
+      const transition = isTaskStatus(input.status) && input.status !== task.status
+        ? applyTransition(task, input.status, input, { now })
+        : {};
+
+      updates.push({ index, op: operation.op, task, data: taskUpdateSchema.parse({ ...input, ...transition }) });
+    } catch (error) {
+      if (!(error instanceof z.ZodError)) {
+        throw error;
+      }
+
+      failures.set(index, validationFailure(error));
+    }
+  });
+
+  const completing = updates.filter(plan => plan.data.status === TaskStatus.DONE && plan.task.status !== TaskStatus.DONE);
+  const blockers = completing.length > 0
+    ? await findOpenBlockersByTask(completing.map(plan => plan.task.id), tx)
+    : new Map<number, number[]>();
+
+  completing.forEach(plan => {
+    const blockerIds = blockers.get(plan.task.id);
+
+    if (blockerIds) {
+      failures.set(plan.index, validationFailure(openBlockersError(blockerIds)));
+    }
+  });
+
+  const toResult = (index: number, extra: Omit<BulkItemResult, 'index' | 'op'>): BulkItemResult => ({
+    index,
+    op: operations[index].op,
+    ...extra
+  });
+
+  const failedResult = (index: number) => {
+    const { status, ...error } = failures.get(index)!;
+    const id = operations[index].op === 'create' ? undefined : (operations[index] as { id: number }).id;
+    return toResult(index, { id, status, error });
+  };
+
+  if (request.mode === 'atomic' && failures.size > 0) {
+    const outcome = {
+      applied: false,
+      results: operations.map((operation, index) => (failures.has(index)
+        ? failedResult(index)
+        : toResult(index, {
+          id: operation.op === 'create' ? undefined : operation.id,
+          status: 424,
+          error: { message: 'Not applied because another operation in the batch failed' }
+        })))
+    };
+
+    return { outcome, changes: [], completed: [] };
+  }
+
+  const pendingCreates = creates.filter(plan => !failures.has(plan.index));
+  const pendingUpdates = updates.filter(plan => !failures.has(plan.index));
+
+  const groups = new Map<string, { data: UpdatePlan['data']; ids: number[] }>();
+  pendingUpdates.forEach(plan => {
+    const key = JSON.stringify(plan.data);
+    const group = groups.get(key) ?? { data: plan.data, ids: [] };
+    group.ids.push(plan.task.id);
+    groups.set(key, group);
+  });
+
+  const created = pendingCreates.length > 0
+    ? await tx.task.createManyAndReturn({ data: pendingCreates.map(plan => plan.data) })
+    : [];
+
+  for (const { data, ids: groupIds } of groups.values()) {
+    await tx.task.updateMany({ where: { id: { in: groupIds } }, data });
+  }
+
+  // Rows come back in insertion order.
+  const createdIds = new Map(pendingCreates.map((plan, position) => [plan.index, created[position].id]));
+
+  const changedTasks = await tx.task.findMany({
+    where: { id: { in: [...createdIds.values(), ...pendingUpdates.map(plan => plan.task.id)] } },
+    include: taskInclude
+  });
+  const changedById = new Map(changedTasks.map(task => [task.id, task]));
+
+  const changes: TaskChange[] = [
+    ...pendingCreates.map(plan => {
+      const after = changedById.get(createdIds.get(plan.index)!)!;
+      return { before: null, after, data: toTaskResponse(after) };
+    }),
+    ...pendingUpdates.map(plan => {
+      const after = changedById.get(plan.task.id)!;
+      return { before: plan.task, after, data: plan.op === 'delete' ? { id: after.id } : toTaskResponse(after) };
+    })
+  ];
+
+  await enqueueTaskChanges(tx, changes);
+
+  const completed = pendingUpdates
+    .filter(plan => plan.data.status === TaskStatus.DONE && plan.task.status !== TaskStatus.DONE)
+    .map(plan => changedById.get(plan.task.id)!);
+
+  const updatesByIndex = new Map(pendingUpdates.map(plan => [plan.index, plan]));
+
+  const outcome = {
+    applied: true,
+    results: operations.map((operation, index) => {
+      if (failures.has(index)) {
+        return failedResult(index);
+      }
+
+      if (operation.op === 'create') {
+        const id = createdIds.get(index)!;
+        return toResult(index, { id, status: 201, task: toTaskResponse(changedById.get(id)!) });
+      }
+
+      const plan = updatesByIndex.get(index)!;
+
+      return plan.op === 'delete'
+        ? toResult(index, { id: plan.task.id, status: 204 })
+        : toResult(index, { id: plan.task.id, status: 200, task: toTaskResponse(changedById.get(plan.task.id)!) });
+    })
+  };
+
+  return { outcome, changes, completed };
+};
+
+// Runs a batch of task operations with the same validation and ownership rules as the
+// single-task endpoints. Every check is made up front with a fixed number of queries;
+// writes are then grouped so that items with the same change share one statement.
+// In atomic mode nothing is written unless every item passes. The checks and the writes
+// share one transaction, with the addressed tasks locked, so a task cannot be deleted,
+// moved or re-shared between being checked and being written.
+export const runBulkTaskOperations = async (userId: number, request: TaskBulkRequest): Promise<BulkOutcome> => {
+  const now = new Date();
+  const { outcome, changes, completed } = await withTransaction(
+    tx => applyBulkOperations(tx, userId, request, now),
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  // As in `updateTask`, the participants of each changed task are notified and completed
+  // occurrences of repeating tasks get their next occurrence.
+  await runAfterCommit(
+    () => publishTaskChanges(changes),
+    ...changes.flatMap(({ before, after }) => (before ? [() => notifyTaskChanged(before, after, userId)] : [])),
+    ...completed.map(task => () => createNextOccurrence(task))
+  );
+
+  return outcome;
+};
@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { Task } from '@prisma/client';
+import prisma from './prisma';
+
+export type TaskEventType = 'task.created' | 'task.updated' | 'task.archived' | 'task.deleted' | 'task.restored';
+
+export interface TaskEvent {
+  id: string;
+  type: TaskEventType;
+  // Users who could see the task when the event was published.
+  userIds: number[];
+  task: unknown;
+}
+
+export type TaskEventListener = (event: TaskEvent) => void;
+
+// Transport for task events. The in-process bus only reaches clients connected to the
+// same instance; multi-instance deployments swap in a bus backed by a shared pub/sub
+// service with `setTaskEventBus`.
+export interface TaskEventBus {
+  publish(event: Omit<TaskEvent, 'id'>): Promise<TaskEvent>;
+  subscribe(listener: TaskEventListener): () => void;
+  // Events published after `lastEventId`, oldest first, or null when the bus no longer
+  // knows that id and the client has to reload its state.
+  since(lastEventId: string): Promise<TaskEvent[] | null>;
+}
+
+export const TASK_EVENT_BUFFER_SIZE = parseInt(process.env.TASK_EVENT_BUFFER_SIZE || '1000');
+
+// Keeps the most recent events in memory for `Last-Event-ID` resumption. Ids carry a
+// per-process prefix, so ids from before a restart are reported as unknown rather than
+// being compared with new ones.
+export const createInProcessTaskEventBus = (bufferSize = TASK_EVENT_BUFFER_SIZE): TaskEventBus => {
+  const emitter = new EventEmitter();
+  const prefix = crypto.randomBytes(4).toString('hex');
+  const buffer: TaskEvent[] = [];
+  let sequence = 0;
+
+  emitter.setMaxListeners(0);
+
+  return {
+    async publish(event) {
+      const published = { ...event, id: `${prefix}-${++sequence}` };
+
+      buffer.push(published);
+      if (buffer.length > bufferSize) {
+        buffer.shift();
+      }
+
+      emitter.emit('event', published);
+      return published;
+    },
+    subscribe(listener) {
+      emitter.on('event', listener);
+      return () => {
+        emitter.off('event', listener);
+      };
+    },
+    async since(lastEventId) {
+      const index = buffer.findIndex(event => event.id === lastEventId);
+      return index === -1 ? null : buffer.slice(index + 1);
+    }
+  };
+};
+
+let bus: TaskEventBus = createInProcessTaskEventBus();
+
+export const getTaskEventBus = () => bus;
+
+export const setTaskEventBus = (next: TaskEventBus) => {
+  bus = next;
+};
+
+export const taskEventTypeFor = (before: Task | null, after: Task): TaskEventType => {
+  if (!before) {
+    return 'task.created';
+  }
+
+  if (!before.deletedAt && after.deletedAt) {
+    return 'task.deleted';
+  }
+
+  if (before.deletedAt && !after.deletedAt) {
+    return 'task.restored';
+  }
+
+  if (!before.isArchived && after.isArchived) {
+    return 'task.archived';
+  }
+
+  return 'task.updated';
+};
+
+export interface TaskChange {
+  before: Task | null;
+  after: Task;
+  // The representation sent to stream clients; defaults to the task itself.
+  data?: unknown;
+}
+
+// Everyone who can see each task: its owner, its collaborators and the members of its
+// project. Two queries regardless of the number of tasks.
+export const loadTaskAudiences = async (tasks: Task[]): Promise<Map<number, number[]>> => {
+  const projectIds = [...new Set(tasks.map(task => task.projectId).filter((id): id is number => id !== null))];
+
+  const [collaborators, members] = await Promise.all([
+    prisma.taskCollaborator.findMany({
+      where: { taskId: { in: tasks.map(task => task.id) } },
+      select: { taskId: true, userId: true }
+    }),
+    projectIds.length > 0
+      ? prisma.projectMember.findMany({ where: { projectId: { in: projectIds } }, select: { projectId: true, userId: true } })
+      : []
+  ]);
+
+  return new Map(tasks.map(task => [task.id, [...new Set([
+    task.userId,
+    ...collaborators.filter(collaborator => collaborator.taskId === task.id).map(collaborator => collaborator.userId),
+    ...members.filter(member => member.projectId === task.projectId).map(member => member.userId)
+  ])]]));
+};
+
+export const publishTaskChanges = async (changes: TaskChange[]) => {
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const audiences = await loadTaskAudiences(changes.map(change => change.after));
+
+  return Promise.all(changes.map(({ before, after, data = after }) => bus.publish({
+    type: taskEventTypeFor(before, after),
+    userIds: audiences.get(after.id) ?? [after.userId],
+    task: data
+  })));
+};
+
+export const publishTaskEvent = async (before: Task | null, after: Task, data: unknown = after) => {
+  const [event] = await publishTaskChanges([{ before, after, data }]);
+  return event;
+};
@@ -0,0 +1,121 @@
+import { NotificationType, Task, TaskStatus } from '@prisma/client';
+import { diffTasks } from '../models/TaskActivity';
+import { notify } from './notifications';
+import prisma from './prisma';
+
+// How long before its due date a task's participants are reminded of it.
+export const NOTIFICATION_DUE_SOON_HOURS = parseInt(process.env.NOTIFICATION_DUE_SOON_HOURS || '24');
+
+// Set by the workflow alongside `status`, so they add nothing to a change summary.
+const DERIVED_FIELDS = ['startedAt', 'completedAt'];
+
+const describeActor = async (actorId: number) => {
+  const actor = await prisma.user.findUnique({ where: { id: actorId }, select: { email: true } });
+  return actor?.email ?? 'Someone';
+};
+
+// Owner, assignee and collaborators, each once.
+const participantIds = (task: Task, collaborators: { userId: number }[]) => [...new Set([
+  task.userId,
+  ...(task.assigneeId ? [task.assigneeId] : []),
+  ...collaborators.map(collaborator => collaborator.userId)
+])];
+
+// The people working on a task: its owner, assignee and collaborators. Project members are
+// not notified of every change, as they can follow the task stream or webhooks instead.
+const taskParticipants = async (task: Task) => participantIds(task, await prisma.taskCollaborator.findMany({
+  where: { taskId: task.id },
+  select: { userId: true }
+}));
+
+const summarizeChange = (before: Task, after: Task) => {
+  if (!before.deletedAt && after.deletedAt) {
+    return 'deleted';
+  }
+
+  if (before.deletedAt && !after.deletedAt) {
+    return 'restored';
+  }
+
+  if (before.status !== TaskStatus.DONE && after.status === TaskStatus.DONE) {
+    return 'completed';
+  }
+
+  const fields = Object.keys(diffTasks(before, after)).filter(field => !DERIVED_FIELDS.includes(field));
+  return fields.length > 0 ? `changed ${fields.join(', ')} on` : null;
+};
+
+// Tells the task's other participants that `actorId` changed it. A new assignee is told
+// they were assigned instead.
+export const notifyTaskChanged = async (before: Task, after: Task, actorId: number) => {
+  const summary = summarizeChange(before, after);
+
+  if (!summary) {
+    return [];
+  }
+
+  const [actor, participants] = await Promise.all([describeActor(actorId), taskParticipants(after)]);
+  const newAssigneeId = after.assigneeId !== before.assigneeId ? after.assigneeId : null;
+
+  return notify(participants.map(userId => ({
+    userId,
+    ...(userId === newAssigneeId
+      ? { type: NotificationType.TASK_ASSIGNED, message: `${actor} assigned you to "${after.title}"` }
+      : { type: NotificationType.TASK_UPDATED, message: `${actor} ${summary} "${after.title}"` }),
+    taskId: after.id,
+    actorId
+  })));
+};
+
+export const notifyMentioned = async (task: Task, userIds: number[], actorId: number) => {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const actor = await describeActor(actorId);
+
+  return notify(userIds.map(userId => ({
+    userId,
+    type: NotificationType.TASK_MENTIONED,
+    message: `${actor} mentioned you on "${task.title}"`,
+    taskId: task.id,
+    actorId
+  })));
+};
+
+export const notifyShared = async (task: Task, userId: number, actorId: number) => notify([{
+  userId,
+  type: NotificationType.TASK_SHARED,
+  message: `${await describeActor(actorId)} shared "${task.title}" with you`,
+  taskId: task.id,
+  actorId
+}]);
+
+const formatDueAt = (dueAt: Date) => `${dueAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+// Reminds participants of open tasks due within NOTIFICATION_DUE_SOON_HOURS. Each due date
+// is reminded of once, so moving the due date brings a new reminder. Returns the number of
+// notifications created.
+export const notifyTasksDueSoon = async (now: Date = new Date()) => {
+  const tasks = await prisma.task.findMany({
+    where: {
+      dueAt: { gt: now, lte: new Date(now.getTime() + NOTIFICATION_DUE_SOON_HOURS * 60 * 60 * 1000) },
+      status: { not: TaskStatus.DONE },
+      isArchived: false,
+      deletedAt: null
+    },
+    include: { collaborators: { select: { userId: true } } },
+    orderBy: { dueAt: 'asc' }
+  });
+
+  const notifications = await notify(tasks.flatMap(({ collaborators, ...task }) =>
+    participantIds(task, collaborators).map(userId => ({
+      userId,
+      type: NotificationType.TASK_DUE_SOON,
+      message: `"${task.title}" is due ${formatDueAt(task.dueAt!)}`,
+      taskId: task.id,
+      dedupeKey: `due-soon:${task.id}:${task.dueAt!.toISOString()}`
+    }))));
+
+  return notifications.length;
+};
@@ -0,0 +1,154 @@
+import { Prisma, Task, TaskPriority } from '@prisma/client';
+import { TaskListQuery } from '../models/Task';
+import { Cursor, encodeCursor, keysetWhere } from './pagination';
+import prisma from './prisma';
+import { findAuthorizedProject } from './projectAccess';
+
+// Declaration order of the enum, which is also the order PostgreSQL sorts it in.
+const PRIORITY_ORDER = Object.values(TaskPriority);
+
+const NULLABLE_SORT_FIELDS: TaskListQuery['sortBy'][] = ['dueAt'];
+
+const ownedWhere = (userId: number): Prisma.TaskWhereInput => ({ userId });
+const sharedWhere = (userId: number): Prisma.TaskWhereInput => ({ collaborators: { some: { userId } } });
+const inProjectWhere = (userId: number): Prisma.TaskWhereInput => ({ project: { members: { some: { userId } } } });
+
+// Every task the user can view through ownership, sharing or project membership.
+export const accessibleTaskWhere = (userId: number): Prisma.TaskWhereInput => ({
+  OR: [ownedWhere(userId), sharedWhere(userId), inProjectWhere(userId)]
+});
+
+// Listing a project returns all of its tasks; callers must check membership first.
+const visibilityWhere = (userId: number, query: TaskListQuery): Prisma.TaskWhereInput => {
+  if (query.projectId) {
+    return { projectId: query.projectId };
+  }
+
+  switch (query.scope) {
+    case 'shared':
+      return sharedWhere(userId);
+    case 'all':
+      return accessibleTaskWhere(userId);
+    default:
+      return ownedWhere(userId);
+  }
+};
+
+const cursorWhere = (query: TaskListQuery, cursor: Cursor) => {
+  const { sortBy, sortOrder } = query;
+
+  if (sortBy === 'priority') {
+    const index = PRIORITY_ORDER.indexOf(cursor.value as TaskPriority);
+    const beyond = sortOrder === 'asc' ? PRIORITY_ORDER.slice(index + 1) : PRIORITY_ORDER.slice(0, Math.max(index, 0));
+    return keysetWhere(sortBy, sortOrder, cursor.value, cursor.id, { beyond: { in: beyond } });
+  }
+
+  const value = sortBy === 'title' || cursor.value === null ? cursor.value : new Date(cursor.value as string);
+  return keysetWhere(sortBy, sortOrder, value, cursor.id, { nullable: NULLABLE_SORT_FIELDS.includes(sortBy) });
+};
+
+const labelWhere = (query: TaskListQuery): Prisma.TaskWhereInput[] => {
+  if (!query.label) {
+    return [];
+  }
+
+  if (query.labelMatch === 'all') {
+    return query.label.map(labelId => ({ labels: { some: { labelId } } }));
+  }
+
+  return [{ labels: { some: { labelId: { in: query.label } } } }];
+};
+
+export const buildTaskWhere = (userId: number, query: TaskListQuery): Prisma.TaskWhereInput => {
+  const and: Prisma.TaskWhereInput[] = [visibilityWhere(userId, query)];
+
+  if (query.q) {
+    and.push({
+      OR: [
+        { title: { contains: query.q, mode: 'insensitive' } },
+        { description: { contains: query.q, mode: 'insensitive' } }
+      ]
+    });
+  }
+
+  if (query.cursor) {
+    and.push(cursorWhere(query, query.cursor));
+  }
+
+  return {
+    deletedAt: null,
+    isArchived: query.isArchived,
+    status: query.status ? { in: query.status } : undefined,
+    priority: query.priority ? { in: query.priority } : undefined,
+    assigneeId: query.assignee === 'me' ? userId : query.assignee,
+    createdAt: { gte: query.createdAfter, lte: query.createdBefore },
+    updatedAt: { gte: query.updatedAfter, lte: query.updatedBefore },
+    dueAt: query.dueAfter || query.dueBefore ? { gte: query.dueAfter, lte: query.dueBefore } : undefined,
+    AND: [...and, ...labelWhere(query)]
+  };
+};
+
+export const taskInclude = {
+  labels: {
+    select: { label: { select: { id: true, name: true, color: true } } },
+    orderBy: { labelId: 'asc' }
+  },
+  recurrence: {
+    select: { rule: true, timezone: true, endedAt: true }
+  }
+} satisfies Prisma.TaskInclude;
+
+export type TaskWithLabels = Prisma.TaskGetPayload<{ include: typeof taskInclude }>;
+
+export const toTaskResponse = ({ labels, ...task }: TaskWithLabels) => ({
+  ...task,
+  labels: labels.map(({ label }) => label)
+});
+
+export const buildTaskOrderBy = (query: TaskListQuery): Prisma.TaskOrderByWithRelationInput[] => [
+  NULLABLE_SORT_FIELDS.includes(query.sortBy)
+    ? { [query.sortBy]: { sort: query.sortOrder, nulls: 'last' } }
+    : { [query.sortBy]: query.sortOrder },
+  { id: query.sortOrder }
+];
+
+// Position just after `task` in a listing sorted by `sortBy`.
+export const taskCursor = (task: Task, sortBy: TaskListQuery['sortBy']): Cursor => {
+  const value = task[sortBy];
+  return { sortBy, value: value instanceof Date ? value.toISOString() : value, id: task.id };
+};
+
+export const nextTaskCursor = (page: Task[], query: TaskListQuery): string | null =>
+  encodeCursor(taskCursor(page[page.length - 1], query.sortBy));
+
+export type TaskPage =
+  | { data: ReturnType<typeof toTaskResponse>[]; nextCursor: string | null; error?: undefined }
+  | { error: { status: number; message: string } };
+
+// Shared by the list views: checks project membership when the listing is scoped to a
+// project, then returns one page of tasks matching the query and any view-specific filter.
+export const findTaskPage = async (
+  userId: number,
+  query: TaskListQuery,
+  viewWhere: Prisma.TaskWhereInput = {}
+): Promise<TaskPage> => {
+  if (query.projectId) {
+    const { error } = await findAuthorizedProject(query.projectId, userId, 'view', 'view');
+
+    if (error) {
+      return { error };
+    }
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: { AND: [buildTaskWhere(userId, query), viewWhere] },
+    orderBy: buildTaskOrderBy(query),
+    include: taskInclude,
+    take: query.limit + 1
+  });
+
+  const page = tasks.slice(0, query.limit);
+  const nextCursor = tasks.length > query.limit ? nextTaskCursor(page, query) : null;
+
+  return { data: page.map(toTaskResponse), nextCursor };
+};
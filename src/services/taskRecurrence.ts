@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { Prisma, Task, TaskRecurrence, TaskStatus } from '@prisma/client';
+import { TaskRecurrenceInput, taskSchema } from '../models/Task';
+import prisma, { runAfterCommit, withTransaction } from './prisma';
+import { nextOccurrence, occurrencesBetween, parseRecurrenceRule, RecurrenceSchedule } from './recurrence';
+import { publishTaskChanges, TaskChange } from './taskEvents';
+import { taskInclude, TaskWithLabels, toTaskResponse } from './taskQuery';
+import { enqueueTaskChanges } from './webhooks';
+
+// How far ahead the recurrence job creates occurrences.
+export const RECURRENCE_HORIZON_DAYS = parseInt(process.env.RECURRENCE_HORIZON_DAYS || '7');
+
+// A dense rule that has fallen behind is caught up over several runs of the job.
+const MAX_OCCURRENCES_PER_RUN = 50;
+
+const toSchedule = (recurrence: TaskRecurrence): RecurrenceSchedule => ({
+  rule: parseRecurrenceRule(recurrence.rule),
+  startAt: recurrence.startAt,
+  timeZone: recurrence.timezone
+});
+
+// The first occurrence of a new series is the task's due date, which it must therefore have.
+export const recurrenceStart = (dueAt: unknown): Date => {
+  const { dueAt: startAt } = taskSchema.pick({ dueAt: true }).parse({ dueAt });
+
+  if (!startAt) {
+    throw new z.ZodError([{ code: 'custom', path: ['recurrence'], message: 'A repeating task needs a due date', input: dueAt }]);
+  }
+
+  return startAt;
+};
+
+export const createRecurrence = (tx: Prisma.TransactionClient, input: TaskRecurrenceInput, startAt: Date) =>
+  tx.taskRecurrence.create({
+    data: { rule: input.rule, timezone: input.timezone, startAt, lastOccurrenceAt: startAt }
+  });
+
+// Applies a change to a task's recurrence inside the caller's transaction and returns the
+// fields to set on the task. The task's current series, if any, ends here: its later
+// occurrences nobody has started yet are deleted, and a new rule starts a new series with
+// the task as its first occurrence. The deleted tasks are returned for the caller to announce.
+export const changeRecurrence = async (
+  tx: Prisma.TransactionClient,
+  task: Task,
+  input: TaskRecurrenceInput | null,
+  startAt: Date | null,
+  now: Date = new Date()
+) => {
+  let removed: Task[] = [];
+
+  if (task.recurrenceId) {
+    removed = await tx.task.findMany({
+      where: {
+        recurrenceId: task.recurrenceId,
+        occurrenceAt: { gt: task.occurrenceAt ?? undefined },
+        status: TaskStatus.TODO,
+        deletedAt: null,
+        id: { not: task.id }
+      }
+    });
+
+    await tx.task.updateMany({ where: { id: { in: removed.map(({ id }) => id) } }, data: { deletedAt: now } });
+    await tx.taskRecurrence.updateMany({ where: { id: task.recurrenceId, endedAt: null }, data: { endedAt: now } });
+  }
+
+  const recurrence = input ? await createRecurrence(tx, input, startAt!) : null;
+
+  return {
+    data: { recurrenceId: recurrence?.id ?? null, occurrenceAt: recurrence?.startAt ?? null },
+    removed: removed.map(removedTask => ({ ...removedTask, deletedAt: now }))
+  };
+};
+
+// Tells stream clients about occurrences deleted by `changeRecurrence`.
+export const publishRemovedOccurrences = (removed: Task[]) =>
+  publishTaskChanges(removed.map(task => ({ before: { ...task, deletedAt: null }, after: task, data: { id: task.id } })));
+
+const endRecurrence = (recurrence: TaskRecurrence, now: Date) =>
+  prisma.taskRecurrence.updateMany({ where: { id: recurrence.id, endedAt: null }, data: { endedAt: now } });
+
+// Creates occurrences at the given times as copies of `template`, skipping any the series
+// already has, and notifies webhooks and stream clients.
+const createOccurrences = async (recurrence: TaskRecurrence, template: TaskWithLabels, dates: Date[]) => {
+  if (dates.length === 0) {
+    return [];
+  }
+
+  const labelIds = template.labels.map(({ label }) => label.id);
+  const last = dates[dates.length - 1];
+
+  const { tasks, changes } = await withTransaction(async tx => {
+    const created = await tx.task.createManyAndReturn({
+      data: dates.map(at => ({
+        title: template.title,
+        description: template.description ?? undefined,
+        priority: template.priority,
+        estimateMinutes: template.estimateMinutes,
+        userId: template.userId,
+        createdById: template.createdById,
+        assigneeId: template.assigneeId,
+        projectId: template.projectId,
+        parentId: template.parentId,
+        dueAt: at,
+        recurrenceId: recurrence.id,
+        occurrenceAt: at
+      })),
+      skipDuplicates: true
+    });
+
+    if (created.length > 0 && labelIds.length > 0) {
+      await tx.taskLabel.createMany({
+        data: created.flatMap(task => labelIds.map(labelId => ({ taskId: task.id, labelId })))
+      });
+    }
+
+    await tx.taskRecurrence.updateMany({
+      where: { id: recurrence.id, lastOccurrenceAt: { lt: last } },
+      data: { lastOccurrenceAt: last }
+    });
+
+    const occurrences = await tx.task.findMany({
+      where: { id: { in: created.map(task => task.id) } },
+      orderBy: { occurrenceAt: 'asc' },
+      include: taskInclude
+    });
+    const changes: TaskChange[] = occurrences.map(task => ({ before: null, after: task, data: toTaskResponse(task) }));
+
+    await enqueueTaskChanges(tx, changes);
+    return { tasks: occurrences, changes };
+  });
+
+  await runAfterCommit(() => publishTaskChanges(changes));
+
+  return tasks;
+};
+
+// Called when an occurrence is completed: creates the occurrence after it unless the
+// series already has it, and ends the series once its rule has run out.
+export const createNextOccurrence = async (task: TaskWithLabels, now: Date = new Date()) => {
+  if (!task.recurrenceId || !task.occurrenceAt) {
+    return [];
+  }
+
+  const recurrence = await prisma.taskRecurrence.findUnique({ where: { id: task.recurrenceId } });
+
+  if (!recurrence || recurrence.endedAt) {
+    return [];
+  }
+
+  const next = nextOccurrence(toSchedule(recurrence), task.occurrenceAt);
+
+  if (!next) {
+    await endRecurrence(recurrence, now);
+    return [];
+  }
+
+  return createOccurrences(recurrence, task, [next]);
+};
+
+// Creates the occurrences of every active series due within the horizon, copying each
+// series' latest occurrence. Series whose rule has run out, or whose occurrences have all
+// been deleted, are ended. Returns the number of tasks created.
+export const materializeRecurrences = async (now: Date = new Date()) => {
+  const horizon = new Date(now.getTime() + RECURRENCE_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+  const recurrences = await prisma.taskRecurrence.findMany({
+    where: { endedAt: null, lastOccurrenceAt: { lt: horizon } },
+    orderBy: { id: 'asc' }
+  });
+  let count = 0;
+
+  for (const recurrence of recurrences) {
+    const schedule = toSchedule(recurrence);
+
+    if (!nextOccurrence(schedule, recurrence.lastOccurrenceAt)) {
+      await endRecurrence(recurrence, now);
+      continue;
+    }
+
+    const template = await prisma.task.findFirst({
+      where: { recurrenceId: recurrence.id, deletedAt: null },
+      orderBy: { occurrenceAt: 'desc' },
+      include: taskInclude
+    });
+
+    if (!template) {
+      await endRecurrence(recurrence, now);
+      continue;
+    }
+
+    const dates = occurrencesBetween(schedule, recurrence.lastOccurrenceAt, horizon, MAX_OCCURRENCES_PER_RUN);
+    count += (await createOccurrences(recurrence, template, dates)).length;
+  }
+
+  return count;
+};
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { Prisma, Task, TaskStatus } from '@prisma/client';
+import prisma from './prisma';
+import { accessibleTaskWhere } from './taskQuery';
+
+export interface SubtaskCounts {
+  total: number;
+  done: number;
+}
+
+export type TaskTreeNode = Task & {
+  subtaskCounts: SubtaskCounts;
+  subtasks: TaskTreeNode[];
+};
+
+// Walks up from the proposed parent; linking would create a cycle if the child is
+// already one of its ancestors (or the parent itself).
+export const wouldCreateParentCycle = async (childId: number, parentId: number) => {
+  let currentId: number | null = parentId;
+
+  while (currentId !== null) {
+    if (currentId === childId) {
+      return true;
+    }
+
+    const current: { parentId: number | null } | null = await prisma.task.findUnique({
+      where: { id: currentId },
+      select: { parentId: true }
+    });
+    currentId = current?.parentId ?? null;
+  }
+
+  return false;
+};
+
+// "blocked is blocked by blocker" closes a cycle if blocker is already (transitively)
+// blocked by blocked. Walks the blockers of the proposed blocker one level at a time.
+export const wouldCreateDependencyCycle = async (blockedId: number, blockerId: number) => {
+  const visited = new Set<number>();
+  let frontier = [blockerId];
+
+  while (frontier.length > 0) {
+    if (frontier.includes(blockedId)) {
+      return true;
+    }
+
+    frontier.forEach(id => visited.add(id));
+
+    const edges = await prisma.taskDependency.findMany({
+      where: { blockedId: { in: frontier } },
+      select: { blockerId: true }
+    });
+    frontier = [...new Set(edges.map(edge => edge.blockerId))].filter(id => !visited.has(id));
+  }
+
+  return false;
+};
+
+export const findOpenBlockers = (taskId: number) => prisma.task.findMany({
+  where: {
+    blocking: { some: { blockedId: taskId } },
+    status: { not: TaskStatus.DONE },
+    deletedAt: null
+  },
+  select: { id: true, title: true, status: true }
+});
+
+// Open blockers of several tasks in one query, keyed by the blocked task.
+export const findOpenBlockersByTask = async (taskIds: number[], tx?: Prisma.TransactionClient) => {
+  const edges = await (tx ?? prisma).taskDependency.findMany({
+    where: {
+      blockedId: { in: taskIds },
+      blocker: { status: { not: TaskStatus.DONE }, deletedAt: null }
+    },
+    select: { blockedId: true, blockerId: true },
+    orderBy: { blockerId: 'asc' }
+  });
+
+  const blockers = new Map<number, number[]>();
+  edges.forEach(({ blockedId, blockerId }) => blockers.set(blockedId, [...(blockers.get(blockedId) ?? []), blockerId]));
+  return blockers;
+};
+
+// Raised as a ZodError so it surfaces as the usual 422 `Validation failed` response.
+export const openBlockersError = (blockerIds: number[]) => new z.ZodError([{
+  code: 'custom',
+  path: ['status'],
+  message: `Task is blocked by unfinished tasks: ${blockerIds.map(id => `#${id}`).join(', ')}`,
+  input: TaskStatus.DONE
+}]);
+
+export const assertNoOpenBlockers = async (taskId: number) => {
+  const blockers = await findOpenBlockers(taskId);
+
+  if (blockers.length > 0) {
+    throw openBlockersError(blockers.map(blocker => blocker.id));
+  }
+};
+
+export const countSubtasks = async (parentIds: number[]): Promise<Map<number, SubtaskCounts>> => {
+  const groups = await prisma.task.groupBy({
+    by: ['parentId', 'status'],
+    where: { parentId: { in: parentIds }, deletedAt: null },
+    _count: { _all: true }
+  });
+
+  const counts = new Map(parentIds.map(id => [id, { total: 0, done: 0 }]));
+
+  for (const group of groups) {
+    const count = counts.get(group.parentId!)!;
+    count.total += group._count._all;
+    if (group.status === TaskStatus.DONE) {
+      count.done += group._count._all;
+    }
+  }
+
+  return counts;
+};
+
+// Loads the subtree below a task one level per query. Only subtasks `userId` can see are
+// included, and counted.
+export const loadTaskTree = async (root: Task, userId: number): Promise<TaskTreeNode> => {
+  const nodes = new Map<number, TaskTreeNode>();
+  const toNode = (task: Task): TaskTreeNode => {
+    const node = { ...task, subtaskCounts: { total: 0, done: 0 }, subtasks: [] };
+    nodes.set(task.id, node);
+    return node;
+  };
+
+  const rootNode = toNode(root);
+  let frontier = [root.id];
+
+  while (frontier.length > 0) {
+    const children = await prisma.task.findMany({
+      where: { parentId: { in: frontier }, deletedAt: null, ...accessibleTaskWhere(userId) },
+      orderBy: { id: 'asc' }
+    });
+
+    for (const child of children) {
+      const parent = nodes.get(child.parentId!)!;
+      parent.subtasks.push(toNode(child));
+      parent.subtaskCounts.total += 1;
+      if (child.status === TaskStatus.DONE) {
+        parent.subtaskCounts.done += 1;
+      }
+    }
+
+    frontier = children.map(child => child.id);
+  }
+
+  return rootNode;
+};
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { TaskSearchQuery } from '../models/Task';
+import { encodeCursor } from './pagination';
+import prisma from './prisma';
+import { taskInclude, toTaskResponse } from './taskQuery';
+
+const SEARCH_CONFIG = 'english';
+
+// ts_headline wraps matches in these control characters, which are turned into <mark> tags
+// afterwards. Titles are highlighted whole; descriptions are cut down to the fragments around
+// the matches.
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const TITLE_HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, HighlightAll=true`;
+const DESCRIPTION_HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2`;
+
+interface SearchRow {
+  id: number;
+  rank: number;
+  titleHighlight: string;
+  descriptionHighlight: string;
+}
+
+const HTML_ESCAPES: [string, string][] = [['&', '&amp;'], ['<', '&lt;'], ['>', '&gt;'], ['"', '&quot;'], ["'", '&#39;']];
+
+// The text is HTML-escaped before it reaches ts_headline, which would otherwise drop anything
+// that looks like a tag. `&` is replaced first so the other entities are not escaped twice.
+const escapedHtmlSql = (text: Prisma.Sql) => HTML_ESCAPES.reduce(
+  (escaped, [char, entity]) => Prisma.sql`replace(${escaped}, ${char}, ${entity})`,
+  text
+);
+
+const toHighlight = (headline: string) => headline
+  .replace(/\u0002/g, '<mark>')
+  .replace(/\u0003/g, '</mark>');
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Turns search input into a `to_tsquery` expression. Terms must all match; a "quoted phrase"
+// must match in order, as must the parts of a hyphenated word; and a trailing `*` matches
+// any word starting with the term. Only letters and digits reach the expression, so user
+// input can never produce tsquery syntax. Returns null when nothing searchable is left.
+export const toTsQuery = (q: string): string | null => {
+  const terms: string[] = [];
+
+  for (const [, phrase, term] of q.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const parts = words(phrase ?? term);
+
+    if (parts.length === 0) {
+      continue;
+    }
+
+    if (term?.endsWith('*')) {
+      parts[parts.length - 1] += ':*';
+    }
+
+    terms.push(parts.length > 1 ? `(${parts.join(' <-> ')})` : parts[0]);
+  }
+
+  return terms.length > 0 ? terms.join(' & ') : null;
+};
+
+// Mirrors `visibilityWhere` in taskQuery.ts; callers must check project membership first.
+const visibilitySql = (userId: number, query: TaskSearchQuery) => {
+  if (query.projectId) {
+    return Prisma.sql`t."projectId" = ${query.projectId}`;
+  }
+
+  const owned = Prisma.sql`t."userId" = ${userId}`;
+  const shared = Prisma.sql`EXISTS (
+    SELECT 1 FROM "TaskCollaborator" c WHERE c."taskId" = t."id" AND c."userId" = ${userId}
+  )`;
+  const inProject = Prisma.sql`EXISTS (
+    SELECT 1 FROM "ProjectMember" m WHERE m."projectId" = t."projectId" AND m."userId" = ${userId}
+  )`;
+
+  switch (query.scope) {
+    case 'shared':
+      return shared;
+    case 'all':
+      return Prisma.sql`(${owned} OR ${shared} OR ${inProject})`;
+    default:
+      return owned;
+  }
+};
+
+// Ranks the tasks the user can see against the search text and returns one page with
+// highlighted snippets. Pages continue from the last rank and id seen.
+export const searchVisibleTasks = async (userId: number, query: TaskSearchQuery) => {
+  const tsQuery = toTsQuery(query.q);
+
+  if (!tsQuery) {
+    throw new z.ZodError([{ code: 'custom', path: ['q'], message: 'Search text must contain a word', input: query.q }]);
+  }
+
+  const after = query.cursor
+    ? Prisma.sql`AND (ts_rank_cd(t."searchVector", q.query), t."id") < (${query.cursor.value}::real, ${query.cursor.id})`
+    : Prisma.empty;
+
+  // The inner query only ranks; snippets are built for the returned page alone.
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    SELECT page."id", page."rank",
+      ts_headline(${SEARCH_CONFIG}::regconfig, ${escapedHtmlSql(Prisma.sql`t."title"`)}, page.query, ${TITLE_HEADLINE_OPTIONS})
+        AS "titleHighlight",
+      ts_headline(
+        ${SEARCH_CONFIG}::regconfig,
+        ${escapedHtmlSql(Prisma.sql`coalesce(t."description", '')`)},
+        page.query,
+        ${DESCRIPTION_HEADLINE_OPTIONS}
+      ) AS "descriptionHighlight"
+    FROM (
+      SELECT t."id", ts_rank_cd(t."searchVector", q.query) AS "rank", q.query
+      FROM "Task" t, to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsQuery}) AS q(query)
+      WHERE t."searchVector" @@ q.query
+        AND t."deletedAt" IS NULL
+        AND t."isArchived" = ${query.isArchived}
+        AND ${visibilitySql(userId, query)}
+        ${after}
+      ORDER BY "rank" DESC, t."id" DESC
+      LIMIT ${query.limit + 1}
+    ) page
+    JOIN "Task" t ON t."id" = page."id"
+    ORDER BY page."rank" DESC, page."id" DESC
+  `;
+
+  const ranked = rows.slice(0, query.limit);
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: ranked.map(row => row.id) } },
+    include: taskInclude
+  });
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+
+  // A task deleted in between is left out of the page but still moves the cursor on.
+  const page = ranked.filter(row => tasksById.has(row.id));
+  const last = ranked[ranked.length - 1];
+  const nextCursor = rows.length > query.limit
+    ? encodeCursor({ sortBy: 'rank', value: last.rank, id: last.id })
+    : null;
+
+  return {
+    data: page.map(row => ({
+      ...toTaskResponse(tasksById.get(row.id)!),
+      rank: row.rank,
+      highlights: {
+        title: toHighlight(row.titleHighlight),
+        description: toHighlight(row.descriptionHighlight)
+      }
+    })),
+    nextCursor
+  };
+};
@@ -0,0 +1,325 @@
+import { z } from 'zod';
+import { Task, TaskPriority, TaskStatus } from '@prisma/client';
+import { TASK_BULK_LIMIT, TaskListQuery, taskImportRowsSchema, taskSchema } from '../models/Task';
+import { parseCsv, unescapeCsvFormula } from './csv';
+import prisma, { runAfterCommit, withTransaction } from './prisma';
+import { loadProjectAssignmentCheck } from './projectAccess';
+import { publishTaskChanges } from './taskEvents';
+import { buildTaskOrderBy, buildTaskWhere, taskCursor, taskInclude, toTaskResponse } from './taskQuery';
+import { enqueueTaskChanges } from './webhooks';
+import { applyInitialStatus, isTaskStatus } from './workflow';
+
+const EXPORT_BATCH_SIZE = 500;
+const TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+// The fields an import reads, which are also the fields `createTask` accepts.
+export const TASK_IMPORT_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueAt',
+  'estimateMinutes',
+  'isArchived',
+  'projectId',
+  'resolution'
+] as const;
+
+// CSV export columns, in order. Columns other than the import fields and `labels` are
+// ignored on import.
+export const TASK_EXPORT_COLUMNS = [
+  'id',
+  ...TASK_IMPORT_FIELDS,
+  'labels',
+  'startedAt',
+  'completedAt',
+  'createdAt',
+  'updatedAt'
+] as const;
+
+// Names other trackers commonly use for our statuses.
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  open: TaskStatus.TODO,
+  backlog: TaskStatus.TODO,
+  doing: TaskStatus.IN_PROGRESS,
+  started: TaskStatus.IN_PROGRESS,
+  completed: TaskStatus.DONE,
+  closed: TaskStatus.DONE
+};
+
+const BOOLEAN_TEXT: Record<string, boolean> = { true: true, yes: true, 1: true, false: false, no: false, 0: false };
+
+interface FieldError {
+  field: string;
+  message: string;
+  code: string;
+}
+
+export interface ImportRowError {
+  row: number;
+  errors: FieldError[];
+}
+
+export interface ImportRow {
+  row: number;
+  data: z.output<typeof taskSchema>;
+  labelIds: number[];
+}
+
+type TaskResponse = ReturnType<typeof toTaskResponse>;
+
+export const toCsvValues = (task: TaskResponse) => TASK_EXPORT_COLUMNS.map(column => (column === 'labels'
+  ? task.labels.map(label => label.name).join(';')
+  : task[column]));
+
+// Yields every task matching the query in the query's sort order, one batch at a time, so
+// exports never hold the whole result set in memory. Archived tasks are included unless the
+// query asks for one or the other.
+export async function* findTasksInBatches(userId: number, query: TaskListQuery, { includeArchived = false } = {}) {
+  let cursor = query.cursor;
+
+  while (true) {
+    const batch = await prisma.task.findMany({
+      where: {
+        ...buildTaskWhere(userId, { ...query, cursor }),
+        ...(includeArchived ? { isArchived: undefined } : {})
+      },
+      orderBy: buildTaskOrderBy(query),
+      include: taskInclude,
+      take: EXPORT_BATCH_SIZE
+    });
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+
+    cursor = taskCursor(batch[batch.length - 1], query.sortBy);
+  }
+}
+
+// Compares names ignoring case, spaces and punctuation, so "In Progress", "in-progress" and
+// "IN_PROGRESS" are the same.
+const normalizeName = (value: string) => value.replace(/[^a-z0-9]/gi, '').toLowerCase();
+
+const FIELD_NAMES = new Map(TASK_IMPORT_FIELDS.map(field => [normalizeName(field), field]));
+
+const matchStatus = (text: string) => Object.values(TaskStatus).find(status => normalizeName(status) === normalizeName(text))
+  ?? STATUS_ALIASES[normalizeName(text)];
+
+const matchPriority = (text: string) =>
+  Object.values(TaskPriority).find(priority => normalizeName(priority) === normalizeName(text));
+
+// Turns a CSV record or JSON object into `taskSchema` input. Columns are matched loosely by
+// name ("Due At" is dueAt), status and priority labels are mapped onto the enums, and text
+// is converted for the numeric and boolean fields. Values that cannot be converted are passed
+// through for the schema to reject.
+const toTaskInput = (row: Record<string, unknown>) => {
+  const input: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    const field = FIELD_NAMES.get(normalizeName(key));
+
+    // On create, null and a missing value both mean "not set".
+    if (!field || value === undefined || value === null) {
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      input[field] = value;
+      continue;
+    }
+
+    const text = value.trim();
+
+    // Empty cells mean "not set", except for the title, which is required.
+    if (text === '' && field !== 'title') {
+      continue;
+    }
+
+    switch (field) {
+      case 'status':
+        input[field] = matchStatus(text) ?? text;
+        break;
+      case 'priority':
+        input[field] = matchPriority(text) ?? text;
+        break;
+      case 'isArchived':
+        input[field] = BOOLEAN_TEXT[text.toLowerCase()] ?? text;
+        break;
+      case 'estimateMinutes':
+      case 'projectId':
+        input[field] = Number.isNaN(Number(text)) ? text : Number(text);
+        break;
+      default:
+        input[field] = value;
+    }
+  }
+
+  return input;
+};
+
+const LABELS_COLUMN = normalizeName('labels');
+
+// Label names from a `labels` column: names separated by `;` as in a CSV export, or the
+// array of names or label objects of a JSON export. Null when the value is none of these.
+const toLabelNames = (value: unknown): string[] | null => {
+  const names: unknown[] | null = typeof value === 'string'
+    ? value.split(';')
+    : Array.isArray(value)
+      ? value.map(item => (item && typeof item === 'object' ? (item as { name?: unknown }).name : item))
+      : null;
+
+  if (!names || !names.every((name): name is string => typeof name === 'string')) {
+    return null;
+  }
+
+  return [...new Set(names.map(name => name.trim()).filter(name => name !== ''))];
+};
+
+const toFieldErrors = (error: z.ZodError): FieldError[] => error.issues.map(issue => ({
+  field: issue.path.join('.'),
+  message: issue.message,
+  code: issue.code
+}));
+
+// Reads the request body as a list of rows: a JSON array of objects, or CSV text with a
+// header row naming the columns.
+export const parseImportRows = (body: unknown, format: 'csv' | 'json') => {
+  if (format === 'json') {
+    return taskImportRowsSchema.parse(body);
+  }
+
+  const [header = [], ...records] = parseCsv(typeof body === 'string' ? body : '');
+
+  return taskImportRowsSchema.parse(records.map(values =>
+    Object.fromEntries(header.map((column, index) => [column, unescapeCsvFormula(values[index])]))));
+};
+
+// Validates every row the way `createTask` would. Labels are matched by name against the
+// caller's own labels and those of the row's project. Rows are numbered from 1, not counting
+// the CSV header.
+export const validateImportRows = async (userId: number, rows: unknown[]) => {
+  const [checkProject, labels] = await Promise.all([
+    loadProjectAssignmentCheck(userId),
+    prisma.label.findMany({
+      where: { OR: [{ userId }, { project: { members: { some: { userId } } } }] },
+      select: { id: true, name: true, userId: true, projectId: true }
+    })
+  ]);
+  const now = new Date();
+  const valid: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push({ row, errors: [{ field: '', message: 'Expected an object', code: 'invalid_type' }] });
+      return;
+    }
+
+    const input = toTaskInput(raw as Record<string, unknown>);
+    const projectError = checkProject(input.projectId);
+    const labelErrors: FieldError[] = [];
+    const labelIds: number[] = [];
+
+    const labelsKey = Object.keys(raw).find(key => normalizeName(key) === LABELS_COLUMN);
+    const labelsValue = labelsKey === undefined ? undefined : (raw as Record<string, unknown>)[labelsKey];
+
+    if (labelsValue !== undefined && labelsValue !== null) {
+      const names = toLabelNames(labelsValue);
+      const unknown: string[] = [];
+
+      names?.forEach(name => {
+        const matches = labels.filter(label => label.name === name);
+        const label = matches.find(candidate => candidate.projectId !== null && candidate.projectId === input.projectId)
+          ?? matches.find(candidate => candidate.userId === userId);
+
+        if (label) {
+          labelIds.push(label.id);
+        } else {
+          unknown.push(name);
+        }
+      });
+
+      if (!names) {
+        labelErrors.push({ field: 'labels', message: 'Labels must be names separated by ;', code: 'invalid_type' });
+      } else if (unknown.length > 0) {
+        labelErrors.push({ field: 'labels', message: `Unknown labels: ${unknown.join(', ')}`, code: 'custom' });
+      }
+    }
+
+    const status = isTaskStatus(input.status) ? input.status : TaskStatus.TODO;
+    let workflowErrors: FieldError[] = [];
+    let timestamps = {};
+
+    try {
+      timestamps = applyInitialStatus(status, input, { now });
+    } catch (error) {
+      if (!(error instanceof z.ZodError)) {
+        throw error;
+      }
+
+      workflowErrors = toFieldErrors(error);
+    }
+
+    const result = taskSchema.safeParse({ ...input, ...timestamps, userId });
+
+    if (projectError || workflowErrors.length > 0 || labelErrors.length > 0 || !result.success) {
+      errors.push({
+        row,
+        errors: [
+          ...(projectError ? [{ field: 'projectId', message: projectError.message, code: 'custom' }] : []),
+          ...workflowErrors,
+          ...labelErrors,
+          ...(result.success ? [] : toFieldErrors(result.error))
+        ]
+      });
+      return;
+    }
+
+    valid.push({ row, data: result.data, labelIds });
+  });
+
+  return { valid, errors };
+};
+
+// Creates the validated rows and their labels in one transaction and notifies webhooks and
+// stream clients of each task after commit. As with `createTask`, nobody is sent a
+// notification: imported tasks belong to the importer and have no assignee or collaborators.
+export const createImportedTasks = async (rows: ImportRow[]): Promise<TaskResponse[]> => {
+  const changes = await withTransaction(async tx => {
+    const created: Task[] = [];
+
+    for (let start = 0; start < rows.length; start += TASK_BULK_LIMIT) {
+      const batch = rows.slice(start, start + TASK_BULK_LIMIT);
+      created.push(...await tx.task.createManyAndReturn({ data: batch.map(({ data }) => data) }));
+    }
+
+    // Rows come back in insertion order.
+    const taskLabels = rows.flatMap(({ labelIds }, position) =>
+      labelIds.map(labelId => ({ taskId: created[position].id, labelId })));
+
+    if (taskLabels.length > 0) {
+      await tx.taskLabel.createMany({ data: taskLabels });
+    }
+
+    const tasks = await tx.task.findMany({
+      where: { id: { in: created.map(task => task.id) } },
+      orderBy: { id: 'asc' },
+      include: taskInclude
+    });
+    const createdChanges = tasks.map(task => ({ before: null, after: task, data: toTaskResponse(task) }));
+
+    await enqueueTaskChanges(tx, createdChanges);
+    return createdChanges;
+  }, { timeout: TRANSACTION_TIMEOUT_MS });
+
+  await runAfterCommit(() => publishTaskChanges(changes));
+
+  return changes.map(({ data }) => data);
+};
@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+
+export const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900');
+export const REFRESH_TOKEN_TTL_SECONDS = parseInt(process.env.REFRESH_TOKEN_TTL_SECONDS || String(30 * 24 * 60 * 60));
+
+export interface AccessTokenPayload {
+  userId: number;
+  sessionId: string;
+}
+
+export interface TokenPair {
+  token: string;
+  expiresIn: number;
+  tokenType: 'Bearer';
+  refreshToken: string;
+  refreshExpiresIn: number;
+}
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Every refresh token belongs to a family (one login session). The access token carries
+// the family id as `sessionId` so that revoking the family also invalidates it.
+const issueTokenPair = async (userId: number, familyId: string): Promise<TokenPair> => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+  await prisma.refreshToken.create({
+    data: {
+      tokenHash: hashToken(refreshToken),
+      familyId,
+      userId,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000)
+    }
+  });
+
+  const payload: AccessTokenPayload = { userId, sessionId: familyId };
+  const token = jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+
+  return {
+    token,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    tokenType: 'Bearer',
+    refreshToken,
+    refreshExpiresIn: REFRESH_TOKEN_TTL_SECONDS
+  };
+};
+
+export const createSession = (userId: number) => issueTokenPair(userId, crypto.randomUUID());
+
+// Exchanges a refresh token for a new pair. Returns null when the token is unknown,
+// expired or revoked. Presenting a token that was already rotated is treated as theft
+// and revokes the whole family.
+export const rotateRefreshToken = async (refreshToken: string): Promise<TokenPair | null> => {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) }
+  });
+
+  if (!existing || existing.revokedAt || existing.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: existing.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (count === 0) {
+    await revokeSession(existing.familyId);
+    return null;
+  }
+
+  return issueTokenPair(existing.userId, existing.familyId);
+};
+
+export const revokeSession = async (familyId: string) => {
+  await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+};
+
+export const revokeRefreshToken = async (refreshToken: string) => {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) }
+  });
+
+  if (existing) {
+    await revokeSession(existing.familyId);
+  }
+};
+
+export const revokeAllSessions = async (userId: number) => {
+  await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+};
+
+// The user's role, or null when the account is disabled or gone. Checked on every
+// authenticated request so that disabling an account takes effect at once.
+export const findActiveUserRole = async (userId: number) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, disabledAt: true }
+  });
+
+  return user && !user.disabledAt ? user.role : null;
+};
+
+export const isSessionActive = async (familyId: string) => {
+  const token = await prisma.refreshToken.findFirst({
+    where: { familyId, revokedAt: null },
+    select: { id: true }
+  });
+
+  return token !== null;
+};
+
+// Revokes the user's sessions, except `keepFamilyId`, and every personal access token they
+// have, in the caller's transaction. Used when the password changes or the account is
+// disabled, so nothing issued before can outlive that.
+export const revokeCredentials = async (
+  tx: Prisma.TransactionClient,
+  userId: number,
+  { keepFamilyId }: { keepFamilyId?: string } = {}
+) => {
+  const now = new Date();
+
+  await tx.refreshToken.updateMany({
+    where: { userId, revokedAt: null, ...(keepFamilyId ? { familyId: { not: keepFamilyId } } : {}) },
+    data: { revokedAt: now }
+  });
+  await tx.personalAccessToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: now }
+  });
+};
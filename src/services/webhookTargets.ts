@@ -0,0 +1,86 @@
+import dns from 'dns';
+import net from 'net';
+
+// Webhooks may not reach the API's own host or the network it runs in: loopback,
+// private, carrier-grade NAT, link-local, unique-local, multicast and unspecified addresses
+// are refused. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const BLOCKED_IPV4_NETWORKS: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+const BLOCKED_IPV6_NETWORKS: [string, number][] = [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+];
+
+const blockedAddresses = new net.BlockList();
+BLOCKED_IPV4_NETWORKS.forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv4'));
+BLOCKED_IPV6_NETWORKS.forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv6'));
+
+// Hosts that are let through anyway, comma-separated. Meant for local receivers in
+// development and tests, e.g. `WEBHOOK_ALLOWED_HOSTS=127.0.0.1`.
+const allowedHosts = () => (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(host => host.length > 0);
+
+// `URL.hostname` keeps the brackets around IPv6 addresses.
+const bareHostname = (hostname: string) => hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+
+const isBlockedAddress = (address: string) =>
+  blockedAddresses.check(address, net.isIPv4(address) ? 'ipv4' : 'ipv6');
+
+// Why a webhook may not be sent to `url` without resolving its host, or null when it may.
+// Hostnames are checked again once they are resolved, by `webhookLookup`. Malformed URLs
+// are left to the URL validation.
+export const webhookTargetError = (url: string): string | null => {
+  if (!URL.canParse(url)) {
+    return null;
+  }
+
+  const hostname = bareHostname(new URL(url).hostname);
+
+  if (allowedHosts().includes(hostname)) {
+    return null;
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || (net.isIP(hostname) && isBlockedAddress(hostname))) {
+    return 'URL must not point to a loopback, private or link-local address';
+  }
+
+  return null;
+};
+
+// DNS lookup for webhook requests. Every address the host resolves to is checked at
+// connect time, so a host cannot pass one check and then resolve somewhere internal.
+export const webhookLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error || allowedHosts().includes(bareHostname(hostname))) {
+      return callback(error, address, family);
+    }
+
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    const blocked = addresses.find(isBlockedAddress);
+
+    if (blocked) {
+      return callback(
+        new Error(`${hostname} resolves to ${blocked}, which is a loopback, private or link-local address`),
+        address,
+        family
+      );
+    }
+
+    callback(null, address, family);
+  });
+};
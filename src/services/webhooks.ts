@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { Prisma, Task } from '@prisma/client';
+import { diffTasks } from '../models/TaskActivity';
+import { WebhookEvent } from '../models/Webhook';
+import { currentActorId } from './requestContext';
+import { loadTaskAudiences, TaskChange } from './taskEvents';
+
+const TASK_FIELDS = Object.values(Prisma.TaskScalarFieldEnum);
+
+export const generateWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+// Receivers recompute the HMAC over `${timestamp}.${body}` with their secret and compare it
+// to the `X-Webhook-Signature` header. Including the timestamp lets them reject replays.
+export const signWebhookPayload = (secret: string, timestamp: number, body: string) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+export const taskEventsFor = (before: Task | null, after: Task): WebhookEvent[] => {
+  if (!before) {
+    return ['task.created'];
+  }
+
+  const events: WebhookEvent[] = ['task.updated'];
+
+  if (before.status !== after.status) {
+    events.push('task.status_changed');
+  }
+
+  if (!before.isArchived && after.isArchived) {
+    events.push('task.archived');
+  }
+
+  return events;
+};
+
+// Queues deliveries for every active webhook subscribed to the tasks' events whose owner
+// can see the task. The delivery job sends them. Call it in the transaction that writes the
+// tasks, so deliveries are queued exactly when the write commits.
+export const enqueueTaskChanges = async (tx: Prisma.TransactionClient, changes: TaskChange[]) => {
+  if (changes.length === 0) {
+    return 0;
+  }
+
+  const audiences = await loadTaskAudiences(changes.map(change => change.after));
+  const subscriberIds = [...new Set([...audiences.values()].flat())];
+  const events = [...new Set(changes.flatMap(({ before, after }) => taskEventsFor(before, after)))];
+
+  const webhooks = await tx.webhook.findMany({
+    where: { isActive: true, events: { hasSome: events }, userId: { in: subscriberIds } },
+    select: { id: true, userId: true, events: true }
+  });
+
+  if (webhooks.length === 0) {
+    return 0;
+  }
+
+  const occurredAt = new Date().toISOString();
+  const actorId = currentActorId();
+
+  const data = changes.flatMap(({ before, after }) => {
+    const audience = audiences.get(after.id) ?? [];
+    const payload = {
+      occurredAt,
+      actorId,
+      task: Object.fromEntries(TASK_FIELDS.map(field => [field, after[field]])),
+      changes: before ? diffTasks(before, after) : null
+    };
+
+    return webhooks
+      .filter(webhook => audience.includes(webhook.userId))
+      .flatMap(webhook => taskEventsFor(before, after)
+        .filter(event => webhook.events.includes(event))
+        .map(event => ({
+          webhookId: webhook.id,
+          event,
+          payload: JSON.parse(JSON.stringify({ event, ...payload }))
+        })));
+  });
+
+  if (data.length === 0) {
+    return 0;
+  }
+
+  const { count } = await tx.webhookDelivery.createMany({ data });
+
+  return count;
+};
+
+export const enqueueTaskEvents = (tx: Prisma.TransactionClient, before: Task | null, after: Task) =>
+  enqueueTaskChanges(tx, [{ before, after }]);
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import { Task, TaskStatus } from '@prisma/client';
+
+const REQUIRABLE_FIELDS = ['resolution'] as const;
+
+const transitionRuleSchema = z.object({
+  from: z.enum(TaskStatus),
+  to: z.enum(TaskStatus),
+  requires: z.array(z.enum(REQUIRABLE_FIELDS)).optional().default([])
+});
+
+export type TransitionRule = z.infer<typeof transitionRuleSchema>;
+export type TransitionInput = Partial<Record<typeof REQUIRABLE_FIELDS[number], unknown>>;
+
+export const DEFAULT_WORKFLOW: TransitionRule[] = [
+  { from: TaskStatus.TODO, to: TaskStatus.IN_PROGRESS, requires: [] },
+  { from: TaskStatus.TODO, to: TaskStatus.DONE, requires: [] },
+  { from: TaskStatus.IN_PROGRESS, to: TaskStatus.TODO, requires: [] },
+  { from: TaskStatus.IN_PROGRESS, to: TaskStatus.DONE, requires: [] },
+  { from: TaskStatus.DONE, to: TaskStatus.IN_PROGRESS, requires: [] }
+];
+
+// The transition table can be replaced with a JSON array of rules in TASK_WORKFLOW, e.g.
+// [{"from":"IN_PROGRESS","to":"DONE","requires":["resolution"]}, ...]
+const loadWorkflow = (raw: string | undefined): { rules: TransitionRule[]; error: string | null } => {
+  if (!raw) {
+    return { rules: DEFAULT_WORKFLOW, error: null };
+  }
+
+  try {
+    return { rules: z.array(transitionRuleSchema).parse(JSON.parse(raw)), error: null };
+  } catch (error) {
+    const detail = error instanceof z.ZodError ? z.prettifyError(error) : (error as Error).message;
+    return { rules: DEFAULT_WORKFLOW, error: `TASK_WORKFLOW is invalid: ${detail}` };
+  }
+};
+
+const loaded = loadWorkflow(process.env.TASK_WORKFLOW);
+
+if (loaded.error) {
+  console.warn(`${loaded.error}. Using the default workflow.`);
+}
+
+export const workflow = loaded.rules;
+
+// Called by `startServer`, which refuses to run with a TASK_WORKFLOW it could not load
+// rather than quietly enforcing the default one.
+export const assertWorkflowConfig = () => {
+  if (loaded.error) {
+    throw new Error(loaded.error);
+  }
+};
+
+export const availableTransitions = (status: TaskStatus, rules: TransitionRule[] = workflow) =>
+  rules.filter(rule => rule.from === status);
+
+// Timestamps follow the status: startedAt is set the first time work starts, completedAt
+// while the task is DONE.
+export const transitionTimestamps = (
+  task: Pick<Task, 'startedAt'> | null,
+  to: TaskStatus,
+  now: Date = new Date()
+): Pick<Task, 'completedAt'> & Partial<Pick<Task, 'startedAt'>> => ({
+  ...(to !== TaskStatus.TODO && !task?.startedAt ? { startedAt: now } : {}),
+  completedAt: to === TaskStatus.DONE ? now : null
+});
+
+const assertRequiredFields = (fields: TransitionRule['requires'], input: TransitionInput, to: TaskStatus) => {
+  const missing = fields.filter(field => {
+    const value = input[field];
+    return typeof value !== 'string' || value.trim().length === 0;
+  });
+
+  if (missing.length > 0) {
+    throw new z.ZodError(missing.map(field => ({
+      code: 'custom' as const,
+      path: [field],
+      message: `${field[0].toUpperCase()}${field.slice(1)} is required when moving to ${to}`,
+      input: input[field]
+    })));
+  }
+};
+
+// Validates a status change against the transition table and returns the extra fields to
+// write alongside it. Rejections are raised as ZodErrors so they surface as the usual
+// 422 `Validation failed` response.
+export const applyTransition = (
+  task: Pick<Task, 'status' | 'startedAt'>,
+  to: TaskStatus,
+  input: TransitionInput = {},
+  { rules = workflow, now = new Date() }: { rules?: TransitionRule[]; now?: Date } = {}
+) => {
+  const rule = rules.find(candidate => candidate.from === task.status && candidate.to === to);
+
+  if (!rule) {
+    const allowed = availableTransitions(task.status, rules).map(candidate => candidate.to);
+    throw new z.ZodError([{
+      code: 'custom',
+      path: ['status'],
+      message: `Cannot move a task from ${task.status} to ${to}` +
+        (allowed.length ? `; allowed: ${allowed.join(', ')}` : ''),
+      input: to
+    }]);
+  }
+
+  assertRequiredFields(rule.requires, input, to);
+
+  return transitionTimestamps(task, to, now);
+};
+
+// The status a task is created in, checked like a move into it: the status must be one the
+// workflow leads to, and the fields any move into it requires must be present. Returns the
+// timestamps to create the task with.
+export const applyInitialStatus = (
+  to: TaskStatus,
+  input: TransitionInput = {},
+  { rules = workflow, now = new Date() }: { rules?: TransitionRule[]; now?: Date } = {}
+) => {
+  if (to !== TaskStatus.TODO) {
+    const entering = rules.filter(rule => rule.to === to);
+
+    if (entering.length === 0) {
+      throw new z.ZodError([{ code: 'custom', path: ['status'], message: `Tasks cannot be created in ${to}`, input: to }]);
+    }
+
+    assertRequiredFields([...new Set(entering.flatMap(rule => rule.requires))], input, to);
+  }
+
+  return transitionTimestamps(null, to, now);
+};
+
+export const isTaskStatus = (value: unknown): value is TaskStatus =>
+  Object.values(TaskStatus).includes(value as TaskStatus);
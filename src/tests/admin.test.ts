@@ -0,0 +1,197 @@
+import request from 'supertest';
+import { UserRole } from '@prisma/client';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+import { MailMessage, setMailer } from '../services/mailer';
+import { createInMemoryRateLimitStore, setRateLimitStore } from '../services/rateLimit';
+
+describe('Admin API', () => {
+  let adminId: number;
+  let adminToken: string;
+  let memberId: number;
+  let memberToken: string;
+  const sentMail: MailMessage[] = [];
+
+  const login = (email: string, password: string) => request(app)
+    .post('/api/auth/token')
+    .set('Authorization', 'Basic ' + Buffer.from(`${email}:${password}`).toString('base64'));
+
+  const createAccessToken = async () => {
+    const response = await request(app)
+      .post('/api/access-tokens')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ name: 'CI', scopes: ['tasks:read'] });
+    return response.body.token as string;
+  };
+
+  beforeAll(async () => {
+    setMailer({ send: async message => { sentMail.push(message); } });
+    await prisma.$connect();
+  });
+
+  beforeEach(async () => {
+    sentMail.length = 0;
+    // Every test logs the same accounts in, which would otherwise run into the login limit.
+    setRateLimitStore(createInMemoryRateLimitStore());
+
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+
+    ({ userId: adminId, token: adminToken } = await createUserWithToken('admin@example.com', 'adminpassword', UserRole.ADMIN));
+    ({ userId: memberId, token: memberToken } = await createUserWithToken('member@example.com', 'memberpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  it('should only be available to admins', async () => {
+    const response = await request(app)
+      .get('/api/admin/users')
+      .set('Authorization', `Bearer ${memberToken}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should list and search users without their password hashes', async () => {
+    const all = await request(app)
+      .get('/api/admin/users')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(all.status).toBe(200);
+    expect(all.body.data.map((user: { email: string }) => user.email)).toEqual(['admin@example.com', 'member@example.com']);
+    expect(all.body.data[0]).not.toHaveProperty('password');
+
+    const search = await request(app)
+      .get('/api/admin/users?q=MEMBER&role=USER')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(search.body.data).toHaveLength(1);
+    expect(search.body.data[0].id).toBe(memberId);
+  });
+
+  it('should page through users', async () => {
+    const first = await request(app)
+      .get('/api/admin/users?limit=1')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    const second = await request(app)
+      .get(`/api/admin/users?limit=1&cursor=${first.body.nextCursor}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(first.body.data[0].id).toBe(adminId);
+    expect(second.body.data[0].id).toBe(memberId);
+    expect(second.body.nextCursor).toBeNull();
+  });
+
+  it('should stop a disabled user\'s tokens at once and allow re-enabling', async () => {
+    const accessToken = await createAccessToken();
+
+    const disabled = await request(app)
+      .post(`/api/admin/users/${memberId}/disable`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(disabled.status).toBe(200);
+    expect(disabled.body.disabledAt).not.toBeNull();
+
+    const refused = await request(app)
+      .get('/api/tasks')
+      .set('Authorization', `Bearer ${memberToken}`);
+    expect(refused.status).toBe(403);
+
+    const refusedLogin = await login('member@example.com', 'memberpassword');
+    const wrongPassword = await login('member@example.com', 'wrongpassword');
+    expect(refusedLogin.status).toBe(401);
+    expect(refusedLogin.body).toEqual(wrongPassword.body);
+
+    const listed = await request(app)
+      .get('/api/admin/users?disabled=true')
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(listed.body.data.map((user: { id: number }) => user.id)).toEqual([memberId]);
+
+    await request(app)
+      .post(`/api/admin/users/${memberId}/enable`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect((await login('member@example.com', 'memberpassword')).status).toBe(200);
+
+    // Personal access tokens were revoked, not just refused while the account was disabled.
+    const revoked = await request(app)
+      .get('/api/tasks')
+      .set('Authorization', `Bearer ${accessToken}`);
+    expect(revoked.status).toBe(403);
+  });
+
+  it('should not let admins disable or demote themselves', async () => {
+    const disabled = await request(app)
+      .post(`/api/admin/users/${adminId}/disable`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(disabled.status).toBe(409);
+
+    const demoted = await request(app)
+      .patch(`/api/admin/users/${adminId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ role: 'USER' });
+    expect(demoted.status).toBe(409);
+  });
+
+  it('should grant the admin role', async () => {
+    const response = await request(app)
+      .patch(`/api/admin/users/${memberId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ role: 'ADMIN' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.role).toBe('ADMIN');
+
+    const users = await request(app)
+      .get('/api/admin/users')
+      .set('Authorization', `Bearer ${memberToken}`);
+    expect(users.status).toBe(200);
+  });
+
+  it('should force a password reset', async () => {
+    const accessToken = await createAccessToken();
+
+    const response = await request(app)
+      .post(`/api/admin/users/${memberId}/password-reset`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(202);
+    expect((await login('member@example.com', 'memberpassword')).status).toBe(401);
+    expect(sentMail.map(message => message.to)).toEqual(['member@example.com']);
+
+    const revoked = await request(app)
+      .get('/api/tasks')
+      .set('Authorization', `Bearer ${accessToken}`);
+    expect(revoked.status).toBe(403);
+
+    const token = /token=([\w-]+)/.exec(sentMail[0].text)?.[1];
+    const reset = await request(app)
+      .post('/api/auth/password/reset')
+      .send({ token, password: 'chosenpassword' });
+
+    expect(reset.status).toBe(204);
+    expect((await login('member@example.com', 'chosenpassword')).status).toBe(200);
+  });
+
+  it('should show any user\'s tasks', async () => {
+    await prisma.task.create({ data: { title: 'Member task', userId: memberId } });
+
+    const response = await request(app)
+      .get(`/api/admin/users/${memberId}/tasks`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((task: { title: string }) => task.title)).toEqual(['Member task']);
+
+    const missing = await request(app)
+      .get('/api/admin/users/999999/tasks')
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -2,9 +2,20 @@ import request from 'supertest';
 import app from '../app';
 import bcrypt from 'bcrypt';
 import prisma from '../services/prisma';
+import { MailMessage, setMailer } from '../services/mailer';
+import {
+  createInMemoryRateLimitStore,
+  LOGIN_LOCKOUT_MAX_SECONDS,
+  lockoutSeconds,
+  parseRateLimit,
+  setRateLimitStore
+} from '../services/rateLimit';
 
 describe('Auth API', () => {
+  const sentMail: MailMessage[] = [];
+
   beforeAll(async () => {
+    setMailer({ send: async message => { sentMail.push(message); } });
     await prisma.$connect();
     
     await prisma.user.deleteMany({});
@@ -130,6 +141,8 @@ describe('Auth API', () => {
       expect(response.body).toHaveProperty('token');
       expect(response.body).toHaveProperty('expiresIn');
       expect(response.body).toHaveProperty('tokenType', 'Bearer');
+      expect(response.body).toHaveProperty('refreshToken');
+      expect(response.body).toHaveProperty('refreshExpiresIn');
     });
 
     it('should require Basic authentication', async () => {
@@ -147,4 +160,385 @@ describe('Auth API', () => {
       expect(response.status).toBe(401);
     });
   });
+
+  describe('Refresh tokens and logout', () => {
+    const basicAuth = 'Basic ' + Buffer.from('session@example.com:sessionpassword').toString('base64');
+
+    const login = async () => {
+      const response = await request(app)
+        .post('/api/auth/token')
+        .set('Authorization', basicAuth);
+      return response.body;
+    };
+
+    beforeEach(async () => {
+      await prisma.user.deleteMany({});
+      await prisma.user.create({
+        data: {
+          email: 'session@example.com',
+          password: await bcrypt.hash('sessionpassword', 10)
+        }
+      });
+    });
+
+    it('should rotate the refresh token', async () => {
+      const tokens = await login();
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('token');
+      expect(response.body.refreshToken).not.toBe(tokens.refreshToken);
+    });
+
+    it('should require a refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({});
+
+      expect(response.status).toBe(422);
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'not-a-real-token' });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const tokens = await login();
+
+      const rotated = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken });
+
+      const reuse = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken });
+
+      expect(reuse.status).toBe(401);
+
+      const afterReuse = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: rotated.body.refreshToken });
+
+      expect(afterReuse.status).toBe(401);
+
+      const taskResponse = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${rotated.body.token}`);
+
+      expect(taskResponse.status).toBe(403);
+    });
+
+    it('should revoke the session on logout', async () => {
+      const tokens = await login();
+
+      const response = await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: tokens.refreshToken });
+
+      expect(response.status).toBe(204);
+
+      const refreshResponse = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken });
+
+      expect(refreshResponse.status).toBe(401);
+
+      const taskResponse = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${tokens.token}`);
+
+      expect(taskResponse.status).toBe(403);
+    });
+
+    it('should revoke every session on logout-all', async () => {
+      const first = await login();
+      const second = await login();
+
+      const response = await request(app)
+        .post('/api/auth/logout-all')
+        .set('Authorization', `Bearer ${first.token}`);
+
+      expect(response.status).toBe(204);
+
+      for (const tokens of [first, second]) {
+        const taskResponse = await request(app)
+          .get('/api/tasks')
+          .set('Authorization', `Bearer ${tokens.token}`);
+
+        expect(taskResponse.status).toBe(403);
+      }
+    });
+  });
+
+  describe('Rate limiting and lockout', () => {
+    const basicAuth = (password: string) => 'Basic ' + Buffer.from(`locked@example.com:${password}`).toString('base64');
+
+    const login = (password: string) => request(app)
+      .post('/api/auth/token')
+      .set('Authorization', basicAuth(password));
+
+    beforeEach(async () => {
+      setRateLimitStore(createInMemoryRateLimitStore());
+
+      await prisma.user.deleteMany({});
+      await prisma.user.create({
+        data: {
+          email: 'locked@example.com',
+          password: await bcrypt.hash('rightpassword', 10)
+        }
+      });
+    });
+
+    it('should lock the account after repeated failed logins', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        expect((await login('wrongpassword')).status).toBe(401);
+      }
+
+      const response = await login('rightpassword');
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('30');
+    });
+
+    it('should escalate the lockout with each further failure', () => {
+      expect(lockoutSeconds(4)).toBe(0);
+      expect(lockoutSeconds(5)).toBe(30);
+      expect(lockoutSeconds(6)).toBe(60);
+      expect(lockoutSeconds(7)).toBe(120);
+      expect(lockoutSeconds(50)).toBe(LOGIN_LOCKOUT_MAX_SECONDS);
+    });
+
+    it('should forget failures after a successful login', async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await login('wrongpassword');
+      }
+      expect((await login('rightpassword')).status).toBe(200);
+
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await login('wrongpassword');
+      }
+      expect((await login('rightpassword')).status).toBe(200);
+    });
+
+    it('should limit token requests per account', async () => {
+      for (let attempt = 0; attempt < 10; attempt++) {
+        await login('rightpassword');
+      }
+
+      const response = await login('rightpassword');
+
+      expect(response.status).toBe(429);
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+      expect(response.headers['ratelimit-remaining']).toBe('0');
+    });
+
+    it('should limit registrations per IP', async () => {
+      for (let attempt = 0; attempt < 10; attempt++) {
+        await request(app).post('/api/auth/register').send({ email: `spam${attempt}@example.com` });
+      }
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'spam@example.com', password: 'password123' });
+
+      expect(response.status).toBe(429);
+      expect(response.headers).toHaveProperty('retry-after');
+    });
+
+    it('should parse configured limits', () => {
+      expect(parseRateLimit('10/15m')).toEqual({ limit: 10, windowMs: 15 * 60 * 1000 });
+      expect(() => parseRateLimit('ten per minute')).toThrow('Invalid rate limit');
+    });
+  });
+
+  describe('Password reset and email verification', () => {
+    const basicAuth = (email: string, password: string) => 'Basic ' + Buffer.from(`${email}:${password}`).toString('base64');
+
+    const login = (email = 'account@example.com', password = 'accountpassword') => request(app)
+      .post('/api/auth/token')
+      .set('Authorization', basicAuth(email, password));
+
+    const createAccessToken = async (sessionToken: string) => {
+      const response = await request(app)
+        .post('/api/access-tokens')
+        .set('Authorization', `Bearer ${sessionToken}`)
+        .send({ name: 'CI', scopes: ['tasks:read'] });
+      return response.body.token as string;
+    };
+
+    const listTasks = (token: string) => request(app)
+      .get('/api/tasks')
+      .set('Authorization', `Bearer ${token}`);
+
+    const tokenFromMail = (to: string) => {
+      const mail = sentMail.filter(message => message.to === to).pop();
+      return /token=([\w-]+)/.exec(mail?.text ?? '')?.[1];
+    };
+
+    beforeEach(async () => {
+      setRateLimitStore(createInMemoryRateLimitStore());
+      sentMail.length = 0;
+
+      await prisma.user.deleteMany({});
+      await prisma.user.create({
+        data: {
+          email: 'account@example.com',
+          password: await bcrypt.hash('accountpassword', 10)
+        }
+      });
+    });
+
+    it('should answer the same whether or not the account exists', async () => {
+      const known = await request(app).post('/api/auth/password/forgot').send({ email: 'account@example.com' });
+      const unknown = await request(app).post('/api/auth/password/forgot').send({ email: 'nobody@example.com' });
+
+      expect(known.status).toBe(202);
+      expect(unknown.status).toBe(202);
+      expect(unknown.body).toEqual(known.body);
+      expect(sentMail.map(message => message.to)).toEqual(['account@example.com']);
+    });
+
+    it('should reset the password once and sign out every session', async () => {
+      const { body: session } = await login();
+      const accessToken = await createAccessToken(session.token);
+      await request(app).post('/api/auth/password/forgot').send({ email: 'account@example.com' });
+      const token = tokenFromMail('account@example.com');
+
+      const response = await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token, password: 'brandnewpassword' });
+
+      expect(response.status).toBe(204);
+      expect((await login()).status).toBe(401);
+      expect((await login('account@example.com', 'brandnewpassword')).status).toBe(200);
+
+      const refreshed = await request(app).post('/api/auth/refresh').send({ refreshToken: session.refreshToken });
+      expect(refreshed.status).toBe(401);
+      expect((await listTasks(accessToken)).status).toBe(403);
+
+      const reused = await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token, password: 'anotherpassword' });
+      expect(reused.status).toBe(400);
+
+      const stored = await prisma.accountToken.findFirst({ where: { purpose: 'PASSWORD_RESET' } });
+      expect(stored?.tokenHash).not.toBe(token);
+    });
+
+    it('should reject expired and superseded reset tokens', async () => {
+      await request(app).post('/api/auth/password/forgot').send({ email: 'account@example.com' });
+      const first = tokenFromMail('account@example.com');
+      await request(app).post('/api/auth/password/forgot').send({ email: 'account@example.com' });
+      const second = tokenFromMail('account@example.com');
+
+      const superseded = await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token: first, password: 'brandnewpassword' });
+      expect(superseded.status).toBe(400);
+
+      await prisma.accountToken.updateMany({ data: { expiresAt: new Date(Date.now() - 1000) } });
+
+      const expired = await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token: second, password: 'brandnewpassword' });
+      expect(expired.status).toBe(400);
+    });
+
+    it('should validate the new password', async () => {
+      const response = await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token: 'anything', password: 'short' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('password');
+    });
+
+    it('should send a verification link on registration', async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'verify@example.com', password: 'verifypassword' });
+
+      const response = await request(app)
+        .post('/api/auth/email/verify')
+        .send({ token: tokenFromMail('verify@example.com') });
+
+      expect(response.status).toBe(200);
+      expect(response.body.email).toBe('verify@example.com');
+      expect(response.body.emailVerifiedAt).not.toBeNull();
+    });
+
+    it('should require the current password to update the account', async () => {
+      const { body: session } = await login();
+
+      const wrong = await request(app)
+        .patch('/api/auth/me')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: 'wrongpassword', password: 'brandnewpassword' });
+      expect(wrong.status).toBe(403);
+
+      const empty = await request(app)
+        .patch('/api/auth/me')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: 'accountpassword' });
+      expect(empty.status).toBe(422);
+    });
+
+    it('should change the password and sign out the other sessions', async () => {
+      const { body: current } = await login();
+      const { body: other } = await login();
+      const accessToken = await createAccessToken(current.token);
+
+      const response = await request(app)
+        .patch('/api/auth/me')
+        .set('Authorization', `Bearer ${current.token}`)
+        .send({ currentPassword: 'accountpassword', password: 'brandnewpassword' });
+
+      expect(response.status).toBe(200);
+      expect((await request(app).post('/api/auth/refresh').send({ refreshToken: other.refreshToken })).status).toBe(401);
+      expect((await request(app).post('/api/auth/refresh').send({ refreshToken: current.refreshToken })).status).toBe(200);
+      expect((await listTasks(accessToken)).status).toBe(403);
+    });
+
+    it('should change the email only once the new address is verified', async () => {
+      const { body: session } = await login();
+
+      const response = await request(app)
+        .patch('/api/auth/me')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: 'accountpassword', email: 'renamed@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.email).toBe('account@example.com');
+      expect(response.body.pendingEmail).toBe('renamed@example.com');
+
+      const verified = await request(app)
+        .post('/api/auth/email/verify')
+        .send({ token: tokenFromMail('renamed@example.com') });
+
+      expect(verified.status).toBe(200);
+      expect(verified.body.email).toBe('renamed@example.com');
+      expect(verified.body.pendingEmail).toBeNull();
+      expect((await login('renamed@example.com')).status).toBe(200);
+    });
+
+    it('should not change the email to one already in use', async () => {
+      await prisma.user.create({ data: { email: 'taken@example.com', password: 'x' } });
+      const { body: session } = await login();
+
+      const response = await request(app)
+        .patch('/api/auth/me')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: 'accountpassword', email: 'taken@example.com' });
+
+      expect(response.status).toBe(409);
+      expect(sentMail).toHaveLength(0);
+    });
+  });
 });
@@ -0,0 +1,198 @@
+import request from 'supertest';
+import { Task } from '@prisma/client';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+
+describe('Task collaborators API', () => {
+  let ownerToken: string;
+  let collaboratorToken: string;
+  let ownerId: number;
+  let collaboratorId: number;
+  let taskId: number;
+
+  const share = (role: string) => request(app)
+    .post(`/api/tasks/${taskId}/collaborators`)
+    .set('Authorization', `Bearer ${ownerToken}`)
+    .send({ email: 'collaborator@example.com', role });
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+
+    ({ userId: ownerId, token: ownerToken } = await createUserWithToken('owner@example.com', 'ownerpassword'));
+    ({ userId: collaboratorId, token: collaboratorToken } = await createUserWithToken('collaborator@example.com', 'collabpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await deleteAllTasks();
+
+    const task = await prisma.task.create({
+      data: { title: 'Shared Task', userId: ownerId }
+    });
+    taskId = task.id;
+  });
+
+  describe('POST /api/tasks/:task_id/collaborators', () => {
+    it('should share a task with another user', async () => {
+      const response = await share('EDITOR');
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({
+        userId: collaboratorId,
+        email: 'collaborator@example.com',
+        role: 'EDITOR'
+      });
+    });
+
+    it('should update the role of an existing collaborator', async () => {
+      await share('VIEWER');
+      const response = await share('EDITOR');
+
+      expect(response.status).toBe(200);
+      expect(response.body.role).toBe('EDITOR');
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      const response = await request(app)
+        .post(`/api/tasks/${taskId}/collaborators`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ email: 'nobody@example.com' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should validate the role', async () => {
+      const response = await share('SUPERUSER');
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('role');
+    });
+
+    it('should not let collaborators reshare', async () => {
+      await share('EDITOR');
+
+      const response = await request(app)
+        .post(`/api/tasks/${taskId}/collaborators`)
+        .set('Authorization', `Bearer ${collaboratorToken}`)
+        .send({ email: 'owner@example.com' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('permissions', () => {
+    it('should let viewers read but not update', async () => {
+      await share('VIEWER');
+
+      const read = await request(app)
+        .get(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${collaboratorToken}`);
+      expect(read.status).toBe(200);
+
+      const update = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${collaboratorToken}`)
+        .send({ title: 'Edited' });
+      expect(update.status).toBe(403);
+    });
+
+    it('should let editors update without taking ownership', async () => {
+      await share('EDITOR');
+
+      const update = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${collaboratorToken}`)
+        .send({ title: 'Edited' });
+
+      expect(update.status).toBe(200);
+      expect(update.body.title).toBe('Edited');
+      expect(update.body.userId).toBe(ownerId);
+    });
+
+    it('should only let the owner delete', async () => {
+      await share('EDITOR');
+
+      const response = await request(app)
+        .delete(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${collaboratorToken}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should include shared tasks in the list when requested', async () => {
+      await share('VIEWER');
+
+      const owned = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${collaboratorToken}`);
+      expect(owned.body.data).toHaveLength(0);
+
+      const shared = await request(app)
+        .get('/api/tasks?scope=shared')
+        .set('Authorization', `Bearer ${collaboratorToken}`);
+      expect(shared.body.data.map((task: Task) => task.id)).toEqual([taskId]);
+
+      const all = await request(app)
+        .get('/api/tasks?scope=all')
+        .set('Authorization', `Bearer ${ownerToken}`);
+      expect(all.body.data.map((task: Task) => task.id)).toEqual([taskId]);
+    });
+  });
+
+  describe('GET and DELETE /api/tasks/:task_id/collaborators', () => {
+    it('should list collaborators for anyone with access', async () => {
+      await share('VIEWER');
+
+      const response = await request(app)
+        .get(`/api/tasks/${taskId}/collaborators`)
+        .set('Authorization', `Bearer ${collaboratorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].email).toBe('collaborator@example.com');
+    });
+
+    it('should let the owner remove a collaborator', async () => {
+      await share('VIEWER');
+
+      const response = await request(app)
+        .delete(`/api/tasks/${taskId}/collaborators/${collaboratorId}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(response.status).toBe(204);
+
+      const read = await request(app)
+        .get(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${collaboratorToken}`);
+      expect(read.status).toBe(403);
+    });
+
+    it('should let a collaborator leave a task', async () => {
+      await share('VIEWER');
+
+      const response = await request(app)
+        .delete(`/api/tasks/${taskId}/collaborators/${collaboratorId}`)
+        .set('Authorization', `Bearer ${collaboratorToken}`);
+
+      expect(response.status).toBe(204);
+    });
+
+    it('should return 404 when the user is not a collaborator', async () => {
+      const response = await request(app)
+        .delete(`/api/tasks/${taskId}/collaborators/${collaboratorId}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
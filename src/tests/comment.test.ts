@@ -0,0 +1,210 @@
+import request from 'supertest';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+
+describe('Comment API', () => {
+  let ownerToken: string;
+  let editorToken: string;
+  let viewerToken: string;
+  let outsiderToken: string;
+  let editorId: number;
+  let viewerId: number;
+  let taskId: number;
+
+  const postComment = (token: string, body: string) => request(app)
+    .post(`/api/tasks/${taskId}/comments`)
+    .set('Authorization', `Bearer ${token}`)
+    .send({ body });
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    ({ token: ownerToken } = await createUserWithToken('commentowner@example.com', 'ownerpassword'));
+    ({ userId: editorId, token: editorToken } = await createUserWithToken('commenteditor@example.com', 'editorpassword'));
+    ({ userId: viewerId, token: viewerToken } = await createUserWithToken('commentviewer@example.com', 'viewerpassword'));
+    ({ token: outsiderToken } = await createUserWithToken('commentoutsider@example.com', 'outsiderpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await deleteAllTasks();
+
+    const response = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Discussed task' });
+    taskId = response.body.id;
+
+    await prisma.taskCollaborator.createMany({
+      data: [
+        { taskId, userId: editorId, role: 'EDITOR' },
+        { taskId, userId: viewerId, role: 'VIEWER' }
+      ]
+    });
+  });
+
+  describe('POST /api/tasks/:task_id/comments', () => {
+    it('should add a comment and store mentions of users who can see the task', async () => {
+      const response = await postComment(
+        editorToken,
+        'Looks good @CommentViewer@example.com, see @commentoutsider@example.com and @nobody@example.com'
+      );
+
+      expect(response.status).toBe(201);
+      expect(response.body.body).toContain('Looks good');
+      expect(response.body.author.email).toBe('commenteditor@example.com');
+      expect(response.body.editedAt).toBeNull();
+      expect(response.body.mentions).toEqual([{ id: viewerId, email: 'commentviewer@example.com' }]);
+    });
+
+    it('should not let viewers comment', async () => {
+      const response = await postComment(viewerToken, 'Read only');
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should not let users without access comment', async () => {
+      const response = await postComment(outsiderToken, 'Hello');
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should reject an empty body', async () => {
+      const response = await postComment(ownerToken, '   ');
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('body');
+    });
+  });
+
+  describe('GET /api/tasks/:task_id/comments', () => {
+    it('should list comments oldest first with pagination', async () => {
+      await postComment(ownerToken, 'First');
+      await postComment(editorToken, 'Second');
+      await postComment(ownerToken, 'Third');
+
+      const firstPage = await request(app)
+        .get(`/api/tasks/${taskId}/comments?limit=2`)
+        .set('Authorization', `Bearer ${viewerToken}`);
+
+      expect(firstPage.status).toBe(200);
+      expect(firstPage.body.data.map((comment: { body: string }) => comment.body)).toEqual(['First', 'Second']);
+
+      const secondPage = await request(app)
+        .get(`/api/tasks/${taskId}/comments?limit=2&cursor=${firstPage.body.nextCursor}`)
+        .set('Authorization', `Bearer ${viewerToken}`);
+
+      expect(secondPage.body.data.map((comment: { body: string }) => comment.body)).toEqual(['Third']);
+      expect(secondPage.body.nextCursor).toBeNull();
+    });
+
+    it('should hide comments from users without access', async () => {
+      const response = await request(app)
+        .get(`/api/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${outsiderToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('PATCH /api/tasks/:task_id/comments/:comment_id', () => {
+    it('should let the author edit and re-parse mentions', async () => {
+      const created = await postComment(editorToken, 'Ping @commentviewer@example.com');
+
+      const response = await request(app)
+        .patch(`/api/tasks/${taskId}/comments/${created.body.id}`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ body: 'Never mind' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.body).toBe('Never mind');
+      expect(response.body.editedAt).not.toBeNull();
+      expect(response.body.mentions).toEqual([]);
+    });
+
+    it('should not let the task owner edit someone else\'s comment', async () => {
+      const created = await postComment(editorToken, 'Mine');
+
+      const response = await request(app)
+        .patch(`/api/tasks/${taskId}/comments/${created.body.id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ body: 'Changed' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 404 for a comment on another task', async () => {
+      const response = await request(app)
+        .patch(`/api/tasks/${taskId}/comments/999999`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ body: 'Changed' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/tasks/:task_id/comments/:comment_id', () => {
+    it('should let the task owner delete any comment', async () => {
+      const created = await postComment(editorToken, 'Off topic');
+
+      const response = await request(app)
+        .delete(`/api/tasks/${taskId}/comments/${created.body.id}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(response.status).toBe(204);
+      expect(await prisma.comment.findUnique({ where: { id: created.body.id } })).toBeNull();
+    });
+
+    it('should not let other participants delete a comment', async () => {
+      const created = await postComment(ownerToken, 'Keep this');
+
+      const response = await request(app)
+        .delete(`/api/tasks/${taskId}/comments/${created.body.id}`)
+        .set('Authorization', `Bearer ${editorToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/mentions', () => {
+    it('should list comments mentioning the caller, newest first', async () => {
+      await postComment(ownerToken, 'Hi @commentviewer@example.com');
+      await postComment(ownerToken, 'Nothing here');
+      await postComment(editorToken, 'Again @commentviewer@example.com');
+
+      const response = await request(app)
+        .get('/api/mentions')
+        .set('Authorization', `Bearer ${viewerToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((comment: { body: string }) => comment.body)).toEqual([
+        'Again @commentviewer@example.com',
+        'Hi @commentviewer@example.com'
+      ]);
+      expect(response.body.data[0].taskId).toBe(taskId);
+    });
+
+    it('should drop mentions once the task is no longer visible', async () => {
+      await postComment(ownerToken, 'Hi @commentviewer@example.com');
+      await prisma.taskCollaborator.deleteMany({ where: { taskId, userId: viewerId } });
+
+      const response = await request(app)
+        .get('/api/mentions')
+        .set('Authorization', `Bearer ${viewerToken}`);
+
+      expect(response.body.data).toEqual([]);
+    });
+  });
+});
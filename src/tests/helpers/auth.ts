@@ -0,0 +1,22 @@
+import request from 'supertest';
+import bcrypt from 'bcrypt';
+import { UserRole } from '@prisma/client';
+import app from '../../app';
+import prisma from '../../services/prisma';
+
+// Creates a user and logs them in with their password.
+export const createUserWithToken = async (email: string, password: string, role: UserRole = UserRole.USER) => {
+  const user = await prisma.user.create({
+    data: {
+      email,
+      password: await bcrypt.hash(password, 10),
+      role
+    }
+  });
+
+  const response = await request(app)
+    .post('/api/auth/token')
+    .set('Authorization', 'Basic ' + Buffer.from(`${email}:${password}`).toString('base64'));
+
+  return { userId: user.id, token: response.body.token as string };
+};
@@ -0,0 +1,8 @@
+import prisma from '../../services/prisma';
+
+// Hard deletes only remove soft-deleted tasks (see TaskActivityLog), so tasks are
+// soft-deleted first.
+export const deleteAllTasks = async () => {
+  await prisma.task.updateMany({ where: { deletedAt: null }, data: { deletedAt: new Date() } });
+  await prisma.task.deleteMany({});
+};
@@ -0,0 +1,140 @@
+import request from 'supertest';
+import app from '../app';
+import prisma from '../services/prisma';
+import { getTaskEventBus } from '../services/taskEvents';
+import * as taskQuery from '../services/taskQuery';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+import { purgeExpiredIdempotencyKeys } from '../jobs/idempotencyKeyPurge';
+
+describe('Idempotency keys', () => {
+  let authToken: string;
+  let otherToken: string;
+
+  const createTask = (key: string, body: Record<string, unknown> = { title: 'Retried task' }, token = authToken) =>
+    request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Idempotency-Key', key)
+      .send(body);
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+
+    ({ token: authToken } = await createUserWithToken('retry@example.com', 'retrypassword'));
+    ({ token: otherToken } = await createUserWithToken('otherretry@example.com', 'otherpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await deleteAllTasks();
+    await prisma.idempotencyKey.deleteMany({});
+  });
+
+  it('should create the task once and replay the response on retry', async () => {
+    const first = await createTask('create-1');
+    const retry = await createTask('create-1');
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.headers.etag).toBe(first.headers.etag);
+    expect(await prisma.task.count()).toBe(1);
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    await createTask('create-2', { title: 'First' });
+    const response = await createTask('create-2', { title: 'Second' });
+
+    expect(response.status).toBe(422);
+    expect(await prisma.task.count()).toBe(1);
+  });
+
+  it('should answer 409 to a duplicate sent while the first is in progress', async () => {
+    const responses = await Promise.all([createTask('create-3'), createTask('create-3')]);
+    const statuses = responses.map(response => response.status).sort();
+
+    // The duplicate either finds the first still running or, if it lost the race late,
+    // gets its stored response.
+    expect([[201, 409], [201, 201]]).toContainEqual(statuses);
+    expect(await prisma.task.count()).toBe(1);
+  });
+
+  it('should keep keys separate per user', async () => {
+    await createTask('shared-key');
+    const response = await createTask('shared-key', { title: 'Retried task' }, otherToken);
+
+    expect(response.status).toBe(201);
+    expect(response.headers['idempotent-replayed']).toBeUndefined();
+    expect(await prisma.task.count()).toBe(2);
+  });
+
+  it('should replay updates instead of applying them twice', async () => {
+    const { body: task } = await createTask('create-4');
+
+    const update = () => request(app)
+      .patch(`/api/tasks/${task.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .set('Idempotency-Key', 'update-1')
+      .send({ title: 'Renamed' });
+
+    await update();
+    const retry = await update();
+
+    expect(retry.body.version).toBe(2);
+    expect((await prisma.task.findUnique({ where: { id: task.id } }))?.version).toBe(2);
+  });
+
+  it('should release the key when the request fails before writing', async () => {
+    jest.spyOn(prisma, '$transaction').mockRejectedValueOnce(new Error('Connection lost'));
+
+    const failed = await createTask('create-6');
+    const retry = await createTask('create-6');
+
+    expect(failed.status).toBe(500);
+    expect(retry.status).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBeUndefined();
+    expect(await prisma.task.count()).toBe(1);
+  });
+
+  it('should keep the key when the request fails after its write committed', async () => {
+    const toTaskResponse = jest.spyOn(taskQuery, 'toTaskResponse').mockImplementation(() => {
+      throw new Error('Serialization failed');
+    });
+
+    const failed = await createTask('create-7');
+    toTaskResponse.mockRestore();
+    const retry = await createTask('create-7');
+
+    expect(failed.status).toBe(500);
+    expect(retry.status).toBe(500);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(await prisma.task.count()).toBe(1);
+  });
+
+  it('should not fail a committed write when publishing it fails', async () => {
+    const publish = jest.spyOn(getTaskEventBus(), 'publish').mockRejectedValue(new Error('Bus unavailable'));
+
+    const response = await createTask('create-8');
+    publish.mockRestore();
+
+    expect(response.status).toBe(201);
+    expect(await prisma.task.count()).toBe(1);
+  });
+
+  it('should purge expired keys', async () => {
+    await createTask('create-5');
+
+    expect(await purgeExpiredIdempotencyKeys(new Date(Date.now() - 1000))).toBe(0);
+    expect(await purgeExpiredIdempotencyKeys(new Date(Date.now() + 2 * 24 * 60 * 60 * 1000))).toBe(1);
+  });
+});
@@ -0,0 +1,291 @@
+import request from 'supertest';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+
+describe('Label API', () => {
+  let ownerToken: string;
+  let memberToken: string;
+  let outsiderToken: string;
+
+  const createLabel = async (token: string, body: Record<string, unknown>) => {
+    const response = await request(app)
+      .post('/api/labels')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+    return response.body.id as number;
+  };
+
+  const createTask = async (body: Record<string, unknown>) => {
+    const response = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send(body);
+    return response.body.id as number;
+  };
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    ({ token: ownerToken } = await createUserWithToken('labelowner@example.com', 'ownerpassword'));
+    ({ token: memberToken } = await createUserWithToken('labelmember@example.com', 'memberpassword'));
+    ({ token: outsiderToken } = await createUserWithToken('labeloutsider@example.com', 'outsiderpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await deleteAllTasks();
+    await prisma.label.deleteMany({});
+    await prisma.project.deleteMany({});
+  });
+
+  describe('POST /api/labels', () => {
+    it('should create a personal label with a default colour', async () => {
+      const response = await request(app)
+        .post('/api/labels')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: '  bug  ' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.name).toBe('bug');
+      expect(response.body.color).toBe('#808080');
+      expect(response.body.projectId).toBeNull();
+    });
+
+    it('should reject duplicate names for the same owner', async () => {
+      await createLabel(ownerToken, { name: 'bug' });
+
+      const response = await request(app)
+        .post('/api/labels')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'bug' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should allow the same name for different owners', async () => {
+      await createLabel(ownerToken, { name: 'bug' });
+
+      const response = await request(app)
+        .post('/api/labels')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ name: 'bug' });
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should reject invalid colours', async () => {
+      const response = await request(app)
+        .post('/api/labels')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'bug', color: 'red' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('color');
+    });
+
+    it('should only let project managers create project labels', async () => {
+      const project = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'Roadmap' });
+      await request(app)
+        .post(`/api/projects/${project.body.id}/members`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ email: 'labelmember@example.com' });
+
+      const memberResponse = await request(app)
+        .post('/api/labels')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ name: 'release', projectId: project.body.id });
+      const ownerResponse = await request(app)
+        .post('/api/labels')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'release', projectId: project.body.id });
+
+      expect(memberResponse.status).toBe(403);
+      expect(ownerResponse.status).toBe(201);
+      expect(ownerResponse.body.userId).toBeNull();
+
+      const listResponse = await request(app)
+        .get(`/api/labels?projectId=${project.body.id}`)
+        .set('Authorization', `Bearer ${memberToken}`);
+
+      expect(listResponse.status).toBe(200);
+      expect(listResponse.body.map((label: { name: string }) => label.name)).toEqual(['release']);
+    });
+  });
+
+  describe('GET /api/labels', () => {
+    it('should list only the caller\'s personal labels', async () => {
+      await createLabel(ownerToken, { name: 'feature' });
+      await createLabel(ownerToken, { name: 'bug' });
+      await createLabel(memberToken, { name: 'chore' });
+
+      const response = await request(app)
+        .get('/api/labels')
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((label: { name: string }) => label.name)).toEqual(['bug', 'feature']);
+    });
+  });
+
+  describe('PATCH /api/labels/:label_id', () => {
+    it('should rename and recolour a label', async () => {
+      const labelId = await createLabel(ownerToken, { name: 'bug' });
+
+      const response = await request(app)
+        .patch(`/api/labels/${labelId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'defect', color: '#FF0000' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toBe('defect');
+      expect(response.body.color).toBe('#ff0000');
+    });
+
+    it('should not let other users update a personal label', async () => {
+      const labelId = await createLabel(ownerToken, { name: 'bug' });
+
+      const response = await request(app)
+        .patch(`/api/labels/${labelId}`)
+        .set('Authorization', `Bearer ${outsiderToken}`)
+        .send({ name: 'mine' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('assigning labels to tasks', () => {
+    it('should assign labels on create and replace them on update', async () => {
+      const bugId = await createLabel(ownerToken, { name: 'bug' });
+      const urgentId = await createLabel(ownerToken, { name: 'urgent' });
+
+      const createResponse = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ title: 'Labelled', labelIds: [bugId, urgentId, bugId] });
+
+      expect(createResponse.status).toBe(201);
+      expect(createResponse.body.labels.map((label: { id: number }) => label.id)).toEqual([bugId, urgentId]);
+
+      const updateResponse = await request(app)
+        .patch(`/api/tasks/${createResponse.body.id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ labelIds: [urgentId] });
+
+      expect(updateResponse.status).toBe(200);
+      expect(updateResponse.body.labels).toEqual([{ id: urgentId, name: 'urgent', color: '#808080' }]);
+
+      const untouchedResponse = await request(app)
+        .patch(`/api/tasks/${createResponse.body.id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ title: 'Renamed' });
+
+      expect(untouchedResponse.body.labels).toHaveLength(1);
+    });
+
+    it('should reject labels the caller cannot use', async () => {
+      const foreignId = await createLabel(outsiderToken, { name: 'theirs' });
+
+      const response = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ title: 'Labelled', labelIds: [foreignId] });
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('labelIds');
+    });
+
+    it('should leave other users\' labels on a task when replacing labels', async () => {
+      const bugId = await createLabel(ownerToken, { name: 'bug' });
+      const urgentId = await createLabel(ownerToken, { name: 'urgent' });
+      const mineId = await createLabel(memberToken, { name: 'mine' });
+      const taskId = await createTask({ title: 'Shared', labelIds: [bugId] });
+
+      await request(app)
+        .post(`/api/tasks/${taskId}/collaborators`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ email: 'labelmember@example.com', role: 'EDITOR' });
+
+      const memberResponse = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ labelIds: [mineId] });
+
+      expect(memberResponse.status).toBe(200);
+
+      const ownerResponse = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ labelIds: [urgentId] });
+
+      expect(ownerResponse.status).toBe(200);
+
+      const taskLabels = await prisma.taskLabel.findMany({ where: { taskId }, orderBy: { labelId: 'asc' } });
+      expect(taskLabels.map(taskLabel => taskLabel.labelId)).toEqual([urgentId, mineId]);
+    });
+
+    it('should detach a deleted label from its tasks', async () => {
+      const labelId = await createLabel(ownerToken, { name: 'bug' });
+      const taskId = await createTask({ title: 'Labelled', labelIds: [labelId] });
+
+      const deleteResponse = await request(app)
+        .delete(`/api/labels/${labelId}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(deleteResponse.status).toBe(204);
+
+      const taskResponse = await request(app)
+        .get(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(taskResponse.status).toBe(200);
+      expect(taskResponse.body.labels).toEqual([]);
+    });
+  });
+
+  describe('filtering tasks by label', () => {
+    let bugId: number;
+    let urgentId: number;
+
+    beforeEach(async () => {
+      bugId = await createLabel(ownerToken, { name: 'bug' });
+      urgentId = await createLabel(ownerToken, { name: 'urgent' });
+
+      await createTask({ title: 'Bug only', labelIds: [bugId] });
+      await createTask({ title: 'Urgent bug', labelIds: [bugId, urgentId] });
+      await createTask({ title: 'Unlabelled' });
+    });
+
+    it('should match any of the labels by default', async () => {
+      const response = await request(app)
+        .get(`/api/tasks?label=${bugId},${urgentId}&sortBy=title&sortOrder=asc`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((task: { title: string }) => task.title)).toEqual(['Bug only', 'Urgent bug']);
+    });
+
+    it('should match all of the labels when requested', async () => {
+      const response = await request(app)
+        .get(`/api/tasks?label=${bugId},${urgentId}&labelMatch=all`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((task: { title: string }) => task.title)).toEqual(['Urgent bug']);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import request from 'supertest';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+import { remindTasksDueSoon, sendDigests } from '../jobs/notifications';
+import { MailMessage, setMailer } from '../services/mailer';
+
+describe('Notifications API', () => {
+  const sentMail: MailMessage[] = [];
+  let ownerToken: string;
+  let collaboratorToken: string;
+  let ownerId: number;
+  let collaboratorId: number;
+  let taskId: number;
+
+  const inbox = (token: string, query = '') => request(app)
+    .get(`/api/notifications${query}`)
+    .set('Authorization', `Bearer ${token}`);
+
+  const setPreferences = (token: string, body: object) => request(app)
+    .patch('/api/notifications/preferences')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+
+  beforeAll(async () => {
+    setMailer({ send: async message => { sentMail.push(message); } });
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+
+    ({ userId: ownerId, token: ownerToken } = await createUserWithToken('notify-owner@example.com', 'ownerpassword'));
+    ({ userId: collaboratorId, token: collaboratorToken } = await createUserWithToken(
+      'notify-collaborator@example.com',
+      'collabpassword'
+    ));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    sentMail.length = 0;
+    await prisma.notification.deleteMany({});
+    await prisma.notificationSettings.deleteMany({});
+    await deleteAllTasks();
+
+    const task = await prisma.task.create({
+      data: { title: 'Quarterly report', userId: ownerId }
+    });
+    taskId = task.id;
+
+    await prisma.taskCollaborator.create({
+      data: { taskId, userId: collaboratorId, role: 'EDITOR' }
+    });
+  });
+
+  describe('task events', () => {
+    it('should notify the other participants when someone changes a task', async () => {
+      await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${collaboratorToken}`)
+        .send({ priority: 'HIGH' });
+
+      const ownerInbox = await inbox(ownerToken);
+      const collaboratorInbox = await inbox(collaboratorToken);
+
+      expect(ownerInbox.status).toBe(200);
+      expect(ownerInbox.body.data).toHaveLength(1);
+      expect(ownerInbox.body.data[0]).toMatchObject({
+        type: 'TASK_UPDATED',
+        taskId,
+        message: 'notify-collaborator@example.com changed priority on "Quarterly report"',
+        actor: { id: collaboratorId, email: 'notify-collaborator@example.com' },
+        readAt: null
+      });
+      expect(collaboratorInbox.body.data).toEqual([]);
+      // Task updates stay in the app by default.
+      expect(sentMail).toEqual([]);
+    });
+
+    it('should tell a new assignee they were assigned instead of that the task changed', async () => {
+      await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ assigneeId: collaboratorId });
+
+      const response = await inbox(collaboratorToken);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        type: 'TASK_ASSIGNED',
+        message: 'notify-owner@example.com assigned you to "Quarterly report"'
+      });
+      expect(sentMail.map(mail => mail.to)).toEqual(['notify-collaborator@example.com']);
+    });
+
+    it('should notify and email people mentioned in a comment', async () => {
+      await request(app)
+        .post(`/api/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ body: 'Can you check the numbers @notify-collaborator@example.com?' });
+
+      const response = await inbox(collaboratorToken);
+
+      expect(response.body.data[0]).toMatchObject({
+        type: 'TASK_MENTIONED',
+        message: 'notify-owner@example.com mentioned you on "Quarterly report"'
+      });
+      expect(sentMail).toHaveLength(1);
+      expect(sentMail[0]).toMatchObject({
+        to: 'notify-collaborator@example.com',
+        subject: 'notify-owner@example.com mentioned you on "Quarterly report"'
+      });
+    });
+
+    it('should remind participants of a task due soon once per due date', async () => {
+      const now = new Date('2025-09-01T09:00:00.000Z');
+      await prisma.task.update({ where: { id: taskId }, data: { dueAt: new Date('2025-09-01T17:00:00.000Z') } });
+
+      expect(await remindTasksDueSoon(now)).toBe(2);
+      expect(await remindTasksDueSoon(now)).toBe(0);
+
+      const response = await inbox(ownerToken);
+      expect(response.body.data.map((notification: { type: string }) => notification.type)).toContain('TASK_DUE_SOON');
+    });
+  });
+
+  describe('inbox', () => {
+    beforeEach(async () => {
+      await prisma.notification.createMany({
+        data: [1, 2, 3].map(n => ({
+          userId: ownerId,
+          type: 'TASK_UPDATED' as const,
+          message: `Change ${n}`,
+          taskId,
+          channels: ['IN_APP' as const]
+        }))
+      });
+    });
+
+    it('should list notifications newest first with pagination', async () => {
+      const first = await inbox(ownerToken, '?limit=2');
+      const second = await inbox(ownerToken, `?limit=2&cursor=${first.body.nextCursor}`);
+
+      expect(first.body.data.map((notification: { message: string }) => notification.message)).toEqual(['Change 3', 'Change 2']);
+      expect(second.body.data.map((notification: { message: string }) => notification.message)).toEqual(['Change 1']);
+      expect(second.body.nextCursor).toBeNull();
+    });
+
+    it('should count and mark notifications as read', async () => {
+      const [newest] = (await inbox(ownerToken)).body.data;
+
+      const read = await request(app)
+        .post(`/api/notifications/${newest.id}/read`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+      const count = await request(app)
+        .get('/api/notifications/unread-count')
+        .set('Authorization', `Bearer ${ownerToken}`);
+      const unread = await inbox(ownerToken, '?unread=true');
+
+      expect(read.status).toBe(200);
+      expect(read.body.readAt).not.toBeNull();
+      expect(count.body).toEqual({ count: 2 });
+      expect(unread.body.data).toHaveLength(2);
+    });
+
+    it('should mark every notification as read', async () => {
+      const response = await request(app)
+        .post('/api/notifications/read-all')
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(response.body).toEqual({ count: 3 });
+      expect((await inbox(ownerToken, '?unread=true')).body.data).toEqual([]);
+    });
+
+    it("should not mark another user's notification", async () => {
+      const [newest] = (await inbox(ownerToken)).body.data;
+
+      const response = await request(app)
+        .post(`/api/notifications/${newest.id}/read`)
+        .set('Authorization', `Bearer ${collaboratorToken}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('preferences', () => {
+    it('should return the defaults', async () => {
+      const response = await request(app)
+        .get('/api/notifications/preferences')
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(response.body).toEqual({
+        channels: {
+          TASK_SHARED: ['IN_APP', 'EMAIL'],
+          TASK_MENTIONED: ['IN_APP', 'EMAIL'],
+          TASK_DUE_SOON: ['IN_APP', 'EMAIL'],
+          TASK_UPDATED: ['IN_APP'],
+          TASK_ASSIGNED: ['IN_APP', 'EMAIL']
+        },
+        emailDigest: false
+      });
+    });
+
+    it('should route each type to the chosen channels', async () => {
+      const response = await setPreferences(ownerToken, { channels: { TASK_UPDATED: [] } });
+
+      await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${collaboratorToken}`)
+        .send({ priority: 'LOW' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.channels.TASK_UPDATED).toEqual([]);
+      expect(response.body.channels.TASK_MENTIONED).toEqual(['IN_APP', 'EMAIL']);
+      expect(await prisma.notification.count({ where: { userId: ownerId } })).toBe(0);
+    });
+
+    it('should reject unknown channels', async () => {
+      const response = await setPreferences(ownerToken, { channels: { TASK_UPDATED: ['SMS'] } });
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('channels.TASK_UPDATED.0');
+    });
+
+    it('should collect emails into a daily digest', async () => {
+      await setPreferences(collaboratorToken, { emailDigest: true });
+
+      for (const n of [1, 2]) {
+        await request(app)
+          .post(`/api/tasks/${taskId}/comments`)
+          .set('Authorization', `Bearer ${ownerToken}`)
+          .send({ body: `Note ${n} for @notify-collaborator@example.com` });
+      }
+
+      expect(sentMail).toEqual([]);
+
+      const now = new Date();
+      expect(await sendDigests(now)).toBe(1);
+      expect(await sendDigests(new Date(now.getTime() + 60 * 60 * 1000))).toBe(0);
+      expect(sentMail).toHaveLength(1);
+      expect(sentMail[0].subject).toBe('Your task digest: 2 notifications');
+      expect(sentMail[0].text).toContain('- notify-owner@example.com mentioned you on "Quarterly report"');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import request from 'supertest';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+
+describe('Personal access token API', () => {
+  let ownerToken: string;
+  let outsiderToken: string;
+
+  const createAccessToken = (body: Record<string, unknown>, token = ownerToken) => request(app)
+    .post('/api/access-tokens')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+
+    ({ token: ownerToken } = await createUserWithToken('patowner@example.com', 'ownerpassword'));
+    ({ token: outsiderToken } = await createUserWithToken('patoutsider@example.com', 'outsiderpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await prisma.personalAccessToken.deleteMany({});
+  });
+
+  it('should show the token once and store only its hash', async () => {
+    const response = await createAccessToken({ name: 'CI', scopes: ['tasks:read'] });
+
+    expect(response.status).toBe(201);
+    expect(response.body.token).toMatch(/^pat_/);
+    expect(response.body.tokenPrefix).toBe(response.body.token.slice(0, response.body.tokenPrefix.length));
+    expect(response.body).not.toHaveProperty('tokenHash');
+
+    const stored = await prisma.personalAccessToken.findUnique({ where: { id: response.body.id } });
+    expect(stored?.tokenHash).not.toBe(response.body.token);
+
+    const list = await request(app)
+      .get('/api/access-tokens')
+      .set('Authorization', `Bearer ${ownerToken}`);
+
+    expect(list.status).toBe(200);
+    expect(list.body).toHaveLength(1);
+    expect(list.body[0]).toMatchObject({ name: 'CI', scopes: ['tasks:read'] });
+    expect(list.body[0]).not.toHaveProperty('token');
+  });
+
+  it('should validate name, scopes and expiry', async () => {
+    const response = await createAccessToken({
+      name: '',
+      scopes: ['tasks:admin'],
+      expiresAt: '2000-01-01T00:00:00Z'
+    });
+
+    expect(response.status).toBe(422);
+    expect(response.body.errors.map((error: { field: string }) => error.field))
+      .toEqual(expect.arrayContaining(['name', 'scopes.0', 'expiresAt']));
+  });
+
+  it('should authenticate task requests and record when the token was used', async () => {
+    const { body: { id, token } } = await createAccessToken({ name: 'CI', scopes: ['tasks:write'] });
+
+    const created = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ title: 'Created by CI' });
+    expect(created.status).toBe(201);
+
+    // Write access includes read access.
+    const listed = await request(app)
+      .get('/api/tasks')
+      .set('Authorization', `Bearer ${token}`);
+    expect(listed.status).toBe(200);
+
+    const stored = await prisma.personalAccessToken.findUnique({ where: { id } });
+    expect(stored?.lastUsedAt).not.toBeNull();
+  });
+
+  it('should refuse routes outside the token scopes', async () => {
+    const { body: { token } } = await createAccessToken({ name: 'Reports', scopes: ['tasks:read'] });
+
+    const read = await request(app)
+      .get('/api/tasks')
+      .set('Authorization', `Bearer ${token}`);
+    expect(read.status).toBe(200);
+
+    const write = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ title: 'Not allowed' });
+    expect(write.status).toBe(403);
+    expect(write.body.message).toBe('This token does not have the tasks:write scope');
+
+    // Routes without a declared scope, such as token management, only accept logins.
+    const unscoped = await request(app)
+      .get('/api/access-tokens')
+      .set('Authorization', `Bearer ${token}`);
+    expect(unscoped.status).toBe(403);
+  });
+
+  it('should reject revoked and expired tokens', async () => {
+    const { body: revoked } = await createAccessToken({ name: 'Old CI', scopes: ['tasks:read'] });
+    const { body: expiring } = await createAccessToken({ name: 'Short-lived', scopes: ['tasks:read'] });
+
+    const revokeResponse = await request(app)
+      .delete(`/api/access-tokens/${revoked.id}`)
+      .set('Authorization', `Bearer ${ownerToken}`);
+    expect(revokeResponse.status).toBe(204);
+
+    await prisma.personalAccessToken.update({
+      where: { id: expiring.id },
+      data: { expiresAt: new Date(Date.now() - 1000) }
+    });
+
+    for (const { token } of [revoked, expiring]) {
+      const response = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${token}`);
+      expect(response.status).toBe(403);
+    }
+  });
+
+  it('should only let the owner revoke a token', async () => {
+    const { body: { id } } = await createAccessToken({ name: 'CI', scopes: ['tasks:read'] });
+
+    const response = await request(app)
+      .delete(`/api/access-tokens/${id}`)
+      .set('Authorization', `Bearer ${outsiderToken}`);
+
+    expect(response.status).toBe(403);
+  });
+});
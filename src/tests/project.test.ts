@@ -0,0 +1,233 @@
+import request from 'supertest';
+import { Task } from '@prisma/client';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+
+describe('Project API', () => {
+  let ownerToken: string;
+  let memberToken: string;
+  let outsiderToken: string;
+  let ownerId: number;
+  let memberId: number;
+
+  const createProject = async (name = 'Roadmap') => {
+    const response = await request(app)
+      .post('/api/projects')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ name });
+    return response.body.id as number;
+  };
+
+  const addMember = (projectId: number, email: string, role?: string) => request(app)
+    .post(`/api/projects/${projectId}/members`)
+    .set('Authorization', `Bearer ${ownerToken}`)
+    .send({ email, role });
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    ({ userId: ownerId, token: ownerToken } = await createUserWithToken('projectowner@example.com', 'ownerpassword'));
+    ({ userId: memberId, token: memberToken } = await createUserWithToken('projectmember@example.com', 'memberpassword'));
+    ({ token: outsiderToken } = await createUserWithToken('outsider@example.com', 'outsiderpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+  });
+
+  describe('POST /api/projects', () => {
+    it('should create a project owned by the caller', async () => {
+      const response = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: '  Roadmap  ' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.name).toBe('Roadmap');
+      expect(response.body.role).toBe('OWNER');
+    });
+
+    it('should require a name', async () => {
+      const response = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({});
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('name');
+    });
+  });
+
+  describe('GET and PATCH /api/projects', () => {
+    it('should only list projects the caller belongs to', async () => {
+      await createProject();
+
+      const own = await request(app)
+        .get('/api/projects')
+        .set('Authorization', `Bearer ${ownerToken}`);
+      expect(own.body).toHaveLength(1);
+
+      const other = await request(app)
+        .get('/api/projects')
+        .set('Authorization', `Bearer ${outsiderToken}`);
+      expect(other.body).toHaveLength(0);
+    });
+
+    it('should rename and archive a project', async () => {
+      const projectId = await createProject();
+
+      const response = await request(app)
+        .patch(`/api/projects/${projectId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'Renamed', isArchived: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toBe('Renamed');
+      expect(response.body.isArchived).toBe(true);
+
+      const active = await request(app)
+        .get('/api/projects')
+        .set('Authorization', `Bearer ${ownerToken}`);
+      expect(active.body).toHaveLength(0);
+
+      const archived = await request(app)
+        .get('/api/projects?isArchived=true')
+        .set('Authorization', `Bearer ${ownerToken}`);
+      expect(archived.body).toHaveLength(1);
+    });
+
+    it('should not let plain members rename a project', async () => {
+      const projectId = await createProject();
+      await addMember(projectId, 'projectmember@example.com');
+
+      const response = await request(app)
+        .patch(`/api/projects/${projectId}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ name: 'Hijacked' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('members', () => {
+    it('should add, promote and remove a member', async () => {
+      const projectId = await createProject();
+
+      const added = await addMember(projectId, 'projectmember@example.com');
+      expect(added.status).toBe(201);
+      expect(added.body.role).toBe('MEMBER');
+
+      const duplicate = await addMember(projectId, 'projectmember@example.com');
+      expect(duplicate.status).toBe(409);
+
+      const promoted = await request(app)
+        .patch(`/api/projects/${projectId}/members/${memberId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ role: 'ADMIN' });
+      expect(promoted.status).toBe(200);
+      expect(promoted.body.role).toBe('ADMIN');
+
+      const members = await request(app)
+        .get(`/api/projects/${projectId}/members`)
+        .set('Authorization', `Bearer ${memberToken}`);
+      expect(members.body).toHaveLength(2);
+
+      const removed = await request(app)
+        .delete(`/api/projects/${projectId}/members/${memberId}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+      expect(removed.status).toBe(204);
+    });
+
+    it('should not allow granting or removing the owner role', async () => {
+      const projectId = await createProject();
+
+      const grant = await addMember(projectId, 'projectmember@example.com', 'OWNER');
+      expect(grant.status).toBe(422);
+
+      const removeOwner = await request(app)
+        .delete(`/api/projects/${projectId}/members/${ownerId}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+      expect(removeOwner.status).toBe(422);
+    });
+  });
+
+  describe('project tasks', () => {
+    it('should scope task listing to a project and share access with members', async () => {
+      const projectId = await createProject();
+      await addMember(projectId, 'projectmember@example.com');
+
+      const created = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ title: 'Project Task', projectId });
+      expect(created.status).toBe(201);
+      expect(created.body.projectId).toBe(projectId);
+
+      await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ title: 'Personal Task' });
+
+      const list = await request(app)
+        .get(`/api/tasks?projectId=${projectId}`)
+        .set('Authorization', `Bearer ${memberToken}`);
+      expect(list.status).toBe(200);
+      expect(list.body.data.map((task: Task) => task.title)).toEqual(['Project Task']);
+
+      const update = await request(app)
+        .patch(`/api/tasks/${created.body.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ status: 'DONE' });
+      expect(update.status).toBe(200);
+
+      const remove = await request(app)
+        .delete(`/api/tasks/${created.body.id}`)
+        .set('Authorization', `Bearer ${memberToken}`);
+      expect(remove.status).toBe(403);
+    });
+
+    it('should reject listing or creating tasks in a project the caller is not in', async () => {
+      const projectId = await createProject();
+
+      const list = await request(app)
+        .get(`/api/tasks?projectId=${projectId}`)
+        .set('Authorization', `Bearer ${outsiderToken}`);
+      expect(list.status).toBe(403);
+
+      const create = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${outsiderToken}`)
+        .send({ title: 'Sneaky', projectId });
+      expect(create.status).toBe(403);
+    });
+
+    it('should not create tasks in an archived project', async () => {
+      const projectId = await createProject();
+      await request(app)
+        .patch(`/api/projects/${projectId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ isArchived: true });
+
+      const response = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ title: 'Late', projectId });
+
+      expect(response.status).toBe(422);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { taskRecurrenceSchema } from '../models/Task';
+import {
+  formatRecurrenceRule,
+  fromZonedTime,
+  nextOccurrence,
+  occurrencesBetween,
+  parseRecurrenceRule,
+  recurrenceOccurrences,
+  RecurrenceSchedule
+} from '../services/recurrence';
+
+const schedule = (rule: string, startAt: string, timeZone = 'UTC'): RecurrenceSchedule => ({
+  rule: parseRecurrenceRule(rule),
+  startAt: new Date(startAt),
+  timeZone
+});
+
+const first = (value: RecurrenceSchedule, count: number) => {
+  const dates: string[] = [];
+
+  for (const at of recurrenceOccurrences(value)) {
+    if (dates.length === count) {
+      break;
+    }
+
+    dates.push(at.toISOString());
+  }
+
+  return dates;
+};
+
+describe('Recurrence rules', () => {
+  describe('parsing', () => {
+    it('should accept a lower case rule with an RRULE prefix and store it in canonical form', () => {
+      const rule = parseRecurrenceRule('rrule:byday=mo,we;freq=weekly;interval=2;count=10');
+
+      expect(formatRecurrenceRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10');
+    });
+
+    it('should keep the form of UNTIL', () => {
+      expect(formatRecurrenceRule(parseRecurrenceRule('FREQ=DAILY;UNTIL=20251231'))).toBe('FREQ=DAILY;UNTIL=20251231');
+      expect(formatRecurrenceRule(parseRecurrenceRule('FREQ=DAILY;UNTIL=20251231T170000Z')))
+        .toBe('FREQ=DAILY;UNTIL=20251231T170000Z');
+    });
+
+    it.each([
+      ['FREQ=YEARLY', 'FREQ must be one of DAILY, WEEKLY, MONTHLY'],
+      ['FREQ=MONTHLY;BYSETPOS=-1', 'BYSETPOS is not supported'],
+      ['FREQ=DAILY;COUNT=3;UNTIL=20251231', 'UNTIL and COUNT cannot be combined'],
+      ['FREQ=WEEKLY;BYDAY=1MO', 'only allowed in monthly rules'],
+      ['FREQ=WEEKLY;BYMONTHDAY=1', 'BYMONTHDAY is only allowed in monthly rules'],
+      ['FREQ=MONTHLY;BYDAY=6MO', 'BYDAY positions must be from 1 to 5'],
+      ['FREQ=DAILY;INTERVAL=0', 'INTERVAL must be a whole number'],
+      ['FREQ=DAILY;UNTIL=20250231', 'UNTIL must be a date'],
+      ['FREQ=DAILY;FREQ=WEEKLY', 'FREQ is given more than once'],
+      ['FREQ=DAILY;COUNT', 'expected NAME=VALUE']
+    ])('should reject %s', (rule, message) => {
+      expect(() => parseRecurrenceRule(rule)).toThrow(message);
+    });
+
+    it('should report invalid rules and time zones as validation issues', () => {
+      const result = taskRecurrenceSchema.safeParse({ rule: 'FREQ=HOURLY', timezone: 'Mars/Olympus_Mons' });
+
+      expect(result.success).toBe(false);
+      expect(result.error!.issues.map(issue => issue.path.join('.'))).toEqual(['rule', 'timezone']);
+    });
+
+    it('should default the time zone to UTC', () => {
+      expect(taskRecurrenceSchema.parse({ rule: 'freq=daily' })).toEqual({ rule: 'FREQ=DAILY', timezone: 'UTC' });
+    });
+  });
+
+  describe('occurrences', () => {
+    it('should repeat every other day and stop after COUNT occurrences, DTSTART included', () => {
+      expect(first(schedule('FREQ=DAILY;INTERVAL=2;COUNT=3', '2025-09-01T09:00:00.000Z'), 10)).toEqual([
+        '2025-09-01T09:00:00.000Z',
+        '2025-09-03T09:00:00.000Z',
+        '2025-09-05T09:00:00.000Z'
+      ]);
+    });
+
+    it('should limit a daily rule to weekdays', () => {
+      expect(first(schedule('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', '2025-09-04T09:00:00.000Z'), 4)).toEqual([
+        '2025-09-04T09:00:00.000Z',
+        '2025-09-05T09:00:00.000Z',
+        '2025-09-08T09:00:00.000Z',
+        '2025-09-09T09:00:00.000Z'
+      ]);
+    });
+
+    it('should repeat on several weekdays, skipping weeks by INTERVAL', () => {
+      // 2025-09-03 is a Wednesday.
+      expect(first(schedule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR', '2025-09-03T09:00:00.000Z'), 4)).toEqual([
+        '2025-09-03T09:00:00.000Z',
+        '2025-09-05T09:00:00.000Z',
+        '2025-09-15T09:00:00.000Z',
+        '2025-09-19T09:00:00.000Z'
+      ]);
+    });
+
+    it('should keep the local time across daylight saving changes', () => {
+      // Mondays at 09:00 in Berlin; clocks go back on 2025-10-26.
+      expect(first(schedule('FREQ=WEEKLY', '2025-10-20T07:00:00.000Z', 'Europe/Berlin'), 3)).toEqual([
+        '2025-10-20T07:00:00.000Z',
+        '2025-10-27T08:00:00.000Z',
+        '2025-11-03T08:00:00.000Z'
+      ]);
+    });
+
+    it('should read weekdays in the rule time zone', () => {
+      // 08:00 on Monday in Auckland is still Sunday in UTC.
+      const dates = first(schedule('FREQ=WEEKLY;BYDAY=MO', '2025-09-07T20:00:00.000Z', 'Pacific/Auckland'), 3);
+
+      expect(dates).toEqual(['2025-09-07T20:00:00.000Z', '2025-09-14T20:00:00.000Z', '2025-09-21T20:00:00.000Z']);
+      expect(dates.map(date => new Date(date).getUTCDay())).toEqual([0, 0, 0]);
+    });
+
+    it('should skip months without the start day', () => {
+      expect(first(schedule('FREQ=MONTHLY', '2025-01-31T12:00:00.000Z'), 3)).toEqual([
+        '2025-01-31T12:00:00.000Z',
+        '2025-03-31T12:00:00.000Z',
+        '2025-05-31T12:00:00.000Z'
+      ]);
+    });
+
+    it('should count month days from the end when negative', () => {
+      expect(first(schedule('FREQ=MONTHLY;BYMONTHDAY=-1', '2025-01-31T12:00:00.000Z'), 3)).toEqual([
+        '2025-01-31T12:00:00.000Z',
+        '2025-02-28T12:00:00.000Z',
+        '2025-03-31T12:00:00.000Z'
+      ]);
+    });
+
+    it('should find the nth and the last weekday of the month', () => {
+      expect(first(schedule('FREQ=MONTHLY;BYDAY=2MO,-1FR', '2025-09-01T12:00:00.000Z'), 5)).toEqual([
+        '2025-09-01T12:00:00.000Z',
+        '2025-09-08T12:00:00.000Z',
+        '2025-09-26T12:00:00.000Z',
+        '2025-10-13T12:00:00.000Z',
+        '2025-10-31T12:00:00.000Z'
+      ]);
+    });
+
+    it('should combine BYDAY and BYMONTHDAY', () => {
+      expect(first(schedule('FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13', '2025-01-01T12:00:00.000Z'), 3)).toEqual([
+        '2025-01-01T12:00:00.000Z',
+        '2025-06-13T12:00:00.000Z',
+        '2026-02-13T12:00:00.000Z'
+      ]);
+    });
+
+    it('should include the whole UNTIL day in the rule time zone', () => {
+      // 23:30 on 2025-09-02 in New York is already 2025-09-03 in UTC.
+      expect(first(schedule('FREQ=DAILY;UNTIL=20250902', '2025-09-01T03:30:00.000Z', 'America/New_York'), 5)).toEqual([
+        '2025-09-01T03:30:00.000Z',
+        '2025-09-02T03:30:00.000Z',
+        '2025-09-03T03:30:00.000Z'
+      ]);
+    });
+
+    it('should stop at a UTC UNTIL time', () => {
+      expect(first(schedule('FREQ=DAILY;UNTIL=20250902T090000Z', '2025-09-01T09:00:00.000Z'), 5)).toEqual([
+        '2025-09-01T09:00:00.000Z',
+        '2025-09-02T09:00:00.000Z'
+      ]);
+    });
+
+    it('should end a rule that can never match again', () => {
+      expect(nextOccurrence(schedule('FREQ=MONTHLY;INTERVAL=12;BYMONTHDAY=30', '2025-02-01T12:00:00.000Z'),
+        new Date('2025-02-01T12:00:00.000Z'))).toBeNull();
+    });
+  });
+
+  describe('time zones', () => {
+    const local = (day: number, month: number, hour: number, minute: number) =>
+      ({ year: 2025, month, day, hour, minute, second: 0, millisecond: 0 });
+
+    it('should move a time skipped by the clocks going forward past the gap', () => {
+      expect(fromZonedTime(local(30, 3, 2, 30), 'Europe/Berlin').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+      expect(fromZonedTime(local(9, 3, 2, 30), 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z');
+    });
+
+    it('should take the first of two times repeated by the clocks going back', () => {
+      expect(fromZonedTime(local(26, 10, 2, 30), 'Europe/Berlin').toISOString()).toBe('2025-10-26T00:30:00.000Z');
+      expect(fromZonedTime(local(2, 11, 1, 30), 'America/New_York').toISOString()).toBe('2025-11-02T05:30:00.000Z');
+    });
+  });
+
+  describe('looking ahead', () => {
+    const weekly = schedule('FREQ=WEEKLY;BYDAY=MO,TH', '2025-09-01T09:00:00.000Z');
+    const now = new Date('2025-09-10T12:00:00.000Z');
+
+    it('should find the next occurrence after a given time', () => {
+      expect(nextOccurrence(weekly, now)).toEqual(new Date('2025-09-11T09:00:00.000Z'));
+    });
+
+    it('should list the occurrences within a horizon', () => {
+      const horizon = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+      expect(occurrencesBetween(weekly, now, horizon, 10)).toEqual([
+        new Date('2025-09-11T09:00:00.000Z'),
+        new Date('2025-09-15T09:00:00.000Z')
+      ]);
+      expect(occurrencesBetween(weekly, now, horizon, 1)).toHaveLength(1);
+    });
+  });
+});
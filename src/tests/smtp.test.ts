@@ -0,0 +1,76 @@
+import net, { AddressInfo } from 'net';
+import { sendSmtpMail, SmtpOptions } from '../services/smtp';
+
+describe('SMTP client', () => {
+  let server: net.Server;
+  let commands: string[];
+  // Answers each command the client sends; returning null leaves it unanswered.
+  let respond: (command: string) => string | null;
+  let options: SmtpOptions;
+
+  const message = { from: 'tasks@example.com', to: 'user@example.com', subject: 'Hello', text: 'Hi there' };
+
+  beforeEach(async () => {
+    commands = [];
+    respond = command => (command.startsWith('EHLO') ? '250-smtp.example.com\r\n250 AUTH PLAIN' : '250 OK');
+
+    server = net.createServer(socket => {
+      let buffer = '';
+      let inData = false;
+
+      socket.write('220 smtp.example.com ready\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString('utf-8');
+        let newline;
+
+        while ((newline = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 2);
+
+          if (inData) {
+            inData = line !== '.';
+            if (!inData) {
+              socket.write('250 Queued\r\n');
+            }
+            continue;
+          }
+
+          commands.push(line);
+          inData = line === 'DATA';
+          const reply = line === 'DATA' ? '354 Go ahead' : line === 'QUIT' ? '221 Bye' : respond(line);
+
+          if (reply !== null) {
+            socket.write(`${reply}\r\n`);
+          }
+        }
+      });
+      socket.on('error', () => undefined);
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    options = { host: '127.0.0.1', port: (server.address() as AddressInfo).port, secure: false, timeoutMs: 500 };
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should send a message over a plain connection without credentials', async () => {
+    await sendSmtpMail(options, message);
+
+    expect(commands.map(command => command.split(/[ :]/)[0])).toEqual(['EHLO', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+  });
+
+  it('should not send credentials when the server does not offer STARTTLS', async () => {
+    await expect(sendSmtpMail({ ...options, user: 'tasks', password: 'secret' }, message))
+      .rejects.toThrow('refusing to send credentials in plain text');
+
+    expect(commands.some(command => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should give up on a server that stops answering', async () => {
+    respond = command => (command.startsWith('EHLO') ? null : '250 OK');
+
+    await expect(sendSmtpMail(options, message)).rejects.toThrow('SMTP connection timed out');
+  });
+});
@@ -1,8 +1,14 @@
-import { TaskStatus } from '../models/Task';
+import { TaskPriority, TaskStatus } from '../models/Task';
+import { Task, TaskActivity } from '@prisma/client';
 import request from 'supertest';
 import app from '../app';
 import bcrypt from 'bcrypt';
 import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+import { encodeCursor } from '../services/pagination';
+import { purgeDeletedTasks } from '../jobs/taskPurge';
+import { createUpcomingOccurrences } from '../jobs/taskRecurrence';
 
 describe('Task API', () => {
   let authToken: string;
@@ -11,7 +17,7 @@ describe('Task API', () => {
   beforeAll(async () => {
     await prisma.$connect();
     
-    await prisma.task.deleteMany({});
+    await deleteAllTasks();
     await prisma.user.deleteMany({});
 
     const hashedPassword = await bcrypt.hash('taskpassword', 10);
@@ -32,14 +38,14 @@ describe('Task API', () => {
   });
 
   afterAll(async () => {
-    await prisma.task.deleteMany({});
+    await deleteAllTasks();
     await prisma.user.deleteMany({});
     await prisma.$disconnect();
   });
 
   describe('GET /api/tasks', () => {
     beforeEach(async () => {
-      await prisma.task.deleteMany({});
+      await deleteAllTasks();
     });
 
     it('should return an empty array when no tasks exist', async () => {
@@ -48,7 +54,7 @@ describe('Task API', () => {
         .set('Authorization', `Bearer ${authToken}`);
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual([]);
+      expect(response.body).toEqual({ data: [], nextCursor: null });
     });
 
     it('should only return tasks for the authenticated user', async () => {
@@ -82,10 +88,115 @@ describe('Task API', () => {
         .set('Authorization', `Bearer ${authToken}`);
 
       expect(response.status).toBe(200);
-      expect(response.body).toHaveLength(1);
-      expect(response.body[0].title).toBe('Test Task');
-      expect(response.body[0].status).toBe(TaskStatus.TODO);
-      expect(response.body[0].userId).toBe(userId);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].title).toBe('Test Task');
+      expect(response.body.data[0].status).toBe(TaskStatus.TODO);
+      expect(response.body.data[0].userId).toBe(userId);
+    });
+
+    it('should exclude archived tasks unless requested', async () => {
+      await prisma.task.create({ data: { title: 'Active', userId } });
+      await prisma.task.create({ data: { title: 'Archived', isArchived: true, userId } });
+
+      const active = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(active.status).toBe(200);
+      expect(active.body.data.map((task: Task) => task.title)).toEqual(['Active']);
+
+      const archived = await request(app)
+        .get('/api/tasks?isArchived=true')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(archived.status).toBe(200);
+      expect(archived.body.data.map((task: Task) => task.title)).toEqual(['Archived']);
+    });
+
+    it('should filter by one or more statuses', async () => {
+      await prisma.task.create({ data: { title: 'Todo', status: TaskStatus.TODO, userId } });
+      await prisma.task.create({ data: { title: 'Doing', status: TaskStatus.IN_PROGRESS, userId } });
+      await prisma.task.create({ data: { title: 'Done', status: TaskStatus.DONE, userId } });
+
+      const response = await request(app)
+        .get('/api/tasks?status=TODO&status=DONE')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((task: Task) => task.title).sort()).toEqual(['Done', 'Todo']);
+    });
+
+    it('should filter by title and description text', async () => {
+      await prisma.task.create({ data: { title: 'Write report', userId } });
+      await prisma.task.create({ data: { title: 'Other', description: 'Review the REPORT draft', userId } });
+      await prisma.task.create({ data: { title: 'Unrelated', userId } });
+
+      const response = await request(app)
+        .get('/api/tasks?q=report')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((task: Task) => task.title).sort()).toEqual(['Other', 'Write report']);
+    });
+
+    it('should filter by creation date range', async () => {
+      await prisma.task.create({ data: { title: 'Recent', userId } });
+
+      const future = new Date(Date.now() + 60_000).toISOString();
+      const response = await request(app)
+        .get(`/api/tasks?createdAfter=${future}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(0);
+    });
+
+    it('should sort and paginate with an opaque cursor', async () => {
+      for (const title of ['c', 'a', 'e', 'b', 'd']) {
+        await prisma.task.create({ data: { title, userId } });
+      }
+
+      const first = await request(app)
+        .get('/api/tasks?sortBy=title&sortOrder=desc&limit=2')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(first.status).toBe(200);
+      expect(first.body.data.map((task: Task) => task.title)).toEqual(['e', 'd']);
+      expect(typeof first.body.nextCursor).toBe('string');
+
+      const second = await request(app)
+        .get(`/api/tasks?sortBy=title&sortOrder=desc&limit=2&cursor=${first.body.nextCursor}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(second.body.data.map((task: Task) => task.title)).toEqual(['c', 'b']);
+
+      const third = await request(app)
+        .get(`/api/tasks?sortBy=title&sortOrder=desc&limit=2&cursor=${second.body.nextCursor}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(third.body.data.map((task: Task) => task.title)).toEqual(['a']);
+      expect(third.body.nextCursor).toBeNull();
+    });
+
+    it('should reject invalid query parameters', async () => {
+      const response = await request(app)
+        .get('/api/tasks?status=Invalid&limit=0&cursor=garbage')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(422);
+      expect(response.body.message).toBe('Validation failed');
+      expect(response.body.errors.map((error: { field: string }) => error.field).sort()).toEqual(['cursor', 'limit', 'status.0']);
+    });
+
+    it('should reject a cursor whose value does not fit the sort field', async () => {
+      const cursor = encodeCursor({ sortBy: 'createdAt', value: 'not a date', id: 1 });
+
+      const response = await request(app)
+        .get(`/api/tasks?cursor=${cursor}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0]).toMatchObject({ field: 'cursor', message: 'Invalid cursor' });
     });
 
     it('should require authentication', async () => {
@@ -182,7 +293,7 @@ describe('Task API', () => {
     let taskId: number;
 
     beforeEach(async () => {
-      await prisma.task.deleteMany({});
+      await deleteAllTasks();
       
       const savedTask = await prisma.task.create({
         data: {
@@ -234,6 +345,815 @@ describe('Task API', () => {
       expect(response.body.errors[0].field).toBe('status');
       expect(response.body.errors[0].message.length).toBeGreaterThan(0);
     });
+    it('should return the new version as an ETag', async () => {
+      const response = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Versioned' });
+
+      expect(response.headers.etag).toBe('"2"');
+      expect(response.body.version).toBe(2);
+    });
+
+    it('should apply an update made against the current version', async () => {
+      const response = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('If-Match', '"1"')
+        .send({ title: 'First edit' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.etag).toBe('"2"');
+    });
+
+    it('should reject an update made against a stale version with the current task', async () => {
+      await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('If-Match', '"1"')
+        .send({ title: 'First edit' });
+
+      const response = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('If-Match', '"1"')
+        .send({ title: 'Second edit' });
+
+      expect(response.status).toBe(412);
+      expect(response.headers.etag).toBe('"2"');
+      expect(response.body.task.title).toBe('First edit');
+
+      const task = await prisma.task.findUnique({ where: { id: taskId } });
+      expect(task?.title).toBe('First edit');
+    });
+
+    it('should let only one of two concurrent updates with the same version through', async () => {
+      const edit = (title: string) => request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('If-Match', '"1"')
+        .send({ title });
+
+      const statuses = (await Promise.all([edit('Edit A'), edit('Edit B')])).map(response => response.status);
+
+      expect(statuses.sort()).toEqual([200, 412]);
+    });
+
+    it('should answer 304 when the task has not changed', async () => {
+      const first = await request(app)
+        .get(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      const unchanged = await request(app)
+        .get(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('If-None-Match', first.headers.etag);
+      expect(unchanged.status).toBe(304);
+
+      await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Changed' });
+
+      const changed = await request(app)
+        .get(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('If-None-Match', first.headers.etag);
+      expect(changed.status).toBe(200);
+      expect(changed.headers.etag).toBe('"2"');
+    });
+  });
+
+  describe('due dates and priorities', () => {
+    const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    beforeEach(async () => {
+      await deleteAllTasks();
+    });
+
+    it('should create a task with a due date, priority and estimate', async () => {
+      const dueAt = hoursFromNow(24).toISOString();
+
+      const response = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Planned', dueAt, priority: TaskPriority.HIGH, estimateMinutes: 90 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.dueAt).toBe(dueAt);
+      expect(response.body.priority).toBe(TaskPriority.HIGH);
+      expect(response.body.estimateMinutes).toBe(90);
+    });
+
+    it('should default the priority to MEDIUM', async () => {
+      const response = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Default priority' });
+
+      expect(response.body.priority).toBe(TaskPriority.MEDIUM);
+      expect(response.body.dueAt).toBeNull();
+    });
+
+    it('should validate priority, due date and estimate', async () => {
+      const response = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Invalid', priority: 'CRITICAL', dueAt: 'tomorrow', estimateMinutes: -5 });
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors.map((error: { field: string }) => error.field).sort()).toEqual(['dueAt', 'estimateMinutes', 'priority']);
+    });
+
+    it('should update and clear the due date', async () => {
+      const task = await prisma.task.create({ data: { title: 'Due', dueAt: hoursFromNow(1), userId } });
+
+      const response = await request(app)
+        .patch(`/api/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ dueAt: null, priority: TaskPriority.URGENT });
+
+      expect(response.status).toBe(200);
+      expect(response.body.dueAt).toBeNull();
+      expect(response.body.priority).toBe(TaskPriority.URGENT);
+    });
+
+    it('should list overdue tasks that are not done', async () => {
+      await prisma.task.create({ data: { title: 'Late', dueAt: hoursFromNow(-2), userId } });
+      await prisma.task.create({ data: { title: 'Later', dueAt: hoursFromNow(-1), userId } });
+      await prisma.task.create({ data: { title: 'Done late', dueAt: hoursFromNow(-3), status: TaskStatus.DONE, userId } });
+      await prisma.task.create({ data: { title: 'Future', dueAt: hoursFromNow(2), userId } });
+
+      const response = await request(app)
+        .get('/api/tasks/overdue')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((task: Task) => task.title)).toEqual(['Late', 'Later']);
+    });
+
+    it('should list upcoming tasks within a window', async () => {
+      await prisma.task.create({ data: { title: 'Soon', dueAt: hoursFromNow(5), userId } });
+      await prisma.task.create({ data: { title: 'Next week', dueAt: hoursFromNow(24 * 8), userId } });
+      await prisma.task.create({ data: { title: 'Past', dueAt: hoursFromNow(-5), userId } });
+
+      const day = await request(app)
+        .get('/api/tasks/upcoming?within=1d')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(day.body.data.map((task: Task) => task.title)).toEqual(['Soon']);
+
+      const twoWeeks = await request(app)
+        .get('/api/tasks/upcoming?within=2w')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(twoWeeks.body.data.map((task: Task) => task.title)).toEqual(['Soon', 'Next week']);
+
+      const invalid = await request(app)
+        .get('/api/tasks/upcoming?within=soon')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(invalid.status).toBe(422);
+      expect(invalid.body.errors[0].field).toBe('within');
+    });
+
+    it('should sort and paginate by priority', async () => {
+      for (const priority of [TaskPriority.LOW, TaskPriority.URGENT, TaskPriority.MEDIUM, TaskPriority.HIGH]) {
+        await prisma.task.create({ data: { title: priority, priority, userId } });
+      }
+
+      const first = await request(app)
+        .get('/api/tasks?sortBy=priority&sortOrder=desc&limit=2')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(first.body.data.map((task: Task) => task.priority)).toEqual([TaskPriority.URGENT, TaskPriority.HIGH]);
+
+      const second = await request(app)
+        .get(`/api/tasks?sortBy=priority&sortOrder=desc&limit=2&cursor=${first.body.nextCursor}`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(second.body.data.map((task: Task) => task.priority)).toEqual([TaskPriority.MEDIUM, TaskPriority.LOW]);
+    });
+
+    it('should sort by due date with undated tasks last', async () => {
+      await prisma.task.create({ data: { title: 'No date', userId } });
+      await prisma.task.create({ data: { title: 'Second', dueAt: hoursFromNow(2), userId } });
+      await prisma.task.create({ data: { title: 'First', dueAt: hoursFromNow(1), userId } });
+
+      const first = await request(app)
+        .get('/api/tasks?sortBy=dueAt&limit=2')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(first.body.data.map((task: Task) => task.title)).toEqual(['First', 'Second']);
+
+      const second = await request(app)
+        .get(`/api/tasks?sortBy=dueAt&limit=2&cursor=${first.body.nextCursor}`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(second.body.data.map((task: Task) => task.title)).toEqual(['No date']);
+    });
+  });
+
+  describe('GET /api/tasks/search', () => {
+    const search = (q: string, extra = '') => request(app)
+      .get(`/api/tasks/search?q=${encodeURIComponent(q)}${extra}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    beforeEach(async () => {
+      await deleteAllTasks();
+    });
+
+    it('should rank title matches above description matches', async () => {
+      await prisma.task.create({ data: { title: 'Call the bank', description: 'About the invoice', userId } });
+      await prisma.task.create({ data: { title: 'Pay invoice', description: 'Before Friday', userId } });
+      await prisma.task.create({ data: { title: 'Unrelated', userId } });
+
+      const response = await search('invoice');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((task: { title: string }) => task.title)).toEqual(['Pay invoice', 'Call the bank']);
+      expect(response.body.data[0].rank).toBeGreaterThan(response.body.data[1].rank);
+    });
+
+    it('should highlight matches and escape the rest of the text', async () => {
+      await prisma.task.create({
+        data: { title: 'Fix <b>bold</b> invoices', description: 'Send the <i>late</i> invoices & receipts', userId }
+      });
+
+      const response = await search('invoice');
+
+      expect(response.body.data[0].highlights.title).toBe('Fix &lt;b&gt;bold&lt;/b&gt; <mark>invoices</mark>');
+      expect(response.body.data[0].highlights.description).toContain('&lt;i&gt;late&lt;/i&gt; <mark>invoices</mark> &amp; receipts');
+    });
+
+    it('should support phrase and prefix queries', async () => {
+      await prisma.task.create({ data: { title: 'Write release notes', userId } });
+      await prisma.task.create({ data: { title: 'Notes about the release', userId } });
+      await prisma.task.create({ data: { title: 'Deployment checklist', userId } });
+
+      const phrase = await search('"release notes"');
+      expect(phrase.body.data.map((task: { title: string }) => task.title)).toEqual(['Write release notes']);
+
+      const prefix = await search('deploy*');
+      expect(prefix.body.data.map((task: { title: string }) => task.title)).toEqual(['Deployment checklist']);
+    });
+
+    it('should only search tasks the user can see', async () => {
+      const otherUser = await prisma.user.create({
+        data: { email: 'searchother@example.com', password: await bcrypt.hash('otherpassword', 10) }
+      });
+      await prisma.task.create({ data: { title: 'Secret invoice', userId: otherUser.id } });
+      const shared = await prisma.task.create({ data: { title: 'Shared invoice', userId: otherUser.id } });
+      await prisma.taskCollaborator.create({ data: { taskId: shared.id, userId, role: 'VIEWER' } });
+
+      const owned = await search('invoice');
+      expect(owned.body.data).toEqual([]);
+
+      const all = await search('invoice', '&scope=all');
+      expect(all.body.data.map((task: { title: string }) => task.title)).toEqual(['Shared invoice']);
+    });
+
+    it('should page through results', async () => {
+      for (const title of ['Invoice one', 'Invoice two', 'Invoice three']) {
+        await prisma.task.create({ data: { title, userId } });
+      }
+
+      const first = await search('invoice', '&limit=2');
+      expect(first.body.data).toHaveLength(2);
+      expect(first.body.nextCursor).not.toBeNull();
+
+      const second = await search('invoice', `&limit=2&cursor=${first.body.nextCursor}`);
+      expect(second.body.data).toHaveLength(1);
+      expect(second.body.nextCursor).toBeNull();
+    });
+
+    it('should reject a search cursor without a numeric rank', async () => {
+      const cursor = encodeCursor({ sortBy: 'rank', value: '1); DROP TABLE "Task"; --', id: 1 });
+
+      const response = await search('invoice', `&cursor=${cursor}`);
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0]).toMatchObject({ field: 'cursor', message: 'Invalid cursor' });
+    });
+
+    it('should require searchable text', async () => {
+      const response = await search('"" *');
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('q');
+    });
+  });
+
+  describe('GET /api/tasks/:task_id', () => {
+    beforeEach(async () => {
+      await deleteAllTasks();
+    });
+
+    it('should return a single task', async () => {
+      const task = await prisma.task.create({ data: { title: 'Single', userId } });
+
+      const response = await request(app)
+        .get(`/api/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.id).toBe(task.id);
+      expect(response.body.title).toBe('Single');
+    });
+
+    it('should return 404 for non-existent task', async () => {
+      const response = await request(app)
+        .get('/api/tasks/9999')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 403 for another user's task", async () => {
+      const otherUser = await prisma.user.create({
+        data: {
+          email: 'viewer-other@example.com',
+          password: await bcrypt.hash('otherpassword', 10)
+        }
+      });
+      const task = await prisma.task.create({ data: { title: 'Private', userId: otherUser.id } });
+
+      const response = await request(app)
+        .get(`/api/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('DELETE /api/tasks/:task_id', () => {
+    let taskId: number;
+
+    beforeEach(async () => {
+      await deleteAllTasks();
+      const task = await prisma.task.create({ data: { title: 'To delete', userId } });
+      taskId = task.id;
+    });
+
+    it('should soft-delete a task and hide it', async () => {
+      const response = await request(app)
+        .delete(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(204);
+
+      const stored = await prisma.task.findUnique({ where: { id: taskId } });
+      expect(stored?.deletedAt).not.toBeNull();
+
+      const list = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(list.body.data).toHaveLength(0);
+
+      const detail = await request(app)
+        .get(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(detail.status).toBe(404);
+
+      const update = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Too late' });
+      expect(update.status).toBe(404);
+    });
+
+    it('should restore a deleted task', async () => {
+      await request(app)
+        .delete(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      const response = await request(app)
+        .post(`/api/tasks/${taskId}/restore`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.deletedAt).toBeNull();
+    });
+
+    it('should refuse to restore a task that is not deleted', async () => {
+      const response = await request(app)
+        .post(`/api/tasks/${taskId}/restore`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should purge tasks deleted before the retention window', async () => {
+      const old = await prisma.task.create({
+        data: { title: 'Old', deletedAt: new Date('2000-01-01'), userId }
+      });
+      await prisma.task.update({ where: { id: taskId }, data: { deletedAt: new Date() } });
+
+      const count = await purgeDeletedTasks();
+
+      expect(count).toBe(1);
+      expect(await prisma.task.findUnique({ where: { id: old.id } })).toBeNull();
+      expect(await prisma.task.findUnique({ where: { id: taskId } })).not.toBeNull();
+    });
+  });
+
+  describe('status workflow', () => {
+    let taskId: number;
+
+    beforeEach(async () => {
+      await deleteAllTasks();
+      const task = await prisma.task.create({ data: { title: 'Workflow', userId } });
+      taskId = task.id;
+    });
+
+    it('should stamp startedAt and completedAt as the status changes', async () => {
+      const started = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.IN_PROGRESS });
+
+      expect(started.body.startedAt).not.toBeNull();
+      expect(started.body.completedAt).toBeNull();
+
+      const done = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE, resolution: 'Finished' });
+
+      expect(done.body.completedAt).not.toBeNull();
+      expect(done.body.startedAt).toBe(started.body.startedAt);
+      expect(done.body.resolution).toBe('Finished');
+    });
+
+    it('should reject a disallowed transition with 422', async () => {
+      await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE });
+
+      const response = await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.TODO });
+
+      expect(response.status).toBe(422);
+      expect(response.body.message).toBe('Validation failed');
+      expect(response.body.errors[0].field).toBe('status');
+      expect(response.body.errors[0].message).toContain('Cannot move a task from DONE to TODO');
+    });
+
+    it('should list the valid next moves', async () => {
+      const response = await request(app)
+        .get(`/api/tasks/${taskId}/transitions`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe(TaskStatus.TODO);
+      expect(response.body.transitions.map((transition: { to: string }) => transition.to)).toEqual([TaskStatus.IN_PROGRESS, TaskStatus.DONE]);
+    });
+
+    it('should perform a transition', async () => {
+      const response = await request(app)
+        .post(`/api/tasks/${taskId}/transitions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ to: TaskStatus.IN_PROGRESS });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe(TaskStatus.IN_PROGRESS);
+      expect(response.body.startedAt).not.toBeNull();
+    });
+
+    it('should validate the transition target', async () => {
+      const response = await request(app)
+        .post(`/api/tasks/${taskId}/transitions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ to: 'Invalid Status' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('to');
+    });
+  });
+
+  describe('GET /api/tasks/:task_id/history', () => {
+    beforeEach(async () => {
+      await deleteAllTasks();
+    });
+
+    it('should record every change with the actor and a per-field diff', async () => {
+      const created = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Tracked' });
+      const taskId = created.body.id;
+
+      await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE });
+
+      await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ isArchived: true });
+
+      await request(app)
+        .delete(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      await request(app)
+        .post(`/api/tasks/${taskId}/restore`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      const response = await request(app)
+        .get(`/api/tasks/${taskId}/history`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((activity: TaskActivity) => activity.action)).toEqual([
+        'CREATED', 'UPDATED', 'ARCHIVED', 'DELETED', 'RESTORED'
+      ]);
+      expect(response.body.data.every((activity: TaskActivity) => activity.actorId === userId)).toBe(true);
+      expect(response.body.data[0].changes.title).toEqual({ from: null, to: 'Tracked' });
+      expect(response.body.data[1].changes.status).toEqual({ from: TaskStatus.TODO, to: TaskStatus.DONE });
+      expect(response.body.data[1].changes).not.toHaveProperty('title');
+      expect(response.body.nextCursor).toBeNull();
+    });
+
+    it('should not record updates that change nothing', async () => {
+      const task = await prisma.task.create({ data: { title: 'Same', userId } });
+
+      await request(app)
+        .patch(`/api/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Same' });
+
+      const response = await request(app)
+        .get(`/api/tasks/${task.id}/history`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.body.data.map((activity: TaskActivity) => activity.action)).toEqual(['CREATED']);
+      expect(response.body.data[0].actorId).toBeNull();
+    });
+
+    it('should paginate history', async () => {
+      const task = await prisma.task.create({ data: { title: 'v0', userId } });
+      for (const title of ['v1', 'v2']) {
+        await prisma.task.update({ where: { id: task.id }, data: { title } });
+      }
+
+      const first = await request(app)
+        .get(`/api/tasks/${task.id}/history?limit=2`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(first.body.data).toHaveLength(2);
+
+      const second = await request(app)
+        .get(`/api/tasks/${task.id}/history?limit=2&cursor=${first.body.nextCursor}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(second.body.data).toHaveLength(1);
+      expect(second.body.data[0].changes.title).toEqual({ from: 'v1', to: 'v2' });
+    });
+
+    it('should keep activity records immutable', async () => {
+      await expect(prisma.taskActivity.deleteMany({})).rejects.toThrow('immutable');
+    });
+
+    it('should refuse task writes it cannot record', async () => {
+      const task = await prisma.task.create({ data: { title: 'Live', userId } });
+
+      await expect(prisma.task.delete({ where: { id: task.id } })).rejects.toThrow('soft-deleted');
+      await expect(prisma.task.createMany({ data: [{ title: 'Unrecorded', userId }] })).rejects.toThrow('not recorded');
+      expect(await prisma.task.findUnique({ where: { id: task.id } })).not.toBeNull();
+    });
+  });
+
+  describe('recurring tasks', () => {
+    beforeEach(async () => {
+      await deleteAllTasks();
+      await prisma.taskRecurrence.deleteMany({});
+    });
+
+    const createRecurring = (recurrence: object, dueAt: string | null = '2025-09-01T07:00:00.000Z') => request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: 'Water the plants', dueAt, recurrence });
+
+    const occurrences = () => prisma.task.findMany({
+      where: { deletedAt: null },
+      orderBy: { occurrenceAt: 'asc' }
+    });
+
+    it('should create the first occurrence on the due date', async () => {
+      const response = await createRecurring({ rule: 'freq=weekly;byday=mo,th', timezone: 'Europe/Berlin' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.recurrence).toEqual({ rule: 'FREQ=WEEKLY;BYDAY=MO,TH', timezone: 'Europe/Berlin', endedAt: null });
+      expect(response.body.occurrenceAt).toBe('2025-09-01T07:00:00.000Z');
+    });
+
+    it('should require a due date and a valid rule', async () => {
+      const noDueDate = await createRecurring({ rule: 'FREQ=DAILY' }, null);
+      const badRule = await createRecurring({ rule: 'FREQ=YEARLY' });
+
+      expect(noDueDate.status).toBe(422);
+      expect(noDueDate.body.errors[0]).toMatchObject({ field: 'recurrence', message: 'A repeating task needs a due date' });
+      expect(badRule.status).toBe(422);
+      expect(badRule.body.errors[0].field).toBe('recurrence.rule');
+      expect(await prisma.taskRecurrence.count()).toBe(0);
+    });
+
+    it('should create the next occurrence when one is completed', async () => {
+      const created = await createRecurring({ rule: 'FREQ=WEEKLY;BYDAY=MO,TH', timezone: 'Europe/Berlin' });
+
+      const response = await request(app)
+        .patch(`/api/tasks/${created.body.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE });
+
+      expect(response.status).toBe(200);
+
+      const tasks = await occurrences();
+      expect(tasks).toHaveLength(2);
+      expect(tasks[1]).toMatchObject({
+        title: 'Water the plants',
+        status: TaskStatus.TODO,
+        recurrenceId: tasks[0].recurrenceId,
+        dueAt: new Date('2025-09-04T07:00:00.000Z'),
+        occurrenceAt: new Date('2025-09-04T07:00:00.000Z')
+      });
+    });
+
+    it('should not create the next occurrence twice when a task is reopened and completed again', async () => {
+      const created = await createRecurring({ rule: 'FREQ=DAILY' });
+      const move = (to: keyof typeof TaskStatus) => request(app)
+        .post(`/api/tasks/${created.body.id}/transitions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ to, resolution: 'Watered' });
+
+      await move(TaskStatus.DONE);
+      await move(TaskStatus.IN_PROGRESS);
+      await move(TaskStatus.DONE);
+
+      expect(await occurrences()).toHaveLength(2);
+    });
+
+    it('should stop after the last occurrence of the rule', async () => {
+      const created = await createRecurring({ rule: 'FREQ=DAILY;COUNT=1' });
+
+      await request(app)
+        .patch(`/api/tasks/${created.body.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE });
+
+      expect(await occurrences()).toHaveLength(1);
+      expect((await prisma.taskRecurrence.findFirstOrThrow()).endedAt).not.toBeNull();
+    });
+
+    it('should create upcoming occurrences within the horizon', async () => {
+      await createRecurring({ rule: 'FREQ=DAILY;INTERVAL=2' });
+
+      const count = await createUpcomingOccurrences(new Date('2025-09-02T00:00:00.000Z'));
+      const again = await createUpcomingOccurrences(new Date('2025-09-02T00:00:00.000Z'));
+
+      expect(count).toBe(3);
+      expect(again).toBe(0);
+      expect((await occurrences()).map(task => task.occurrenceAt!.toISOString().slice(0, 10)))
+        .toEqual(['2025-09-01', '2025-09-03', '2025-09-05', '2025-09-07']);
+    });
+
+    it('should stop repeating and delete occurrences nobody has started', async () => {
+      const created = await createRecurring({ rule: 'FREQ=DAILY' });
+      await createUpcomingOccurrences(new Date('2025-09-01T00:00:00.000Z'));
+
+      const response = await request(app)
+        .patch(`/api/tasks/${created.body.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ recurrence: null });
+
+      expect(response.status).toBe(200);
+      expect(response.body.recurrence).toBeNull();
+      expect(await occurrences()).toHaveLength(1);
+      expect((await prisma.taskRecurrence.findFirstOrThrow()).endedAt).not.toBeNull();
+    });
+
+    it('should start a new series when the rule changes', async () => {
+      const created = await createRecurring({ rule: 'FREQ=DAILY' });
+      await createUpcomingOccurrences(new Date('2025-09-01T00:00:00.000Z'));
+
+      const response = await request(app)
+        .patch(`/api/tasks/${created.body.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ recurrence: { rule: 'FREQ=MONTHLY' } });
+
+      expect(response.status).toBe(200);
+      expect(response.body.recurrence).toMatchObject({ rule: 'FREQ=MONTHLY', timezone: 'UTC' });
+      expect(response.body.recurrenceId).not.toBe(created.body.recurrenceId);
+      expect(await occurrences()).toHaveLength(1);
+    });
+  });
+
+  describe('assignment', () => {
+    let teammateId: number;
+    let teammateToken: string;
+
+    beforeAll(async () => {
+      ({ userId: teammateId, token: teammateToken } = await createUserWithToken('assignee@example.com', 'assigneepassword'));
+    });
+
+    beforeEach(async () => {
+      await deleteAllTasks();
+    });
+
+    const shareTask = async (role: 'EDITOR' | 'VIEWER' = 'VIEWER') => {
+      const task = await prisma.task.create({ data: { title: 'Review budget', userId } });
+      await prisma.taskCollaborator.create({ data: { taskId: task.id, userId: teammateId, role } });
+      return task;
+    };
+
+    const patchTask = (taskId: number, token: string, body: object) => request(app)
+      .patch(`/api/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+    it('should create tasks created by and assigned to their owner', async () => {
+      const response = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Mine' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ userId, createdById: userId, assigneeId: userId });
+    });
+
+    it('should reassign a task to a collaborator and record it in the history', async () => {
+      const task = await shareTask();
+
+      const response = await patchTask(task.id, authToken, { assigneeId: teammateId });
+      const history = await request(app)
+        .get(`/api/tasks/${task.id}/history`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.assigneeId).toBe(teammateId);
+      expect(history.body.data[history.body.data.length - 1].changes.assigneeId).toEqual({
+        from: userId,
+        to: teammateId
+      });
+    });
+
+    it('should unassign a task with null', async () => {
+      const task = await prisma.task.create({ data: { title: 'Someday', userId } });
+
+      const response = await patchTask(task.id, authToken, { assigneeId: null });
+
+      expect(response.status).toBe(200);
+      expect(response.body.assigneeId).toBeNull();
+    });
+
+    it('should reject assignees who do not exist or cannot see the task', async () => {
+      const task = await prisma.task.create({ data: { title: 'Private', userId } });
+
+      const unknown = await patchTask(task.id, authToken, { assigneeId: teammateId + 1000 });
+      const outsider = await patchTask(task.id, authToken, { assigneeId: teammateId });
+
+      expect(unknown.status).toBe(422);
+      expect(unknown.body.message).toBe('Assignee not found');
+      expect(outsider.status).toBe(422);
+      expect(outsider.body.message).toBe('Assignee cannot view this task');
+    });
+
+    it('should let a viewer who is the assignee change the status but nothing else', async () => {
+      const task = await shareTask('VIEWER');
+      await prisma.task.update({ where: { id: task.id }, data: { assigneeId: teammateId } });
+
+      const started = await patchTask(task.id, teammateToken, { status: TaskStatus.IN_PROGRESS });
+      const renamed = await patchTask(task.id, teammateToken, { title: 'Renamed' });
+      const reassigned = await patchTask(task.id, teammateToken, { assigneeId: userId });
+
+      expect(started.status).toBe(200);
+      expect(started.body.status).toBe(TaskStatus.IN_PROGRESS);
+      expect(renamed.status).toBe(403);
+      expect(reassigned.status).toBe(403);
+    });
+
+    it('should not let a viewer who is not the assignee change the status', async () => {
+      const task = await shareTask('VIEWER');
+
+      const response = await request(app)
+        .post(`/api/tasks/${task.id}/transitions`)
+        .set('Authorization', `Bearer ${teammateToken}`)
+        .send({ to: TaskStatus.IN_PROGRESS });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should list the tasks assigned to the caller', async () => {
+      const shared = await shareTask();
+      await prisma.task.update({ where: { id: shared.id }, data: { assigneeId: teammateId } });
+      await prisma.task.create({ data: { title: 'Own task', userId: teammateId, assigneeId: null } });
+      await prisma.task.create({ data: { title: 'Assigned to owner', userId } });
+
+      const response = await request(app)
+        .get('/api/tasks?assignee=me')
+        .set('Authorization', `Bearer ${teammateToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((task: { title: string }) => task.title)).toEqual(['Review budget']);
+    });
   });
 
   describe('Unexpected error handling', () => {
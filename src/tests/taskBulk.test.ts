@@ -0,0 +1,193 @@
+import request from 'supertest';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+
+describe('POST /api/tasks/bulk', () => {
+  let ownerToken: string;
+  let viewerToken: string;
+  let ownerId: number;
+  let viewerId: number;
+
+  const createTask = async (body: Record<string, unknown> = { title: 'Bulk task' }) => {
+    const response = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send(body);
+    return response.body.id as number;
+  };
+
+  const bulk = (body: Record<string, unknown>, token = ownerToken) => request(app)
+    .post('/api/tasks/bulk')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    ({ userId: ownerId, token: ownerToken } = await createUserWithToken('bulkowner@example.com', 'ownerpassword'));
+    ({ userId: viewerId, token: viewerToken } = await createUserWithToken('bulkviewer@example.com', 'viewerpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await deleteAllTasks();
+  });
+
+  it('should run mixed operations and return per-item results', async () => {
+    const updateId = await createTask({ title: 'Update me' });
+    const archiveId = await createTask({ title: 'Archive me' });
+    const deleteId = await createTask({ title: 'Delete me' });
+
+    const response = await bulk({
+      operations: [
+        { op: 'create', data: { title: 'Created in bulk', priority: 'HIGH' } },
+        { op: 'update', id: updateId, data: { status: 'IN_PROGRESS' } },
+        { op: 'archive', id: archiveId },
+        { op: 'delete', id: deleteId }
+      ]
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.succeeded).toBe(4);
+    expect(response.body.results.map((result: { status: number }) => result.status)).toEqual([201, 200, 200, 204]);
+    expect(response.body.results[0].task.userId).toBe(ownerId);
+    expect(response.body.results[1].task.startedAt).not.toBeNull();
+    expect(response.body.results[2].task.isArchived).toBe(true);
+
+    const deleted = await prisma.task.findUnique({ where: { id: deleteId } });
+    expect(deleted?.deletedAt).not.toBeNull();
+  });
+
+  it('should record history for every item', async () => {
+    const taskId = await createTask();
+
+    await bulk({ operations: [{ op: 'update', id: taskId, data: { title: 'Renamed in bulk' } }] });
+
+    const history = await prisma.taskActivity.findMany({ where: { taskId }, orderBy: { id: 'asc' } });
+    expect(history.map(activity => activity.action)).toEqual(['CREATED', 'UPDATED']);
+    expect(history[1].actorId).toBe(ownerId);
+  });
+
+  it('should notify the participants of every changed task', async () => {
+    const taskId = await createTask();
+    await prisma.taskCollaborator.create({ data: { taskId, userId: viewerId, role: 'VIEWER' } });
+
+    await bulk({ operations: [{ op: 'update', id: taskId, data: { status: 'DONE' } }] });
+
+    const notifications = await prisma.notification.findMany({ where: { taskId } });
+    expect(notifications.map(notification => [notification.userId, notification.type])).toEqual([[viewerId, 'TASK_UPDATED']]);
+  });
+
+  it('should apply nothing in atomic mode when an item fails', async () => {
+    const taskId = await createTask({ title: 'Untouched' });
+
+    const response = await bulk({
+      operations: [
+        { op: 'update', id: taskId, data: { title: 'Changed' } },
+        { op: 'create', data: { title: '' } }
+      ]
+    });
+
+    expect(response.status).toBe(422);
+    expect(response.body.results[0].status).toBe(424);
+    expect(response.body.results[1].status).toBe(422);
+    expect(response.body.results[1].error.errors[0].field).toBe('title');
+
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    expect(task?.title).toBe('Untouched');
+  });
+
+  it('should apply the valid items in best-effort mode', async () => {
+    const taskId = await createTask();
+
+    const response = await bulk({
+      mode: 'bestEffort',
+      operations: [
+        { op: 'update', id: taskId, data: { priority: 'URGENT' } },
+        { op: 'update', id: 999999, data: { priority: 'LOW' } },
+        { op: 'update', id: taskId, data: { priority: 'LOW' } }
+      ]
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.succeeded).toBe(1);
+    expect(response.body.failed).toBe(2);
+    expect(response.body.results.map((result: { status: number }) => result.status)).toEqual([200, 404, 409]);
+
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    expect(task?.priority).toBe('URGENT');
+  });
+
+  it('should enforce ownership on every item', async () => {
+    const taskId = await createTask();
+    await prisma.taskCollaborator.create({ data: { taskId, userId: viewerId, role: 'VIEWER' } });
+
+    const response = await bulk({
+      mode: 'bestEffort',
+      operations: [
+        { op: 'archive', id: taskId },
+        { op: 'delete', id: taskId }
+      ]
+    }, viewerToken);
+
+    expect(response.body.results.map((result: { status: number }) => result.status)).toEqual([403, 409]);
+  });
+
+  it('should apply the workflow to status changes', async () => {
+    const taskId = await createTask();
+
+    const response = await bulk({
+      operations: [{ op: 'update', id: taskId, data: { status: 'BOGUS' } }]
+    });
+
+    expect(response.status).toBe(422);
+    expect(response.body.results[0].error.errors[0].field).toBe('status');
+  });
+
+  it('should patch every task matching a filter', async () => {
+    await createTask({ title: 'Todo one' });
+    await createTask({ title: 'Todo two' });
+    const doneId = await createTask({ title: 'Already done', status: 'DONE' });
+
+    const response = await bulk({
+      filter: { status: 'TODO' },
+      patch: { isArchived: true }
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.results).toHaveLength(2);
+
+    const archived = await prisma.task.findMany({ where: { isArchived: true }, orderBy: { id: 'asc' } });
+    expect(archived.map(task => task.title)).toEqual(['Todo one', 'Todo two']);
+    expect((await prisma.task.findUnique({ where: { id: doneId } }))?.isArchived).toBe(false);
+  });
+
+  it('should reject requests with neither operations nor a filter and patch', async () => {
+    const response = await bulk({ filter: { status: 'TODO' } });
+
+    expect(response.status).toBe(422);
+    expect(response.body.errors[0].field).toBe('patch');
+  });
+
+  it('should reject labels instead of ignoring them', async () => {
+    const response = await bulk({
+      operations: [{ op: 'create', data: { title: 'Labelled', labelIds: [1] } }]
+    });
+
+    expect(response.status).toBe(422);
+    expect(response.body.errors[0].field).toBe('operations.0.data.labelIds');
+    expect(await prisma.task.count()).toBe(0);
+  });
+});
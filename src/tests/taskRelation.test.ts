@@ -0,0 +1,249 @@
+import { TaskStatus } from '../models/Task';
+import { Task } from '@prisma/client';
+import request from 'supertest';
+import app from '../app';
+import bcrypt from 'bcrypt';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+
+describe('Task relations API', () => {
+  let authToken: string;
+  let userId: number;
+  let otherUserId: number;
+
+  const createTask = async (title: string, status: keyof typeof TaskStatus = TaskStatus.TODO) =>
+    prisma.task.create({ data: { title, status, userId } });
+
+  const linkSubtask = (parentId: number, taskId: number) => request(app)
+    .post(`/api/tasks/${parentId}/subtasks`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ taskId });
+
+  const addDependency = (taskId: number, blockerId: number) => request(app)
+    .post(`/api/tasks/${taskId}/dependencies`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ blockerId });
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+
+    const savedUser = await prisma.user.create({
+      data: {
+        email: 'relations@example.com',
+        password: await bcrypt.hash('relationspassword', 10)
+      }
+    });
+    userId = savedUser.id;
+
+    const response = await request(app)
+      .post('/api/auth/token')
+      .set('Authorization', 'Basic ' + Buffer.from('relations@example.com:relationspassword').toString('base64'));
+
+    authToken = response.body.token;
+
+    ({ userId: otherUserId } = await createUserWithToken('relations-other@example.com', 'otherpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await deleteAllTasks();
+  });
+
+  describe('subtasks', () => {
+    it('should link a subtask and report completion counts', async () => {
+      const parent = await createTask('Parent');
+      const first = await createTask('First');
+      const second = await createTask('Second', TaskStatus.DONE);
+
+      const response = await linkSubtask(parent.id, first.id);
+      expect(response.status).toBe(200);
+      expect(response.body.parentId).toBe(parent.id);
+
+      await linkSubtask(parent.id, second.id);
+
+      const detail = await request(app)
+        .get(`/api/tasks/${parent.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(detail.body.subtaskCounts).toEqual({ total: 2, done: 1 });
+    });
+
+    it('should return the nested task tree', async () => {
+      const root = await createTask('Root');
+      const child = await createTask('Child');
+      const grandchild = await createTask('Grandchild');
+
+      await linkSubtask(root.id, child.id);
+      await linkSubtask(child.id, grandchild.id);
+
+      const response = await request(app)
+        .get(`/api/tasks/${root.id}/tree`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.subtaskCounts).toEqual({ total: 1, done: 0 });
+      expect(response.body.subtasks[0].title).toBe('Child');
+      expect(response.body.subtasks[0].subtasks[0].title).toBe('Grandchild');
+    });
+
+    it('should reject a parent cycle', async () => {
+      const root = await createTask('Root');
+      const child = await createTask('Child');
+
+      await linkSubtask(root.id, child.id);
+
+      const response = await linkSubtask(child.id, root.id);
+      expect(response.status).toBe(422);
+
+      const self = await linkSubtask(root.id, root.id);
+      expect(self.status).toBe(422);
+    });
+
+    it('should unlink a subtask', async () => {
+      const parent = await createTask('Parent');
+      const child = await createTask('Child');
+      await linkSubtask(parent.id, child.id);
+
+      const response = await request(app)
+        .delete(`/api/tasks/${parent.id}/subtasks/${child.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(204);
+      expect((await prisma.task.findUnique({ where: { id: child.id } }))?.parentId).toBeNull();
+
+      const history = await prisma.taskActivity.findMany({ where: { taskId: child.id }, orderBy: { id: 'asc' } });
+      expect(history.map(activity => (activity.changes as Record<string, unknown>).parentId).slice(1)).toEqual([
+        { from: null, to: parent.id },
+        { from: parent.id, to: null }
+      ]);
+    });
+
+    it('should not unlink a subtask the caller cannot edit', async () => {
+      const parent = await createTask('Parent');
+      const child = await prisma.task.create({
+        data: { title: 'Foreign child', userId: otherUserId, parentId: parent.id }
+      });
+      await prisma.taskCollaborator.create({ data: { taskId: child.id, userId, role: 'VIEWER' } });
+
+      const response = await request(app)
+        .delete(`/api/tasks/${parent.id}/subtasks/${child.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(403);
+      expect((await prisma.task.findUnique({ where: { id: child.id } }))?.parentId).toBe(parent.id);
+    });
+
+    it('should leave tasks the caller cannot see out of the tree', async () => {
+      const root = await createTask('Root');
+      const visible = await createTask('Visible');
+      await linkSubtask(root.id, visible.id);
+
+      await prisma.task.create({
+        data: { title: 'Hidden child', userId: otherUserId, parentId: root.id }
+      });
+      const hiddenBlocker = await prisma.task.create({ data: { title: 'Hidden blocker', userId: otherUserId } });
+      const hiddenBlocked = await prisma.task.create({ data: { title: 'Hidden blocked', userId: otherUserId } });
+      await prisma.taskDependency.createMany({
+        data: [
+          { blockerId: hiddenBlocker.id, blockedId: root.id },
+          { blockerId: root.id, blockedId: hiddenBlocked.id }
+        ]
+      });
+
+      const response = await request(app)
+        .get(`/api/tasks/${root.id}/tree`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.subtasks.map((task: Task) => task.title)).toEqual(['Visible']);
+      expect(response.body.subtaskCounts).toEqual({ total: 1, done: 0 });
+      expect(response.body.blockedBy).toEqual([]);
+      expect(response.body.blocking).toEqual([]);
+    });
+  });
+
+  describe('dependencies', () => {
+    it('should add a dependency and list it on the tree', async () => {
+      const blocker = await createTask('Blocker');
+      const blocked = await createTask('Blocked');
+
+      const response = await addDependency(blocked.id, blocker.id);
+      expect(response.status).toBe(201);
+
+      const duplicate = await addDependency(blocked.id, blocker.id);
+      expect(duplicate.status).toBe(409);
+
+      const tree = await request(app)
+        .get(`/api/tasks/${blocked.id}/tree`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(tree.body.blockedBy.map((task: Task) => task.id)).toEqual([blocker.id]);
+    });
+
+    it('should reject dependency cycles', async () => {
+      const a = await createTask('A');
+      const b = await createTask('B');
+      const c = await createTask('C');
+
+      await addDependency(b.id, a.id);
+      await addDependency(c.id, b.id);
+
+      const response = await addDependency(a.id, c.id);
+      expect(response.status).toBe(422);
+
+      const self = await addDependency(a.id, a.id);
+      expect(self.status).toBe(422);
+    });
+
+    it('should refuse to complete a task with unfinished blockers', async () => {
+      const blocker = await createTask('Blocker');
+      const blocked = await createTask('Blocked');
+      await addDependency(blocked.id, blocker.id);
+
+      const refused = await request(app)
+        .patch(`/api/tasks/${blocked.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE });
+
+      expect(refused.status).toBe(422);
+      expect(refused.body.errors[0].field).toBe('status');
+      expect(refused.body.errors[0].message).toContain(`#${blocker.id}`);
+
+      await request(app)
+        .patch(`/api/tasks/${blocker.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE });
+
+      const allowed = await request(app)
+        .patch(`/api/tasks/${blocked.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE });
+
+      expect(allowed.status).toBe(200);
+    });
+
+    it('should remove a dependency', async () => {
+      const blocker = await createTask('Blocker');
+      const blocked = await createTask('Blocked');
+      await addDependency(blocked.id, blocker.id);
+
+      const response = await request(app)
+        .delete(`/api/tasks/${blocked.id}/dependencies/${blocker.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(response.status).toBe(204);
+
+      const missing = await request(app)
+        .delete(`/api/tasks/${blocked.id}/dependencies/${blocker.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(missing.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+
+interface StreamEvent {
+  id?: string;
+  event?: string;
+  data?: string;
+}
+
+interface OpenStream {
+  status: number;
+  events: StreamEvent[];
+  waitFor: (count: number) => Promise<StreamEvent[]>;
+  close: () => void;
+}
+
+describe('Task stream', () => {
+  let server: http.Server;
+  let port: number;
+  let ownerToken: string;
+  let viewerToken: string;
+  let outsiderToken: string;
+  let viewerId: number;
+
+  // Minimal EventSource: parses `id`, `event` and `data` fields, skipping comments and `retry`.
+  const openStream = (path: string, headers: http.OutgoingHttpHeaders = {}) => new Promise<OpenStream>(resolve => {
+    const events: StreamEvent[] = [];
+    let buffer = '';
+    let waiter: (() => void) | null = null;
+
+    const req = http.get({ port, path, headers }, res => {
+      res.setEncoding('utf8');
+      res.on('data', chunk => {
+        buffer += chunk;
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop()!;
+
+        for (const block of blocks) {
+          const event: StreamEvent = {};
+          for (const line of block.split('\n')) {
+            const [field, ...rest] = line.split(': ');
+            if (field === 'id' || field === 'event' || field === 'data') {
+              event[field] = rest.join(': ');
+            }
+          }
+          if (event.event) {
+            events.push(event);
+          }
+        }
+
+        waiter?.();
+      });
+
+      resolve({
+        status: res.statusCode!,
+        events,
+        waitFor: count => new Promise(done => {
+          waiter = () => {
+            if (events.length >= count) {
+              waiter = null;
+              done(events);
+            }
+          };
+          waiter();
+        }),
+        close: () => req.destroy()
+      });
+    });
+  });
+
+  const createTask = async (body: Record<string, unknown>) => {
+    const response = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send(body);
+    return response.body.id as number;
+  };
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    ({ token: ownerToken } = await createUserWithToken('streamowner@example.com', 'ownerpassword'));
+    ({ userId: viewerId, token: viewerToken } = await createUserWithToken('streamviewer@example.com', 'viewerpassword'));
+    ({ token: outsiderToken } = await createUserWithToken('streamoutsider@example.com', 'outsiderpassword'));
+
+    server = app.listen(0);
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await deleteAllTasks();
+  });
+
+  it('should require authentication', async () => {
+    const stream = await openStream('/api/tasks/stream');
+    stream.close();
+
+    expect(stream.status).toBe(401);
+  });
+
+  it('should push create, update and archive events to the task owner', async () => {
+    const stream = await openStream('/api/tasks/stream', { Authorization: `Bearer ${ownerToken}` });
+    expect(stream.status).toBe(200);
+
+    const taskId = await createTask({ title: 'Live task' });
+    await request(app)
+      .patch(`/api/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Renamed live task' });
+    await request(app)
+      .patch(`/api/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ isArchived: true });
+
+    const events = await stream.waitFor(3);
+    stream.close();
+
+    expect(events.map(event => event.event)).toEqual(['task.created', 'task.updated', 'task.archived']);
+    expect(JSON.parse(events[1].data!).title).toBe('Renamed live task');
+  });
+
+  it('should accept the token as a query parameter and only send visible tasks', async () => {
+    const viewerStream = await openStream(`/api/tasks/stream?access_token=${viewerToken}`);
+    const outsiderStream = await openStream('/api/tasks/stream', { Authorization: `Bearer ${outsiderToken}` });
+
+    const hiddenId = await createTask({ title: 'Private' });
+    const sharedId = await createTask({ title: 'Shared' });
+    await prisma.taskCollaborator.create({ data: { taskId: sharedId, userId: viewerId, role: 'VIEWER' } });
+    await request(app)
+      .patch(`/api/tasks/${sharedId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ description: 'Now visible' });
+
+    const events = await viewerStream.waitFor(1);
+    viewerStream.close();
+    outsiderStream.close();
+
+    expect(events).toHaveLength(1);
+    expect(JSON.parse(events[0].data!).id).toBe(sharedId);
+    expect(JSON.parse(events[0].data!).id).not.toBe(hiddenId);
+    expect(outsiderStream.events).toEqual([]);
+  });
+
+  it('should replay missed events after Last-Event-ID', async () => {
+    const stream = await openStream('/api/tasks/stream', { Authorization: `Bearer ${ownerToken}` });
+    await createTask({ title: 'First' });
+    const [first] = await stream.waitFor(1);
+    stream.close();
+
+    await createTask({ title: 'Second' });
+    await createTask({ title: 'Third' });
+
+    const resumed = await openStream('/api/tasks/stream', {
+      Authorization: `Bearer ${ownerToken}`,
+      'Last-Event-ID': first.id
+    });
+    const events = await resumed.waitFor(2);
+    resumed.close();
+
+    expect(events.map(event => JSON.parse(event.data!).title)).toEqual(['Second', 'Third']);
+  });
+
+  it('should ask the client to reload when Last-Event-ID is unknown', async () => {
+    const stream = await openStream('/api/tasks/stream', {
+      Authorization: `Bearer ${ownerToken}`,
+      'Last-Event-ID': 'unknown-1'
+    });
+    const [event] = await stream.waitFor(1);
+    stream.close();
+
+    expect(event.event).toBe('reset');
+  });
+});
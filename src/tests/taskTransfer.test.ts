@@ -0,0 +1,237 @@
+import request from 'supertest';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+import { parseCsv } from '../services/csv';
+
+describe('Task import and export', () => {
+  let token: string;
+  let userId: number;
+  let otherToken: string;
+
+  const createTask = async (body: Record<string, unknown>) => {
+    const response = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+    return response.body.id as number;
+  };
+
+  const importCsv = (csv: string, query = '') => request(app)
+    .post(`/api/tasks/import${query}`)
+    .set('Authorization', `Bearer ${token}`)
+    .set('Content-Type', 'text/csv')
+    .send(csv);
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    ({ userId, token } = await createUserWithToken('transfer@example.com', 'transferpassword'));
+    ({ token: otherToken } = await createUserWithToken('transferother@example.com', 'otherpassword'));
+  });
+
+  afterAll(async () => {
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await deleteAllTasks();
+  });
+
+  describe('GET /api/tasks/export', () => {
+    it('should export all tasks including archived ones as JSON', async () => {
+      await createTask({ title: 'Active' });
+      await createTask({ title: 'Archived', isArchived: true });
+
+      const response = await request(app)
+        .get('/api/tasks/export')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toBe('attachment; filename="tasks.json"');
+      expect(response.body.map((task: { title: string }) => task.title)).toEqual(['Active', 'Archived']);
+    });
+
+    it('should export CSV with a header row and quoted values', async () => {
+      await createTask({ title: 'Plan, then ship', description: 'Line one\nLine two', priority: 'HIGH' });
+
+      const response = await request(app)
+        .get('/api/tasks/export?format=csv')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+
+      const [header, row] = parseCsv(response.text);
+      const record = Object.fromEntries(header.map((column, index) => [column, row[index]]));
+      expect(record.title).toBe('Plan, then ship');
+      expect(record.description).toBe('Line one\nLine two');
+      expect(record.priority).toBe('HIGH');
+    });
+
+    it('should escape values a spreadsheet would run as formulas', async () => {
+      await createTask({ title: '=HYPERLINK("https://example.com")', description: '@SUM(A1:A2)' });
+
+      const response = await request(app)
+        .get('/api/tasks/export?format=csv')
+        .set('Authorization', `Bearer ${token}`);
+
+      const [header, row] = parseCsv(response.text);
+      const record = Object.fromEntries(header.map((column, index) => [column, row[index]]));
+      expect(record.title).toBe('\'=HYPERLINK("https://example.com")');
+      expect(record.description).toBe('\'@SUM(A1:A2)');
+
+      await deleteAllTasks();
+      const imported = await importCsv(response.text);
+
+      expect(imported.status).toBe(201);
+      expect(imported.body.tasks[0].title).toBe('=HYPERLINK("https://example.com")');
+    });
+
+    it('should honour list filters', async () => {
+      await createTask({ title: 'Todo' });
+      await createTask({ title: 'Done', status: 'DONE' });
+      await createTask({ title: 'Archived todo', isArchived: true });
+
+      const response = await request(app)
+        .get('/api/tasks/export?status=TODO&isArchived=false')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.body.map((task: { title: string }) => task.title)).toEqual(['Todo']);
+    });
+
+    it('should only export the caller\'s tasks', async () => {
+      await createTask({ title: 'Mine' });
+
+      const response = await request(app)
+        .get('/api/tasks/export')
+        .set('Authorization', `Bearer ${otherToken}`);
+
+      expect(response.body).toEqual([]);
+    });
+
+    it('should reject unknown formats', async () => {
+      const response = await request(app)
+        .get('/api/tasks/export?format=xml')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].field).toBe('format');
+    });
+  });
+
+  describe('POST /api/tasks/import', () => {
+    it('should import CSV rows and map status labels', async () => {
+      const response = await importCsv([
+        'Title,Status,Priority,Due At',
+        'Write docs,To do,high,2025-09-01T17:00:00Z',
+        'Fix build,In Progress,,',
+        '"Ship it, finally",Done,,'
+      ].join('\n'));
+
+      expect(response.status).toBe(201);
+      expect(response.body.imported).toBe(3);
+
+      const tasks = await prisma.task.findMany({ where: { userId }, orderBy: { id: 'asc' } });
+      expect(tasks.map(task => [task.title, task.status])).toEqual([
+        ['Write docs', 'TODO'],
+        ['Fix build', 'IN_PROGRESS'],
+        ['Ship it, finally', 'DONE']
+      ]);
+      expect(tasks[0].priority).toBe('HIGH');
+      expect(tasks[2].completedAt).not.toBeNull();
+
+      const history = await prisma.taskActivity.findMany({ where: { taskId: tasks[0].id } });
+      expect(history.map(activity => activity.action)).toEqual(['CREATED']);
+    });
+
+    it('should import a JSON export back', async () => {
+      await createTask({ title: 'Round trip', priority: 'URGENT', estimateMinutes: 45 });
+
+      const exported = await request(app)
+        .get('/api/tasks/export')
+        .set('Authorization', `Bearer ${token}`);
+
+      const response = await request(app)
+        .post('/api/tasks/import')
+        .set('Authorization', `Bearer ${token}`)
+        .send(exported.body);
+
+      expect(response.status).toBe(201);
+      expect(response.body.tasks[0]).toMatchObject({ title: 'Round trip', priority: 'URGENT', estimateMinutes: 45 });
+      expect(response.body.tasks[0].id).not.toBe(exported.body[0].id);
+    });
+
+    it('should report invalid rows and import nothing', async () => {
+      const response = await importCsv([
+        'title,status,estimateMinutes',
+        'Valid,TODO,',
+        ',TODO,',
+        'Bad status,Someday,1.5'
+      ].join('\n'));
+
+      expect(response.status).toBe(422);
+      expect(response.body.valid).toBe(1);
+      expect(response.body.failed).toBe(2);
+      expect(response.body.errors[0]).toMatchObject({ row: 2, errors: [{ field: 'title' }] });
+      expect(response.body.errors[1].row).toBe(3);
+      expect(response.body.errors[1].errors.map((error: { field: string }) => error.field).sort())
+        .toEqual(['estimateMinutes', 'status']);
+
+      expect(await prisma.task.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should preview without writing on a dry run', async () => {
+      const response = await importCsv('title,status\nPreview me,in progress\n', '?dryRun=true');
+
+      expect(response.status).toBe(200);
+      expect(response.body.dryRun).toBe(true);
+      expect(response.body.preview[0]).toMatchObject({ row: 1, task: { title: 'Preview me', status: 'IN_PROGRESS' } });
+      expect(await prisma.task.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should reject projects the caller does not belong to', async () => {
+      const project = await prisma.project.create({ data: { name: 'Elsewhere' } });
+
+      const response = await importCsv(`title,projectId\nSneaky,${project.id}\n`);
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors[0].errors[0].field).toBe('projectId');
+    });
+
+    it('should import labels by name and reject unknown ones', async () => {
+      const label = await request(app)
+        .post('/api/labels')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'bug' });
+
+      const unknown = await importCsv('title,labels\nLabelled,bug;later\n');
+
+      expect(unknown.status).toBe(422);
+      expect(unknown.body.errors[0].errors).toEqual([{ field: 'labels', message: 'Unknown labels: later', code: 'custom' }]);
+
+      const response = await importCsv('title,labels\nLabelled,bug\n');
+
+      expect(response.status).toBe(201);
+      expect(response.body.tasks[0].labels).toEqual([{ id: label.body.id, name: 'bug', color: label.body.color }]);
+    });
+
+    it('should reject unsupported content types', async () => {
+      const response = await request(app)
+        .post('/api/tasks/import')
+        .set('Authorization', `Bearer ${token}`)
+        .set('Content-Type', 'text/plain')
+        .send('title\nNope');
+
+      expect(response.status).toBe(415);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import app from '../app';
+import prisma from '../services/prisma';
+import { createUserWithToken } from './helpers/auth';
+import { deleteAllTasks } from './helpers/db';
+import { signWebhookPayload } from '../services/webhooks';
+import { webhookLookup } from '../services/webhookTargets';
+import { processWebhookDeliveries, retryDelayMs, WEBHOOK_MAX_ATTEMPTS } from '../jobs/webhookDelivery';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhook API', () => {
+  let ownerToken: string;
+  let outsiderToken: string;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+
+  const registerWebhook = async (events: string[], token = ownerToken) => {
+    const response = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ url: receiverUrl, events });
+    return response.body as { id: number; secret: string };
+  };
+
+  const createTask = async (body: Record<string, unknown> = { title: 'Hooked task' }) => {
+    const response = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send(body);
+    return response.body.id as number;
+  };
+
+  beforeAll(async () => {
+    await prisma.$connect();
+
+    // The stand-in receiver below listens on loopback, which webhooks may not target otherwise.
+    process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    ({ token: ownerToken } = await createUserWithToken('hookowner@example.com', 'ownerpassword'));
+    ({ token: outsiderToken } = await createUserWithToken('hookoutsider@example.com', 'outsiderpassword'));
+
+    // Local stand-in for a receiving service.
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+    await deleteAllTasks();
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+    await deleteAllTasks();
+    await prisma.webhook.deleteMany({});
+    received = [];
+    responseStatus = 200;
+  });
+
+  describe('POST /api/webhooks', () => {
+    it('should register a webhook and return its secret once', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ url: receiverUrl, events: ['task.created', 'task.created'] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.secret).toMatch(/^whsec_/);
+      expect(response.body.events).toEqual(['task.created']);
+      expect(response.body.isActive).toBe(true);
+
+      const getResponse = await request(app)
+        .get(`/api/webhooks/${response.body.id}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(getResponse.status).toBe(200);
+      expect(getResponse.body.secret).toBeUndefined();
+    });
+
+    it('should reject unknown events and non-http URLs', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ url: 'ftp://example.com/hooks', events: ['task.exploded'] });
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors.map((error: { field: string }) => error.field).sort()).toEqual(['events.0', 'url']);
+    });
+
+    it('should reject loopback, private and link-local URLs', async () => {
+      const urls = [
+        'http://localhost:3000/hooks',
+        'http://10.0.0.5/hooks',
+        'http://169.254.169.254/latest/meta-data',
+        'http://[::1]/hooks',
+        'http://[fd00::1]/hooks',
+        'http://[::ffff:192.168.0.1]/hooks'
+      ];
+
+      for (const url of urls) {
+        const response = await request(app)
+          .post('/api/webhooks')
+          .set('Authorization', `Bearer ${ownerToken}`)
+          .send({ url, events: ['task.created'] });
+
+        expect(response.status).toBe(422);
+        expect(response.body.errors[0].field).toBe('url');
+      }
+    });
+
+    it('should not expose webhooks to other users', async () => {
+      const { id } = await registerWebhook(['task.created']);
+
+      const response = await request(app)
+        .get(`/api/webhooks/${id}`)
+        .set('Authorization', `Bearer ${outsiderToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('delivery', () => {
+    it('should deliver a signed task.created event', async () => {
+      const { id, secret } = await registerWebhook(['task.created']);
+      const taskId = await createTask();
+
+      expect(await processWebhookDeliveries()).toBe(1);
+      expect(received).toHaveLength(1);
+
+      const [{ headers, body }] = received;
+      const payload = JSON.parse(body);
+
+      expect(headers['x-webhook-event']).toBe('task.created');
+      expect(headers['x-webhook-signature']).toBe(
+        signWebhookPayload(secret, Number(headers['x-webhook-timestamp']), body)
+      );
+      expect(payload.event).toBe('task.created');
+      expect(payload.task.id).toBe(taskId);
+
+      const deliveries = await request(app)
+        .get(`/api/webhooks/${id}/deliveries`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(deliveries.status).toBe(200);
+      expect(deliveries.body.data[0].status).toBe('SUCCEEDED');
+      expect(deliveries.body.data[0].attempts).toHaveLength(1);
+      expect(deliveries.body.data[0].attempts[0].responseCode).toBe(200);
+    });
+
+    it('should emit updated, status_changed and archived events for subscribed webhooks only', async () => {
+      await registerWebhook(['task.status_changed', 'task.archived']);
+      const taskId = await createTask();
+
+      await request(app)
+        .patch(`/api/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ status: 'IN_PROGRESS', isArchived: true });
+
+      await processWebhookDeliveries();
+
+      const events = received.map(({ headers }) => headers['x-webhook-event']).sort();
+      expect(events).toEqual(['task.archived', 'task.status_changed']);
+
+      const statusChange = JSON.parse(received.find(({ headers }) => headers['x-webhook-event'] === 'task.status_changed')!.body);
+      expect(statusChange.changes.status).toEqual({ from: 'TODO', to: 'IN_PROGRESS' });
+    });
+
+    it('should not deliver events for tasks the webhook owner cannot see', async () => {
+      await registerWebhook(['task.created'], outsiderToken);
+      await createTask();
+
+      expect(await processWebhookDeliveries()).toBe(0);
+      expect(received).toHaveLength(0);
+    });
+
+    it('should retry failed deliveries with exponential backoff and give up eventually', async () => {
+      responseStatus = 500;
+      const { id } = await registerWebhook(['task.created']);
+      await createTask();
+
+      const start = new Date();
+      await processWebhookDeliveries(start);
+
+      const [delivery] = await prisma.webhookDelivery.findMany({ where: { webhookId: id } });
+      expect(delivery.status).toBe('PENDING');
+      expect(delivery.attemptCount).toBe(1);
+      expect(delivery.nextAttemptAt.getTime()).toBe(start.getTime() + retryDelayMs(1));
+
+      // Not due yet.
+      expect(await processWebhookDeliveries(start)).toBe(0);
+
+      let now = start;
+      for (let attempt = 2; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+        now = new Date(now.getTime() + retryDelayMs(attempt - 1));
+        await processWebhookDeliveries(now);
+      }
+
+      const failed = await prisma.webhookDelivery.findUniqueOrThrow({
+        where: { id: delivery.id },
+        include: { attempts: true }
+      });
+      expect(failed.status).toBe('FAILED');
+      expect(failed.attempts).toHaveLength(WEBHOOK_MAX_ATTEMPTS);
+      expect(failed.attempts[0].responseCode).toBe(500);
+    });
+
+    it('should refuse to deliver to a host that is no longer allowed', async () => {
+      const { id } = await registerWebhook(['task.created']);
+      await createTask();
+
+      process.env.WEBHOOK_ALLOWED_HOSTS = '';
+      await processWebhookDeliveries();
+
+      expect(received).toHaveLength(0);
+
+      const [delivery] = await prisma.webhookDelivery.findMany({ where: { webhookId: id }, include: { attempts: true } });
+      expect(delivery.status).toBe('PENDING');
+      expect(delivery.attempts[0].responseCode).toBeNull();
+      expect(delivery.attempts[0].error).toMatch(/loopback/);
+    });
+
+    it('should refuse hostnames that resolve to a private address', async () => {
+      process.env.WEBHOOK_ALLOWED_HOSTS = '';
+
+      const error = await new Promise<Error | null>(resolve =>
+        webhookLookup('localhost', { all: true }, lookupError => resolve(lookupError)));
+
+      expect(error?.message).toMatch(/resolves to/);
+    });
+
+    it('should hold deliveries while a webhook is disabled', async () => {
+      const { id } = await registerWebhook(['task.created']);
+
+      await createTask();
+      await request(app)
+        .patch(`/api/webhooks/${id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ isActive: false });
+
+      expect(await processWebhookDeliveries()).toBe(0);
+
+      await request(app)
+        .patch(`/api/webhooks/${id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ isActive: true });
+
+      expect(await processWebhookDeliveries()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { TaskStatus } from '../models/Task';
+import { DEFAULT_WORKFLOW, TransitionRule, applyInitialStatus, applyTransition, availableTransitions } from '../services/workflow';
+
+describe('Task workflow', () => {
+  const now = new Date('2025-08-25T09:00:00.000Z');
+  const rules: TransitionRule[] = [
+    { from: TaskStatus.TODO, to: TaskStatus.IN_PROGRESS, requires: [] },
+    { from: TaskStatus.IN_PROGRESS, to: TaskStatus.DONE, requires: ['resolution'] },
+    { from: TaskStatus.DONE, to: TaskStatus.IN_PROGRESS, requires: [] }
+  ];
+
+  it('should list the transitions available from a status', () => {
+    expect(availableTransitions(TaskStatus.IN_PROGRESS, rules).map(rule => rule.to)).toEqual([TaskStatus.DONE]);
+  });
+
+  it('should set startedAt the first time work starts', () => {
+    const result = applyTransition({ status: TaskStatus.TODO, startedAt: null }, TaskStatus.IN_PROGRESS, {}, { rules, now });
+
+    expect(result).toEqual({ startedAt: now, completedAt: null });
+  });
+
+  it('should keep the original startedAt when reopening', () => {
+    const result = applyTransition(
+      { status: TaskStatus.DONE, startedAt: new Date('2025-01-01') },
+      TaskStatus.IN_PROGRESS,
+      {},
+      { rules, now }
+    );
+
+    expect(result).toEqual({ completedAt: null });
+  });
+
+  it('should set completedAt when moving to DONE with the required fields', () => {
+    const result = applyTransition(
+      { status: TaskStatus.IN_PROGRESS, startedAt: now },
+      TaskStatus.DONE,
+      { resolution: 'Shipped' },
+      { rules, now }
+    );
+
+    expect(result).toEqual({ completedAt: now });
+  });
+
+  it('should reject a transition that is missing a required field', () => {
+    const attempt = () => applyTransition(
+      { status: TaskStatus.IN_PROGRESS, startedAt: now },
+      TaskStatus.DONE,
+      { resolution: '   ' },
+      { rules, now }
+    );
+
+    expect(attempt).toThrow(z.ZodError);
+    expect(attempt).toThrow('Resolution is required when moving to DONE');
+  });
+
+  it('should reject a transition that is not in the table', () => {
+    const attempt = () => applyTransition({ status: TaskStatus.TODO, startedAt: null }, TaskStatus.DONE, {}, { rules, now });
+
+    expect(attempt).toThrow('Cannot move a task from TODO to DONE; allowed: IN_PROGRESS');
+  });
+
+  it('should require the fields a move into the status needs when creating a task in it', () => {
+    const attempt = () => applyInitialStatus(TaskStatus.DONE, {}, { rules, now });
+
+    expect(attempt).toThrow('Resolution is required when moving to DONE');
+    expect(applyInitialStatus(TaskStatus.DONE, { resolution: 'Imported' }, { rules, now }))
+      .toEqual({ startedAt: now, completedAt: now });
+  });
+
+  it('should reject creating a task in a status the workflow never leads to', () => {
+    const attempt = () => applyInitialStatus(TaskStatus.DONE, {}, { rules: rules.slice(0, 1), now });
+
+    expect(attempt).toThrow('Tasks cannot be created in DONE');
+  });
+
+  it('should fall back to the default workflow but refuse to start with an invalid TASK_WORKFLOW', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.TASK_WORKFLOW = '[{"from":"TODO"}]';
+
+    jest.isolateModules(() => {
+      const { assertWorkflowConfig, workflow } = require('../services/workflow');
+
+      expect(workflow).toEqual(DEFAULT_WORKFLOW);
+      expect(assertWorkflowConfig).toThrow('TASK_WORKFLOW is invalid');
+    });
+
+    delete process.env.TASK_WORKFLOW;
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
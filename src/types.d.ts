@@ -1,8 +1,14 @@
-import { TaskStatus as PrismaTaskStatus } from '@prisma/client';
+import { TaskPriority as PrismaTaskPriority, TaskStatus as PrismaTaskStatus } from '@prisma/client';
 
 export interface Task {
   title?: string;
   description?: string;
   status?: PrismaTaskStatus;
+  priority?: PrismaTaskPriority;
+  dueAt?: string | null;
+  estimateMinutes?: number | null;
   isArchived?: boolean;
+  resolution?: string | null;
+  projectId?: number | null;
+  assigneeId?: number | null;
 }
\ No newline at end of file